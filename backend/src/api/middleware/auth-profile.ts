@@ -0,0 +1,25 @@
+/**
+ * Auth Profile Middleware
+ * Rejects runs that name an unknown auth profile before a browser is launched
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { NotFoundError } from './error-handler.js';
+import { authProfiles } from '../../services/index.js';
+
+/**
+ * 404 when `authProfile` in the body does not exist
+ * Must run after body validation
+ */
+export function requireKnownAuthProfile(req: Request, _res: Response, next: NextFunction): void {
+  const name = (req.body as { authProfile?: string } | undefined)?.authProfile;
+  if (!name) {
+    next();
+    return;
+  }
+
+  authProfiles
+    .exists(name)
+    .then((exists) => next(exists ? undefined : new NotFoundError(`Auth profile ${name}`)))
+    .catch(next);
+}
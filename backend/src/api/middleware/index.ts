@@ -16,3 +16,5 @@ export {
   validators,
   schemas,
 } from './validator.js';
+
+export { requireKnownAuthProfile } from './auth-profile.js';
@@ -6,6 +6,140 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema, ZodError } from 'zod';
 import { ValidationError } from './error-handler.js';
+import { isKnownDevice } from '../../services/browser-emulation.js';
+import { TEST_STEP_ACTIONS } from '../../types/index.js';
+
+// ============================================
+// Shared Schemas
+// ============================================
+
+const testContextSchema = z.object({
+  pageType: z.string().optional(),
+  allowedActions: z.array(z.string()).optional(),
+  allowedElements: z.array(z.string()).optional(),
+  baseUrl: z.string().url().optional(),
+  customInstructions: z.string().optional(),
+});
+
+const testStepSchema = z.object({
+  action: z.enum(TEST_STEP_ACTIONS, {
+    errorMap: () => ({ message: `action must be one of: ${TEST_STEP_ACTIONS.join(', ')}` }),
+  }),
+  target: z.string().optional(),
+  value: z.string().optional(),
+  description: z.string().optional(),
+  timeout: z.number().positive().optional(),
+  method: z.string().optional(),
+  status: z.number().int().min(100).max(599).optional(),
+  frame: z.string().optional(),
+  tab: z.number().int().min(0).optional(),
+  name: z.string().regex(/^[\w-]+$/, 'Baseline name may only contain letters, digits, _ and -').optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  mask: z.array(z.string()).optional(),
+  accessibility: z.object({
+    minImpact: z.enum(['minor', 'moderate', 'serious', 'critical']).optional(),
+    tags: z.array(z.string()).optional(),
+    includeRules: z.array(z.string()).optional(),
+    excludeRules: z.array(z.string()).optional(),
+  }).optional(),
+});
+
+const viewportSchema = z.object({
+  name: z.string().optional(),
+  width: z.number().int().min(200).max(7680),
+  height: z.number().int().min(200).max(4320),
+});
+
+// Device, viewport, locale, timezone, geolocation, color scheme and permissions
+const emulationSchema = z.object({
+  device: z.string().refine(isKnownDevice, {
+    message: 'Unknown device - use a Playwright device name such as "iPhone 13" or "Pixel 7"',
+  }).optional(),
+  viewport: viewportSchema.optional(),
+  locale: z.string().min(2).optional(),
+  timezone: z.string().min(1).optional(),
+  geolocation: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+  }).optional(),
+  colorScheme: z.enum(['light', 'dark', 'no-preference']).optional(),
+  permissions: z.array(z.string().min(1)).optional(),
+});
+
+const artifactOptionsSchema = z.object({
+  artifacts: z.array(z.enum(['trace', 'video', 'har', 'console'])).optional(),
+  keepArtifacts: z.enum(['always', 'on-failure']).optional(),
+});
+
+const executionOptionsSchema = z.object({
+  headless: z.boolean().optional(),
+  timeout: z.number().positive().optional(),
+  screenshot: z.boolean().optional(),
+  browser: z.enum(['chromium', 'firefox', 'webkit']).optional(),
+  selfHeal: z.boolean().optional(),
+}).merge(emulationSchema).merge(artifactOptionsSchema);
+
+const datasetSchema = z.object({
+  name: z.string().optional(),
+  rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))).min(1).optional(),
+  csv: z.string().min(1).optional(),
+  json: z.string().min(1).optional(),
+}).refine(
+  (d) => [d.rows, d.csv, d.json].filter((source) => source !== undefined).length === 1,
+  { message: 'Provide exactly one of rows, csv or json' }
+);
+
+const browserSchema = z.enum(['chromium', 'firefox', 'webkit']);
+
+const authProfileNameSchema = z.string().regex(/^[\w-]+$/, 'Profile name may only contain letters, digits, _ and -');
+
+// Playwright storageState JSON (context.storageState() / storageState.json)
+const storageStateSchema = z.object({
+  cookies: z.array(z.object({
+    name: z.string(),
+    value: z.string(),
+    domain: z.string(),
+    path: z.string(),
+    expires: z.number(),
+    httpOnly: z.boolean(),
+    secure: z.boolean(),
+    sameSite: z.enum(['Strict', 'Lax', 'None']),
+  })),
+  origins: z.array(z.object({
+    origin: z.string().url(),
+    localStorage: z.array(z.object({ name: z.string(), value: z.string() })),
+  })),
+});
+
+const llmProviderSchema = z.enum(['ollama', 'groq', 'openai', 'anthropic', 'google']);
+
+const reportFormatSchema = z.enum(['junit', 'html', 'markdown']);
+
+const llmCacheModeSchema = z.enum(['default', 'refresh', 'bypass']);
+
+const llmOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().positive().optional(),
+  topP: z.number().min(0).max(1).optional(),
+  timeout: z.number().positive().optional(),
+  cache: z.object({
+    mode: llmCacheModeSchema.optional(),
+    scope: z.string().min(1).optional(),
+  }).optional(),
+});
+
+const scheduleTargetSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scenario'),
+    scenarioId: z.string().min(1, 'Scenario ID is required'),
+    regenerate: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('steps'),
+    steps: z.array(testStepSchema).min(1, 'At least one step is required'),
+  }),
+]);
 
 // ============================================
 // Validation Schemas
@@ -14,19 +148,14 @@ import { ValidationError } from './error-handler.js';
 export const schemas = {
   // Provider selection
   setActiveProvider: z.object({
-    provider: z.enum(['ollama', 'groq', 'openai', 'anthropic', 'google']),
+    provider: llmProviderSchema,
   }),
 
   // Simple generation
   generate: z.object({
     prompt: z.string().min(1, 'Prompt is required'),
     systemPrompt: z.string().optional(),
-    options: z.object({
-      temperature: z.number().min(0).max(2).optional(),
-      maxTokens: z.number().positive().optional(),
-      topP: z.number().min(0).max(1).optional(),
-      timeout: z.number().positive().optional(),
-    }).optional(),
+    options: llmOptionsSchema.optional(),
   }),
 
   // Chat completion
@@ -35,62 +164,222 @@ export const schemas = {
       role: z.enum(['system', 'user', 'assistant']),
       content: z.string(),
     })).min(1, 'At least one message is required'),
-    options: z.object({
-      temperature: z.number().min(0).max(2).optional(),
-      maxTokens: z.number().positive().optional(),
-      topP: z.number().min(0).max(1).optional(),
-      timeout: z.number().positive().optional(),
-    }).optional(),
+    options: llmOptionsSchema.optional(),
   }),
 
   // Test step generation
   generateTestSteps: z.object({
     scenario: z.string().min(1, 'Test scenario is required'),
-    context: z.object({
-      pageType: z.string().optional(),
-      allowedActions: z.array(z.string()).optional(),
-      allowedElements: z.array(z.string()).optional(),
-      baseUrl: z.string().url().optional(),
-      customInstructions: z.string().optional(),
-    }).optional(),
+    context: testContextSchema.optional(),
+    cache: llmCacheModeSchema.optional(),
   }),
 
   // Test step execution
   executeTestSteps: z.object({
-    steps: z.array(z.object({
-      action: z.string(),
-      target: z.string().optional(),
-      value: z.string().optional(),
-      description: z.string().optional(),
-      timeout: z.number().positive().optional(),
-    })).min(1, 'At least one step is required'),
+    steps: z.array(testStepSchema).min(1, 'At least one step is required'),
     scenario: z.string().optional(),
+    dataset: datasetSchema.optional(),
+    authProfile: authProfileNameSchema.optional(),
+    report: reportFormatSchema.optional(),
     options: z.object({
       headless: z.boolean().optional(),
       baseUrl: z.string().url().optional(),
       timeout: z.number().positive().optional(),
       screenshot: z.boolean().optional(),
-    }).optional(),
+      selfHeal: z.boolean().optional(),
+    }).merge(emulationSchema).merge(artifactOptionsSchema).optional(),
   }),
 
+  // Browser x viewport batch execution
+  executeBatch: z.object({
+    steps: z.array(testStepSchema).min(1, 'At least one step is required').optional(),
+    scenarioId: z.string().min(1).optional(),
+    scenario: z.string().optional(),
+    browsers: z.array(browserSchema).min(1, 'At least one browser is required'),
+    viewports: z.array(viewportSchema).optional(),
+    workers: z.number().int().min(1).optional(),
+    llmProvider: llmProviderSchema.optional(),
+    authProfile: authProfileNameSchema.optional(),
+    options: z.object({
+      headless: z.boolean().optional(),
+      baseUrl: z.string().url().optional(),
+      timeout: z.number().positive().optional(),
+      screenshot: z.boolean().optional(),
+      selfHeal: z.boolean().optional(),
+    }).merge(emulationSchema.omit({ viewport: true })).merge(artifactOptionsSchema).optional(),
+  }).refine(
+    (b) => (b.steps === undefined) !== (b.scenarioId === undefined),
+    { message: 'Provide exactly one of steps or scenarioId' }
+  ),
+
   // Dynamic test run
   dynamicTestRun: z.object({
     prompt: z.string().min(1, 'Test prompt is required'),
-    llmProvider: z.enum(['ollama', 'groq', 'openai', 'anthropic', 'google']).optional(),
+    llmProvider: llmProviderSchema.optional(),
     mcpClient: z.enum(['direct', 'playwright', 'appium']).optional(),
-    context: z.object({
-      pageType: z.string().optional(),
-      allowedActions: z.array(z.string()).optional(),
-      allowedElements: z.array(z.string()).optional(),
-      baseUrl: z.string().url().optional(),
-      customInstructions: z.string().optional(),
-    }).optional(),
+    context: testContextSchema.optional(),
+    steps: z.array(testStepSchema).optional(),
+    dataset: datasetSchema.optional(),
+    authProfile: authProfileNameSchema.optional(),
     executeImmediately: z.boolean().optional(),
-    executionOptions: z.object({
+    cache: llmCacheModeSchema.optional(),
+    executionOptions: executionOptionsSchema.optional(),
+  }),
+
+  // Saved scenario creation
+  createScenario: z.object({
+    name: z.string().min(1, 'Scenario name is required'),
+    description: z.string().optional(),
+    scenario: z.string().min(1, 'Scenario text is required'),
+    context: testContextSchema.optional(),
+    generatedSteps: z.array(testStepSchema).optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+
+  // Saved scenario update (all fields optional)
+  updateScenario: z.object({
+    name: z.string().min(1).optional(),
+    description: z.string().optional(),
+    scenario: z.string().min(1).optional(),
+    context: testContextSchema.optional(),
+    generatedSteps: z.array(testStepSchema).optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+
+  // Playwright spec export
+  exportPlaywright: z.object({
+    steps: z.array(testStepSchema).min(1, 'At least one step is required'),
+    testName: z.string().min(1).optional(),
+    describe: z.string().min(1).optional(),
+    baseUrl: z.string().url().optional(),
+  }),
+
+  // Run history listing (query string)
+  listRuns: z.object({
+    status: z.enum(['generated', 'passed', 'failed', 'error']).optional(),
+    provider: llmProviderSchema.optional(),
+    scenarioId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+  }),
+
+  // LLM usage report (query string)
+  llmUsage: z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    provider: llmProviderSchema.optional(),
+    feature: z.enum(['generateSteps', 'parseScenarioIntent', 'generateNextStep', 'healSelector', 'api']).optional(),
+    runId: z.string().optional(),
+    sessionId: z.string().optional(),
+  }).refine(
+    (q) => !q.from || !q.to || q.from <= q.to,
+    { message: 'from must not be after to' }
+  ),
+
+  // LLM response cache invalidation (query string)
+  llmCacheInvalidation: z.object({
+    scenario: z.string().min(1).optional(),
+  }),
+
+  // Run report (query string)
+  runReport: z.object({
+    format: reportFormatSchema.default('junit'),
+  }),
+
+  // Secret create/replace (value is never echoed back)
+  putSecret: z.object({
+    value: z.string().min(1, 'Secret value is required'),
+  }),
+
+  // Secret name in the URL
+  secretName: z.object({
+    name: z.string().regex(/^[\w-]+$/, 'Secret names may only contain letters, digits, _ and -'),
+  }),
+
+  // Auth profile name in the URL
+  authProfileName: z.object({
+    name: authProfileNameSchema,
+  }),
+
+  // Visual baseline path (variant is browser-WIDTHxHEIGHT)
+  visualBaselineParams: z.object({
+    name: z.string().regex(/^[\w-]+$/, 'Invalid baseline name'),
+    variant: z.string().regex(/^[\w-]+$/, 'Invalid variant').optional(),
+    image: z.enum(['baseline', 'actual', 'diff']).optional(),
+  }),
+
+  // Artifact download path
+  artifactParams: z.object({
+    runId: z.string().regex(/^[\w-]+$/, 'Invalid run id'),
+    fileName: z.string().regex(/^[\w-]+\.[\w.]+$/, 'Invalid file name').optional(),
+  }),
+
+  // Upload a Playwright storage state as an auth profile
+  putAuthProfile: z.object({
+    storageState: storageStateSchema,
+    description: z.string().optional(),
+  }),
+
+  // Capture an auth profile by running login steps
+  captureAuthProfile: z.object({
+    steps: z.array(testStepSchema).min(1, 'At least one step is required').optional(),
+    scenarioId: z.string().min(1).optional(),
+    description: z.string().optional(),
+    browser: browserSchema.optional(),
+    options: z.object({
       headless: z.boolean().optional(),
       timeout: z.number().positive().optional(),
       screenshot: z.boolean().optional(),
-    }).optional(),
+    }).merge(emulationSchema).optional(),
+  }).refine(
+    (c) => (c.steps === undefined) !== (c.scenarioId === undefined),
+    { message: 'Provide exactly one of steps or scenarioId' }
+  ),
+
+  // Saved scenario re-run
+  runScenario: z.object({
+    llmProvider: llmProviderSchema.optional(),
+    mcpClient: z.enum(['direct', 'playwright', 'appium']).optional(),
+    executeImmediately: z.boolean().optional(),
+    regenerate: z.boolean().optional(),
+    cache: llmCacheModeSchema.optional(),
+    executionOptions: executionOptionsSchema.optional(),
+    dataset: datasetSchema.optional(),
+    authProfile: authProfileNameSchema.optional(),
+  }),
+
+  // Steps inserted into a human-in-loop session (step:insert_before / step:insert_after)
+  insertSteps: z.array(testStepSchema).min(1, 'At least one step is required'),
+
+  // Recorded test from an approved step list
+  createRecordedTest: z.object({
+    name: z.string().min(1, 'Recording name is required'),
+    scenario: z.string().min(1, 'Scenario is required'),
+    steps: z.array(testStepSchema).min(1, 'At least one step is required'),
+    browser: browserSchema.optional(),
+  }),
+
+  // Recorded test replay (no step generation - selfHeal is the only LLM use)
+  replayRecordedTest: z.object({
+    browser: browserSchema.optional(),
+    authProfile: authProfileNameSchema.optional(),
+    selfHeal: z.boolean().optional(),
+    saveHealedSelectors: z.boolean().optional(),
+    options: executionOptionsSchema.omit({ selfHeal: true, browser: true }).optional(),
+  }),
+
+  // Recurring run schedule
+  createSchedule: z.object({
+    name: z.string().min(1, 'Schedule name is required'),
+    cron: z.string().min(1, 'Cron expression is required'),
+    target: scheduleTargetSchema,
+    llmProvider: llmProviderSchema.optional(),
+    mcpClient: z.enum(['direct', 'playwright', 'appium']).optional(),
+    executionOptions: executionOptionsSchema.optional(),
+    dataset: datasetSchema.optional(),
+    enabled: z.boolean().optional(),
   }),
 };
 
@@ -109,6 +398,8 @@ export function validate(schema: ZodSchema, type: ValidationType = 'body') {
       // Replace with validated data
       if (type === 'body') {
         req.body = validated;
+      } else if (type === 'query') {
+        req.query = validated;
       }
       
       next();
@@ -137,5 +428,24 @@ export const validators = {
   chat: validate(schemas.chat),
   generateTestSteps: validate(schemas.generateTestSteps),
   executeTestSteps: validate(schemas.executeTestSteps),
+  executeBatch: validate(schemas.executeBatch),
   dynamicTestRun: validate(schemas.dynamicTestRun),
+  createScenario: validate(schemas.createScenario),
+  updateScenario: validate(schemas.updateScenario),
+  runScenario: validate(schemas.runScenario),
+  listRuns: validate(schemas.listRuns, 'query'),
+  runReport: validate(schemas.runReport, 'query'),
+  llmUsage: validate(schemas.llmUsage, 'query'),
+  llmCacheInvalidation: validate(schemas.llmCacheInvalidation, 'query'),
+  exportPlaywright: validate(schemas.exportPlaywright),
+  putSecret: validate(schemas.putSecret),
+  secretName: validate(schemas.secretName, 'params'),
+  authProfileName: validate(schemas.authProfileName, 'params'),
+  artifactParams: validate(schemas.artifactParams, 'params'),
+  visualBaselineParams: validate(schemas.visualBaselineParams, 'params'),
+  putAuthProfile: validate(schemas.putAuthProfile),
+  captureAuthProfile: validate(schemas.captureAuthProfile),
+  createSchedule: validate(schemas.createSchedule),
+  createRecordedTest: validate(schemas.createRecordedTest),
+  replayRecordedTest: validate(schemas.replayRecordedTest),
 };
@@ -0,0 +1,65 @@
+/**
+ * Artifact Routes
+ * Trace, video, HAR and console files recorded by direct executions
+ * (run ids are execution ids, see TestExecutionResult.artifacts)
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, NotFoundError } from '../middleware/index.js';
+import { artifactStore } from '../../services/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/artifacts/:runId
+ * List the files recorded for an execution
+ */
+router.get(
+  '/:runId',
+  validators.artifactParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const artifacts = await artifactStore.list(req.params.runId);
+    if (!artifacts) {
+      throw new NotFoundError(`Artifacts for run ${req.params.runId}`);
+    }
+    res.json(artifacts);
+  })
+);
+
+/**
+ * GET /api/artifacts/:runId/:fileName
+ * Download one file (open trace.zip with `npx playwright show-trace <url>`)
+ */
+router.get(
+  '/:runId/:fileName',
+  validators.artifactParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { runId, fileName } = req.params;
+    const file = await artifactStore.resolve(runId, fileName);
+    if (!file) {
+      throw new NotFoundError(`Artifact ${fileName} of run ${runId}`);
+    }
+
+    res.type(file.artifact.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${runId}-${fileName}"`);
+    res.sendFile(file.path);
+  })
+);
+
+/**
+ * DELETE /api/artifacts/:runId
+ * Remove every file of an execution
+ */
+router.delete(
+  '/:runId',
+  validators.artifactParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await artifactStore.delete(req.params.runId);
+    if (!deleted) {
+      throw new NotFoundError(`Artifacts for run ${req.params.runId}`);
+    }
+    res.status(204).send();
+  })
+);
+
+export { router as artifactRoutes };
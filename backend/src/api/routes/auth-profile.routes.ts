@@ -0,0 +1,119 @@
+/**
+ * Auth Profile Routes
+ * Named login states (Playwright storageState) that runs can start from
+ * Cookie and localStorage values are write-only: responses only carry metadata
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, NotFoundError, ValidationError } from '../middleware/index.js';
+import { llmManager } from '../../llm/index.js';
+import { scenarioRepository } from '../../storage/index.js';
+import {
+  authProfiles,
+  createStepExecutorService,
+  createTestGeneratorService,
+} from '../../services/index.js';
+import { CaptureAuthProfileRequest, StorageState } from '../../types/index.js';
+
+const router = Router();
+
+const testGenerator = createTestGeneratorService(llmManager);
+
+/**
+ * GET /api/auth-profiles
+ * List profiles with the domains they cover and when their cookies expire
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const profiles = await authProfiles.list();
+  res.json({ profiles, count: profiles.length });
+}));
+
+/**
+ * GET /api/auth-profiles/:name
+ * Profile metadata
+ */
+router.get(
+  '/:name',
+  validators.authProfileName,
+  asyncHandler(async (req: Request, res: Response) => {
+    const profile = await authProfiles.get(req.params.name);
+    if (!profile) {
+      throw new NotFoundError(`Auth profile ${req.params.name}`);
+    }
+    res.json(profile);
+  })
+);
+
+/**
+ * PUT /api/auth-profiles/:name
+ * Create or replace a profile from an uploaded storage state
+ * (e.g. `await context.storageState({ path: 'state.json' })` in a Playwright setup project)
+ */
+router.put(
+  '/:name',
+  validators.authProfileName,
+  validators.putAuthProfile,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { storageState, description } = req.body as { storageState: StorageState; description?: string };
+    const profile = await authProfiles.save(req.params.name, storageState, {
+      source: 'upload',
+      description,
+    });
+    res.json(profile);
+  })
+);
+
+/**
+ * POST /api/auth-profiles/:name/capture
+ * Run login steps (or a saved scenario's stored steps) and store the resulting state
+ */
+router.post(
+  '/:name/capture',
+  validators.authProfileName,
+  validators.captureAuthProfile,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params;
+    const request = req.body as CaptureAuthProfileRequest;
+    let steps = request.steps || [];
+
+    if (request.scenarioId) {
+      const scenario = await scenarioRepository.findById(request.scenarioId);
+      if (!scenario) {
+        throw new NotFoundError(`Scenario ${request.scenarioId}`);
+      }
+      if (!scenario.generatedSteps?.length) {
+        throw new ValidationError(`Scenario ${request.scenarioId} has no stored steps - run it once first`);
+      }
+      steps = scenario.generatedSteps;
+    }
+
+    console.log(`[AuthProfileRoutes] Capturing profile ${name} from ${steps.length} login steps`);
+
+    let profile;
+    try {
+      profile = await authProfiles.capture(name, createStepExecutorService(testGenerator), steps, request);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : 'Capture failed');
+    }
+
+    res.status(201).json(profile);
+  })
+);
+
+/**
+ * DELETE /api/auth-profiles/:name
+ * Remove a profile
+ */
+router.delete(
+  '/:name',
+  validators.authProfileName,
+  asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await authProfiles.delete(req.params.name);
+    if (!deleted) {
+      throw new NotFoundError(`Auth profile ${req.params.name}`);
+    }
+    res.status(204).send();
+  })
+);
+
+export { router as authProfileRoutes };
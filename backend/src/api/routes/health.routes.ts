@@ -5,7 +5,7 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/index.js';
-import { llmManager } from '../../llm/index.js';
+import { llmManager, llmResponseCache } from '../../llm/index.js';
 
 const router = Router();
 
@@ -32,6 +32,7 @@ router.get('/api/status', asyncHandler(async (_req: Request, res: Response) => {
     status: 'ok',
     activeProvider: summary.activeProvider,
     providers: providerStatuses,
+    llmCache: llmResponseCache.getStats(),
     timestamp: new Date().toISOString(),
   });
 }));
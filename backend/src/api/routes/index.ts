@@ -5,3 +5,11 @@
 export { healthRoutes } from './health.routes.js';
 export { llmRoutes } from './llm.routes.js';
 export { testRoutes } from './test.routes.js';
+export { scenarioRoutes } from './scenario.routes.js';
+export { runRoutes } from './run.routes.js';
+export { secretRoutes } from './secret.routes.js';
+export { scheduleRoutes } from './schedule.routes.js';
+export { authProfileRoutes } from './auth-profile.routes.js';
+export { artifactRoutes } from './artifact.routes.js';
+export { visualRoutes } from './visual.routes.js';
+export { recordedTestRoutes } from './recorded-test.routes.js';
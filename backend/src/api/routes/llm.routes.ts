@@ -5,8 +5,8 @@
 
 import { Router, Request, Response } from 'express';
 import { asyncHandler, validators, LLMError } from '../middleware/index.js';
-import { llmManager } from '../../llm/index.js';
-import { LLMProviderType, ChatMessage, LLMRequestOptions } from '../../types/index.js';
+import { llmManager, llmUsageLedger, llmResponseCache } from '../../llm/index.js';
+import { LLMProviderType, ChatMessage, LLMRequestOptions, LLMUsageQuery } from '../../types/index.js';
 
 const router = Router();
 
@@ -74,7 +74,7 @@ router.post(
     };
 
     try {
-      const response = await llmManager.generate(prompt, systemPrompt, options);
+      const response = await llmManager.generate(prompt, systemPrompt, { ...options, usage: { feature: 'api' } });
       res.json(response);
     } catch (error) {
       throw new LLMError(
@@ -99,7 +99,7 @@ router.post(
     };
 
     try {
-      const response = await llmManager.chat(messages, options);
+      const response = await llmManager.chat(messages, { ...options, usage: { feature: 'api' } });
       res.json(response);
     } catch (error) {
       throw new LLMError(
@@ -110,4 +110,51 @@ router.post(
   })
 );
 
+// ============================================
+// Usage & Cost
+// ============================================
+
+/**
+ * GET /api/llm/usage
+ * Tokens and estimated cost by day, provider and feature, with monthly budget status
+ * Query: from, to (default: current month), provider, feature, runId, sessionId
+ */
+router.get(
+  '/usage',
+  validators.llmUsage,
+  asyncHandler(async (req: Request, res: Response) => {
+    const report = await llmUsageLedger.report(req.query as unknown as LLMUsageQuery);
+    res.json(report);
+  })
+);
+
+// ============================================
+// Response Cache
+// ============================================
+
+/**
+ * GET /api/llm/cache
+ * Response cache hit/miss statistics
+ */
+router.get('/cache', (_req: Request, res: Response) => {
+  res.json(llmResponseCache.getStats());
+});
+
+/**
+ * DELETE /api/llm/cache
+ * Drop cached answers - all of them, or one scenario's with ?scenario=<scenario text>
+ */
+router.delete(
+  '/cache',
+  validators.llmCacheInvalidation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { scenario } = req.query as { scenario?: string };
+    const removed = scenario
+      ? await llmResponseCache.invalidateScope(scenario)
+      : await llmResponseCache.clear();
+
+    res.json({ removed, scenario });
+  })
+);
+
 export { router as llmRoutes };
@@ -0,0 +1,81 @@
+/**
+ * Recorded Test Routes
+ * Frozen human-in-loop sessions and their replay without the LLM
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, requireKnownAuthProfile, NotFoundError } from '../middleware/index.js';
+import { recordedTests } from '../../services/index.js';
+import { CreateRecordedTestInput, RecordedTestReplayOptions } from '../../types/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/recorded-tests
+ * List recorded tests
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const recordings = await recordedTests.list();
+  res.json({ recordings, count: recordings.length });
+}));
+
+/**
+ * POST /api/recorded-tests
+ * Record a test from an approved step list (sessions are recorded over WebSocket: session:record)
+ */
+router.post(
+  '/',
+  validators.createRecordedTest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const recording = await recordedTests.create(req.body as CreateRecordedTestInput);
+    res.status(201).json(recording);
+  })
+);
+
+/**
+ * GET /api/recorded-tests/:id
+ * Get a recorded test with its steps
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const recording = await recordedTests.get(req.params.id);
+  if (!recording) {
+    throw new NotFoundError(`Recorded test ${req.params.id}`);
+  }
+  res.json(recording);
+}));
+
+/**
+ * DELETE /api/recorded-tests/:id
+ * Delete a recorded test
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const deleted = await recordedTests.delete(req.params.id);
+  if (!deleted) {
+    throw new NotFoundError(`Recorded test ${req.params.id}`);
+  }
+  res.status(204).end();
+}));
+
+/**
+ * POST /api/recorded-tests/:id/replay
+ * Re-execute the recorded steps - the LLM is only used to heal a missing selector
+ */
+router.post(
+  '/:id/replay',
+  validators.replayRecordedTest,
+  requireKnownAuthProfile,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    console.log(`[RecordedTestRoutes] Replaying ${id}`);
+
+    const result = await recordedTests.replay(id, req.body as RecordedTestReplayOptions);
+    if (!result) {
+      throw new NotFoundError(`Recorded test ${id}`);
+    }
+
+    res.json(result);
+  })
+);
+
+export { router as recordedTestRoutes };
@@ -0,0 +1,67 @@
+/**
+ * Run History Routes
+ * Past test runs and their details
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, NotFoundError } from '../middleware/index.js';
+import { runHistoryRepository } from '../../storage/index.js';
+import { createRunHistoryService, createReportService } from '../../services/index.js';
+import { RunHistoryQuery, ReportFormat } from '../../types/index.js';
+
+const router = Router();
+
+// Create services with DI
+const runHistory = createRunHistoryService(runHistoryRepository);
+const reports = createReportService();
+
+/**
+ * GET /api/test/runs
+ * List past runs (newest first)
+ * Query: status, provider, scenarioId, from, to (ISO dates), page, limit
+ */
+router.get(
+  '/',
+  validators.listRuns,
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as RunHistoryQuery;
+    const result = await runHistory.listRuns(query);
+    res.json(result);
+  })
+);
+
+/**
+ * GET /api/test/runs/:id
+ * Full run detail including per-step results and screenshots
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const run = await runHistory.getRun(req.params.id);
+  if (!run) {
+    throw new NotFoundError(`Run ${req.params.id}`);
+  }
+  res.json(run);
+}));
+
+/**
+ * GET /api/test/runs/:id/report
+ * Render a run as a report file
+ * Query: format = junit (default) | html | markdown
+ */
+router.get(
+  '/:id/report',
+  validators.runReport,
+  asyncHandler(async (req: Request, res: Response) => {
+    const run = await runHistory.getRun(req.params.id);
+    if (!run) {
+      throw new NotFoundError(`Run ${req.params.id}`);
+    }
+
+    const { format } = req.query as unknown as { format: ReportFormat };
+    const report = reports.render(run, format);
+
+    res.setHeader('Content-Disposition', `inline; filename="${report.fileName}"`);
+    res.type(report.contentType).send(report.content);
+  })
+);
+
+export { router as runRoutes };
@@ -0,0 +1,161 @@
+/**
+ * Scenario Routes
+ * Saved scenario library endpoints
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, requireKnownAuthProfile, NotFoundError, LLMError, AppError } from '../middleware/index.js';
+import { llmManager, llmResponseCache } from '../../llm/index.js';
+import { mcpManager } from '../../mcp/index.js';
+import { scenarioRepository, runHistoryRepository } from '../../storage/index.js';
+import {
+  createScenarioService,
+  createTestOrchestratorService,
+  createRunHistoryService,
+} from '../../services/index.js';
+import {
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  ScenarioRunOptions,
+} from '../../types/index.js';
+
+const router = Router();
+
+// Create services with DI
+const scenarioService = createScenarioService(
+  scenarioRepository,
+  createTestOrchestratorService(llmManager, mcpManager)
+);
+const runHistory = createRunHistoryService(runHistoryRepository);
+
+/**
+ * GET /api/test/scenarios
+ * List saved scenarios
+ * Query: ?tags=login,smoke (must carry all tags) & ?search=checkout
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const tags = typeof req.query.tags === 'string'
+    ? req.query.tags.split(',').map((t) => t.trim()).filter(Boolean)
+    : undefined;
+  const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+
+  const scenarios = await scenarioService.list({ tags, search });
+  res.json({ scenarios, count: scenarios.length });
+}));
+
+/**
+ * GET /api/test/scenarios/tags
+ * List all tags in use
+ */
+router.get('/tags', asyncHandler(async (_req: Request, res: Response) => {
+  const tags = await scenarioService.listTags();
+  res.json({ tags });
+}));
+
+/**
+ * POST /api/test/scenarios
+ * Save a new scenario
+ */
+router.post(
+  '/',
+  validators.createScenario,
+  asyncHandler(async (req: Request, res: Response) => {
+    const scenario = await scenarioService.create(req.body as CreateScenarioInput);
+    res.status(201).json(scenario);
+  })
+);
+
+/**
+ * GET /api/test/scenarios/:id
+ * Get a saved scenario
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const scenario = await scenarioService.get(req.params.id);
+  if (!scenario) {
+    throw new NotFoundError(`Scenario ${req.params.id}`);
+  }
+  res.json(scenario);
+}));
+
+/**
+ * PUT /api/test/scenarios/:id
+ * Update a saved scenario (partial)
+ */
+router.put(
+  '/:id',
+  validators.updateScenario,
+  asyncHandler(async (req: Request, res: Response) => {
+    const scenario = await scenarioService.update(req.params.id, req.body as UpdateScenarioInput);
+    if (!scenario) {
+      throw new NotFoundError(`Scenario ${req.params.id}`);
+    }
+    res.json(scenario);
+  })
+);
+
+/**
+ * DELETE /api/test/scenarios/:id
+ * Delete a saved scenario
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const deleted = await scenarioService.delete(req.params.id);
+  if (!deleted) {
+    throw new NotFoundError(`Scenario ${req.params.id}`);
+  }
+  res.status(204).end();
+}));
+
+/**
+ * DELETE /api/test/scenarios/:id/llm-cache
+ * Drop cached LLM answers for the scenario so the next run asks the LLM again
+ */
+router.delete('/:id/llm-cache', asyncHandler(async (req: Request, res: Response) => {
+  const scenario = await scenarioService.get(req.params.id);
+  if (!scenario) {
+    throw new NotFoundError(`Scenario ${req.params.id}`);
+  }
+
+  const removed = await llmResponseCache.invalidateScope(scenario.scenario);
+  res.json({ scenarioId: scenario.id, removed });
+}));
+
+/**
+ * POST /api/test/scenarios/:id/run
+ * Re-run a saved scenario with its stored context and steps
+ */
+router.post(
+  '/:id/run',
+  validators.runScenario,
+  requireKnownAuthProfile,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const options = req.body as ScenarioRunOptions;
+
+    console.log(`[ScenarioRoutes] Running scenario ${id}`);
+
+    let result;
+    try {
+      result = await scenarioService.run(id, options);
+    } catch (error) {
+      // Keep API errors (not found, validation, ...) as they are
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new LLMError(
+        error instanceof Error ? error.message : 'Scenario run failed',
+        llmManager.getActiveProviderType() || undefined
+      );
+    }
+
+    if (!result) {
+      throw new NotFoundError(`Scenario ${id}`);
+    }
+
+    await runHistory.recordDynamicRun(result, { source: 'scenario', scenarioId: id });
+
+    console.log(`[ScenarioRoutes] Scenario run ${result.id} completed - Status: ${result.status}`);
+    res.json(result);
+  })
+);
+
+export { router as scenarioRoutes };
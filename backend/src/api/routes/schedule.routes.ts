@@ -0,0 +1,100 @@
+/**
+ * Schedule Routes
+ * Recurring runs of saved scenarios or fixed step lists
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, NotFoundError, ValidationError } from '../middleware/index.js';
+import { scheduler } from '../../services/index.js';
+import { CreateScheduleInput } from '../../types/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/schedules
+ * List schedules with their next run time and last result
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const schedules = await scheduler.list();
+  res.json({ schedules, count: schedules.length });
+}));
+
+/**
+ * POST /api/schedules
+ * Create a schedule (enabled unless `enabled: false`)
+ */
+router.post(
+  '/',
+  validators.createSchedule,
+  asyncHandler(async (req: Request, res: Response) => {
+    let schedule;
+    try {
+      schedule = await scheduler.create(req.body as CreateScheduleInput);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : 'Invalid schedule');
+    }
+    res.status(201).json(schedule);
+  })
+);
+
+/**
+ * GET /api/schedules/:id
+ * Get a schedule
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduler.get(req.params.id);
+  if (!schedule) {
+    throw new NotFoundError(`Schedule ${req.params.id}`);
+  }
+  res.json(schedule);
+}));
+
+/**
+ * POST /api/schedules/:id/pause
+ * Stop future runs until resumed
+ */
+router.post('/:id/pause', asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduler.pause(req.params.id);
+  if (!schedule) {
+    throw new NotFoundError(`Schedule ${req.params.id}`);
+  }
+  res.json(schedule);
+}));
+
+/**
+ * POST /api/schedules/:id/resume
+ * Re-enable a paused schedule (next run is computed from now)
+ */
+router.post('/:id/resume', asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduler.resume(req.params.id);
+  if (!schedule) {
+    throw new NotFoundError(`Schedule ${req.params.id}`);
+  }
+  res.json(schedule);
+}));
+
+/**
+ * POST /api/schedules/:id/run
+ * Queue a run now; the result shows up as lastRun and in run history
+ */
+router.post('/:id/run', asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduler.trigger(req.params.id);
+  if (!schedule) {
+    throw new NotFoundError(`Schedule ${req.params.id}`);
+  }
+  res.status(202).json(schedule);
+}));
+
+/**
+ * DELETE /api/schedules/:id
+ * Delete a schedule (a run in progress still finishes)
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const deleted = await scheduler.delete(req.params.id);
+  if (!deleted) {
+    throw new NotFoundError(`Schedule ${req.params.id}`);
+  }
+  res.status(204).end();
+}));
+
+export { router as scheduleRoutes };
@@ -0,0 +1,65 @@
+/**
+ * Secret Routes
+ * Named secrets referenced from steps as {{secret:name}}
+ * Values are write-only: no endpoint ever returns them
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { asyncHandler, validators, NotFoundError, AppError } from '../middleware/index.js';
+import { secretVault } from '../../services/index.js';
+
+const router = Router();
+
+/**
+ * Reject writes while SECRETS_MASTER_KEY is unset
+ */
+function requireVault(_req: Request, _res: Response, next: NextFunction): void {
+  if (!secretVault.isConfigured()) {
+    next(new AppError(503, 'Secrets vault is not configured (set SECRETS_MASTER_KEY)', 'SECRETS_DISABLED'));
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/secrets
+ * List secret names (never values)
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const secrets = await secretVault.list();
+  res.json({ configured: secretVault.isConfigured(), secrets });
+}));
+
+/**
+ * PUT /api/secrets/:name
+ * Create or replace a secret
+ */
+router.put(
+  '/:name',
+  requireVault,
+  validators.secretName,
+  validators.putSecret,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { value } = req.body as { value: string };
+    const secret = await secretVault.set(req.params.name, value);
+    res.json(secret);
+  })
+);
+
+/**
+ * DELETE /api/secrets/:name
+ * Remove a secret
+ */
+router.delete(
+  '/:name',
+  validators.secretName,
+  asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await secretVault.delete(req.params.name);
+    if (!deleted) {
+      throw new NotFoundError(`Secret ${req.params.name}`);
+    }
+    res.status(204).send();
+  })
+);
+
+export { router as secretRoutes };
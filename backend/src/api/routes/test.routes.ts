@@ -4,27 +4,57 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { asyncHandler, validators, LLMError } from '../middleware/index.js';
+import {
+  asyncHandler,
+  validators,
+  requireKnownAuthProfile,
+  LLMError,
+  ValidationError,
+  NotFoundError,
+  AppError,
+} from '../middleware/index.js';
 import { llmManager } from '../../llm/index.js';
 import { mcpManager } from '../../mcp/index.js';
+import { runHistoryRepository, scenarioRepository } from '../../storage/index.js';
+import { config } from '../../config/index.js';
 import { 
   createTestGeneratorService, 
   createStepExecutorService,
-  createTestOrchestratorService
+  createTestOrchestratorService,
+  createRunHistoryService,
+  createPlaywrightExportService,
+  createDataDrivenService,
+  createReportService,
+  createScenarioService,
+  createBatchExecutionService
 } from '../../services/index.js';
 import { 
   TestGenerationRequest, 
   TestExecutionRequest,
   DynamicTestRunRequest,
-  MCPClientType
+  PlaywrightExportRequest,
+  MCPClientType,
+  TestStep,
+  TestRunRecord,
+  ReportFormat,
+  BatchExecutionRequest
 } from '../../types/index.js';
 
 const router = Router();
 
 // Create services with DI
 const testGenerator = createTestGeneratorService(llmManager);
-const stepExecutor = createStepExecutorService();
+const stepExecutor = createStepExecutorService(testGenerator);
 const testOrchestrator = createTestOrchestratorService(llmManager, mcpManager);
+const runHistory = createRunHistoryService(runHistoryRepository);
+const playwrightExporter = createPlaywrightExportService();
+const dataDriven = createDataDrivenService();
+const reports = createReportService();
+const scenarioService = createScenarioService(scenarioRepository, testOrchestrator);
+const batchExecution = createBatchExecutionService(
+  () => createStepExecutorService(testGenerator),
+  { maxWorkers: config.batch.maxWorkers }
+);
 
 /**
  * POST /api/test/run
@@ -36,20 +66,31 @@ const testOrchestrator = createTestOrchestratorService(llmManager, mcpManager);
 router.post(
   '/run',
   validators.dynamicTestRun,
+  requireKnownAuthProfile,
   asyncHandler(async (req: Request, res: Response) => {
     const request = req.body as DynamicTestRunRequest;
 
+    if (request.dataset) {
+      // Malformed data is a 400 up front; generated steps are checked against the columns again after generation
+      dataDriven.prepareRows(request.steps || [], request.dataset);
+    }
+
     console.log('[TestRoutes] Dynamic test run:', 
       request.prompt.substring(0, 100) + '...'
     );
 
     try {
       const result = await testOrchestrator.runDynamicTest(request);
+      await runHistory.recordDynamicRun(result);
       
       console.log(`[TestRoutes] Test run ${result.id} completed - Status: ${result.status}`);
       
       res.json(result);
     } catch (error) {
+      // Keep API errors (e.g. dataset validation) as they are
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new LLMError(
         error instanceof Error ? error.message : 'Dynamic test run failed',
         llmManager.getActiveProviderType() || undefined
@@ -87,24 +128,74 @@ router.post(
   })
 );
 
+/**
+ * Send a run as a rendered report file instead of JSON
+ */
+function sendReport(res: Response, run: TestRunRecord, format: ReportFormat): void {
+  const report = reports.render(run, format);
+  res.setHeader('Content-Disposition', `inline; filename="${report.fileName}"`);
+  res.type(report.contentType).send(report.content);
+}
+
 /**
  * POST /api/test/execute-steps
  * Execute test steps with Playwright
+ * - `report: junit | html | markdown` responds with that report instead of JSON
  */
 router.post(
   '/execute-steps',
   validators.executeTestSteps,
+  requireKnownAuthProfile,
   asyncHandler(async (req: Request, res: Response) => {
     const request = req.body as TestExecutionRequest;
 
+    if (request.dataset) {
+      const rows = dataDriven.prepareRows(request.steps, request.dataset);
+
+      console.log('[TestRoutes] Executing', request.steps.length, 'steps for', rows.length, 'dataset rows');
+
+      try {
+        const result = await dataDriven.run(
+          request.steps,
+          rows,
+          (steps, _row, rowIndex) =>
+            stepExecutor.execute({
+              ...request,
+              steps,
+              scenario: request.scenario && `${request.scenario} [row ${rowIndex + 1}]`,
+            }),
+          { scenario: request.scenario, datasetName: request.dataset.name }
+        );
+        const record = await runHistory.recordDataDrivenExecution(result, request.steps);
+
+        console.log(`[TestRoutes] Data-driven execution ${result.status} in ${result.totalDuration}ms`);
+
+        if (request.report) {
+          sendReport(res, record, request.report);
+        } else {
+          res.json(result);
+        }
+        return;
+      } catch (error) {
+        throw new LLMError(
+          error instanceof Error ? error.message : 'Test execution failed'
+        );
+      }
+    }
+
     console.log('[TestRoutes] Executing', request.steps.length, 'steps');
 
     try {
       const result = await stepExecutor.execute(request);
+      const record = await runHistory.recordExecution(result, request.steps);
       
       console.log(`[TestRoutes] Execution ${result.status} in ${result.totalDuration}ms`);
       
-      res.json(result);
+      if (request.report) {
+        sendReport(res, record, request.report);
+      } else {
+        res.json(result);
+      }
     } catch (error) {
       throw new LLMError(
         error instanceof Error ? error.message : 'Test execution failed'
@@ -113,6 +204,67 @@ router.post(
   })
 );
 
+/**
+ * Steps for a batch: the request's own, or a saved scenario's stored steps
+ * (generated once and stored back when the scenario has none yet)
+ */
+async function resolveBatchSteps(request: BatchExecutionRequest): Promise<TestStep[]> {
+  if (!request.scenarioId) {
+    return request.steps || [];
+  }
+
+  const scenario = await scenarioService.get(request.scenarioId);
+  if (!scenario) {
+    throw new NotFoundError(`Scenario ${request.scenarioId}`);
+  }
+  request.scenario = request.scenario || scenario.name;
+
+  if (scenario.generatedSteps?.length) {
+    return scenario.generatedSteps;
+  }
+
+  try {
+    const generated = await scenarioService.run(request.scenarioId, {
+      llmProvider: request.llmProvider,
+      executeImmediately: false,
+    });
+    return generated?.generatedSteps || [];
+  } catch (error) {
+    throw new LLMError(
+      error instanceof Error ? error.message : 'Step generation failed',
+      llmManager.getActiveProviderType() || undefined
+    );
+  }
+}
+
+/**
+ * POST /api/test/execute-batch
+ * Run the same steps on every browser x viewport combination in parallel
+ * - `workers` sets how many browsers run at once (capped by BATCH_MAX_WORKERS)
+ */
+router.post(
+  '/execute-batch',
+  validators.executeBatch,
+  requireKnownAuthProfile,
+  asyncHandler(async (req: Request, res: Response) => {
+    const request = req.body as BatchExecutionRequest;
+    const steps = await resolveBatchSteps(request);
+
+    if (steps.length === 0) {
+      throw new ValidationError(`Scenario ${request.scenarioId} has no steps to run`);
+    }
+
+    console.log('[TestRoutes] Batch executing', steps.length, 'steps on', request.browsers.join(', '));
+
+    const result = await batchExecution.run(request, steps);
+    await runHistory.recordBatchExecution(result);
+
+    console.log(`[TestRoutes] Batch ${result.id} ${result.status} in ${result.totalDuration}ms`);
+
+    res.json(result);
+  })
+);
+
 /**
  * POST /api/test/validate-steps
  * Validate test steps format
@@ -140,6 +292,30 @@ router.post('/validate-steps', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
+/**
+ * POST /api/test/export/playwright
+ * Export test steps as a runnable @playwright/test spec file
+ * Query: ?download=true to receive the file as an attachment
+ */
+router.post(
+  '/export/playwright',
+  validators.exportPlaywright,
+  (req: Request, res: Response) => {
+    const request = req.body as PlaywrightExportRequest;
+    const result = playwrightExporter.generateSpec(request);
+
+    console.log(`[TestRoutes] Exported ${result.stepCount} steps to ${result.fileName}`);
+
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+      res.type('text/plain').send(result.content);
+      return;
+    }
+
+    res.json(result);
+  }
+);
+
 /**
  * GET /api/test/mcp/clients
  * List available MCP clients
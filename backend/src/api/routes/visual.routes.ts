@@ -0,0 +1,92 @@
+/**
+ * Visual Routes
+ * Screenshot baselines of expectScreenshot steps - review diffs and accept new baselines
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, validators, NotFoundError } from '../middleware/index.js';
+import { visualBaselines } from '../../services/index.js';
+import { VisualImageKind } from '../../types/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/visual/baselines
+ * List baselines; `pending` ones have a mismatching screenshot waiting for review
+ */
+router.get('/baselines', asyncHandler(async (req: Request, res: Response) => {
+  const baselines = await visualBaselines.list();
+  const filtered = req.query.pending === 'true' ? baselines.filter((b) => b.pending) : baselines;
+  res.json({ baselines: filtered, count: filtered.length });
+}));
+
+/**
+ * GET /api/visual/baselines/:name/:variant
+ * Baseline metadata and last comparison
+ */
+router.get(
+  '/baselines/:name/:variant',
+  validators.visualBaselineParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, variant } = req.params;
+    const baseline = await visualBaselines.get(name, variant);
+    if (!baseline) {
+      throw new NotFoundError(`Baseline ${name} (${variant})`);
+    }
+    res.json(baseline);
+  })
+);
+
+/**
+ * GET /api/visual/baselines/:name/:variant/:image
+ * PNG of the baseline, the last mismatching screenshot (actual) or their diff
+ */
+router.get(
+  '/baselines/:name/:variant/:image',
+  validators.visualBaselineParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, variant } = req.params;
+    const image = req.params.image as VisualImageKind;
+    const png = await visualBaselines.readImage(name, variant, image);
+    if (!png) {
+      throw new NotFoundError(`${image} image of ${name} (${variant})`);
+    }
+    res.type('image/png').send(png);
+  })
+);
+
+/**
+ * POST /api/visual/baselines/:name/:variant/accept
+ * Make the last mismatching screenshot the new baseline
+ */
+router.post(
+  '/baselines/:name/:variant/accept',
+  validators.visualBaselineParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, variant } = req.params;
+    const baseline = await visualBaselines.accept(name, variant);
+    if (!baseline) {
+      throw new NotFoundError(`Pending screenshot for ${name} (${variant})`);
+    }
+    res.json(baseline);
+  })
+);
+
+/**
+ * DELETE /api/visual/baselines/:name[/:variant]
+ * Delete one variant, or all variants of a name (the next run stores a fresh baseline)
+ */
+router.delete(
+  '/baselines/:name/:variant?',
+  validators.visualBaselineParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, variant } = req.params;
+    const deleted = await visualBaselines.delete(name, variant);
+    if (!deleted) {
+      throw new NotFoundError(`Baseline ${name}${variant ? ` (${variant})` : ''}`);
+    }
+    res.status(204).send();
+  })
+);
+
+export { router as visualRoutes };
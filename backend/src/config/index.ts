@@ -4,6 +4,7 @@
  */
 
 import { config as dotenvConfig } from 'dotenv';
+import type { LLMProviderType, LLMModelPrice, LLMBudgetScope } from '../types/index.js';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -24,13 +25,65 @@ export interface AppConfig {
       defaultModel: string;
       timeout: number;
     };
-    defaultProvider: 'ollama' | 'groq';
+    openai: {
+      apiKey: string | undefined;
+      baseUrl: string;
+      defaultModel: string;
+      timeout: number;
+    };
+    anthropic: {
+      apiKey: string | undefined;
+      baseUrl: string;
+      apiVersion: string;
+      defaultModel: string;
+      timeout: number;
+    };
+    google: {
+      apiKey: string | undefined;
+      baseUrl: string;
+      defaultModel: string;
+      timeout: number;
+    };
+    defaultProvider: LLMProviderType;
+    failover: {
+      fallbackOrder: LLMProviderType[];
+      failureThreshold: number;
+      resetTimeoutMs: number;
+    };
+    structuredOutput: {
+      nativeJsonMode: boolean; // Ask providers for JSON mode / tool calling (off = prompt-only JSON)
+      maxRepairs: number; // Correction rounds when a response fails schema validation
+    };
+    usage: {
+      pricing: Record<string, LLMModelPrice> | null; // "provider:model" overrides (null = invalid LLM_PRICING)
+      monthlyBudgets: Partial<Record<LLMBudgetScope, number>>; // USD per calendar month (UTC)
+    };
+    cache: {
+      enabled: boolean; // Answer repeated calls from the response cache
+      persist: boolean; // Also keep entries on disk (survive restarts)
+      maxMemoryEntries: number; // In-memory LRU size
+      ttlMs: number; // Entry lifetime (0 = never expires)
+    };
   };
   testing: {
     enableIterativeGeneration: boolean;
     snapshotApprovalRequired: boolean;
     snapshotAfterActions: string[];
   };
+  storage: {
+    dataDir: string;
+    maxRuns: number; // Run history retention - oldest runs beyond this are deleted (0 = keep all)
+  };
+  secrets: {
+    masterKey: string | undefined; // Vault is disabled when unset
+  };
+  scheduler: {
+    enabled: boolean;
+    maxConcurrentRuns: number;
+  };
+  batch: {
+    maxWorkers: number; // Upper bound for concurrent browsers per batch run
+  };
 }
 
 function loadConfig(): AppConfig {
@@ -50,16 +103,97 @@ function loadConfig(): AppConfig {
         defaultModel: process.env.GROQ_MODEL || 'llama-3.3-70b-versatile',
         timeout: parseInt(process.env.GROQ_TIMEOUT || '30000', 10),
       },
-      defaultProvider: (process.env.DEFAULT_LLM_PROVIDER as 'ollama' | 'groq') || 'ollama',
+      openai: {
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        timeout: parseInt(process.env.OPENAI_TIMEOUT || '60000', 10),
+      },
+      anthropic: {
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1',
+        apiVersion: process.env.ANTHROPIC_API_VERSION || '2023-06-01',
+        defaultModel: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+        timeout: parseInt(process.env.ANTHROPIC_TIMEOUT || '60000', 10),
+      },
+      google: {
+        apiKey: process.env.GOOGLE_API_KEY,
+        baseUrl: process.env.GOOGLE_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta',
+        defaultModel: process.env.GOOGLE_MODEL || 'gemini-1.5-flash',
+        timeout: parseInt(process.env.GOOGLE_TIMEOUT || '60000', 10),
+      },
+      defaultProvider: (process.env.DEFAULT_LLM_PROVIDER as LLMProviderType) || 'ollama',
+      failover: {
+        // e.g. "ollama,groq,openai" - tried in order after the active provider fails
+        fallbackOrder: (process.env.LLM_FALLBACK_ORDER || '')
+          .split(',')
+          .map((p) => p.trim())
+          .filter(Boolean) as LLMProviderType[],
+        failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3', 10),
+        resetTimeoutMs: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '60000', 10),
+      },
+      structuredOutput: {
+        nativeJsonMode: process.env.LLM_JSON_MODE !== 'false',
+        maxRepairs: parseInt(process.env.LLM_MAX_REPAIRS || '2', 10),
+      },
+      usage: {
+        // e.g. {"groq:llama-3.3-70b-versatile":{"input":0.59,"output":0.79}} - USD per 1M tokens
+        pricing: parsePricing(process.env.LLM_PRICING),
+        // e.g. "total:100,groq:50" - calls are rejected once the month's spend reaches the limit
+        monthlyBudgets: parseBudgets(process.env.LLM_MONTHLY_BUDGETS),
+      },
+      cache: {
+        enabled: process.env.LLM_CACHE !== 'false',
+        persist: process.env.LLM_CACHE_PERSIST !== 'false',
+        maxMemoryEntries: parseInt(process.env.LLM_CACHE_MAX_ENTRIES || '500', 10),
+        ttlMs: parseInt(process.env.LLM_CACHE_TTL_MS || String(7 * 24 * 60 * 60 * 1000), 10),
+      },
     },
     testing: {
       enableIterativeGeneration: process.env.ENABLE_ITERATIVE_GENERATION !== 'false',
       snapshotApprovalRequired: process.env.SNAPSHOT_APPROVAL_REQUIRED === 'true',
       snapshotAfterActions: (process.env.SNAPSHOT_AFTER_ACTIONS || 'click,fill,press,select').split(','),
     },
+    storage: {
+      dataDir: process.env.DATA_DIR || './data',
+      maxRuns: parseInt(process.env.RUN_HISTORY_MAX_RUNS || '1000', 10),
+    },
+    secrets: {
+      masterKey: process.env.SECRETS_MASTER_KEY,
+    },
+    scheduler: {
+      enabled: process.env.SCHEDULER_ENABLED !== 'false',
+      maxConcurrentRuns: parseInt(process.env.SCHEDULER_MAX_CONCURRENT_RUNS || '2', 10),
+    },
+    batch: {
+      maxWorkers: parseInt(process.env.BATCH_MAX_WORKERS || '3', 10),
+    },
   };
 }
 
+function parsePricing(raw?: string): Record<string, LLMModelPrice> | null {
+  if (!raw) return {};
+  try {
+    const pricing = JSON.parse(raw) as Record<string, LLMModelPrice>;
+    const valid = Object.values(pricing).every(
+      (price) => price && typeof price.input === 'number' && typeof price.output === 'number'
+    );
+    return valid ? pricing : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseBudgets(raw?: string): Partial<Record<LLMBudgetScope, number>> {
+  return Object.fromEntries(
+    (raw || '')
+      .split(',')
+      .map((entry) => entry.split(':').map((part) => part.trim()))
+      .filter(([scope, limit]) => scope && limit)
+      .map(([scope, limit]) => [scope, parseFloat(limit)])
+  );
+}
+
 // Singleton config instance
 export const config = loadConfig();
 
@@ -71,6 +205,46 @@ export function validateConfig(): void {
     errors.push('Invalid PORT value');
   }
 
+  const knownProviders: LLMProviderType[] = ['ollama', 'groq', 'openai', 'anthropic', 'google'];
+  const unknownFallbacks = config.llm.failover.fallbackOrder.filter(
+    (p) => !knownProviders.includes(p)
+  );
+  if (unknownFallbacks.length > 0) {
+    errors.push(`Unknown provider in LLM_FALLBACK_ORDER: ${unknownFallbacks.join(', ')}`);
+  }
+
+  if (!config.llm.usage.pricing) {
+    errors.push('LLM_PRICING must be JSON like {"provider:model":{"input":0.5,"output":1.5}}');
+  }
+
+  for (const [scope, limit] of Object.entries(config.llm.usage.monthlyBudgets)) {
+    if (scope !== 'total' && !knownProviders.includes(scope as LLMProviderType)) {
+      errors.push(`Unknown provider in LLM_MONTHLY_BUDGETS: ${scope}`);
+    } else if (!(limit >= 0)) {
+      errors.push(`Invalid budget in LLM_MONTHLY_BUDGETS for ${scope}`);
+    }
+  }
+
+  if (!(config.llm.structuredOutput.maxRepairs >= 0)) {
+    errors.push('LLM_MAX_REPAIRS must be 0 or more');
+  }
+
+  if (!(config.llm.cache.maxMemoryEntries >= 1)) {
+    errors.push('LLM_CACHE_MAX_ENTRIES must be at least 1');
+  }
+
+  if (!(config.llm.cache.ttlMs >= 0)) {
+    errors.push('LLM_CACHE_TTL_MS must be 0 (no expiry) or more');
+  }
+
+  if (!(config.scheduler.maxConcurrentRuns >= 1)) {
+    errors.push('SCHEDULER_MAX_CONCURRENT_RUNS must be at least 1');
+  }
+
+  if (!(config.batch.maxWorkers >= 1)) {
+    errors.push('BATCH_MAX_WORKERS must be at least 1');
+  }
+
   if (errors.length > 0) {
     throw new Error(`Configuration errors:\n${errors.join('\n')}`);
   }
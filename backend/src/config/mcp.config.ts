@@ -4,6 +4,8 @@
  * Configuration for Playwright MCP server integration
  */
 
+import type { BrowserContextOptions } from '@playwright/test';
+
 export interface MCPServerConfig {
   browser?: {
     browserName?: 'chromium' | 'firefox' | 'webkit';
@@ -15,12 +17,7 @@ export interface MCPServerConfig {
       channel?: string;
       executablePath?: string;
     };
-    contextOptions?: {
-      viewport?: { width: number; height: number };
-      userAgent?: string;
-      locale?: string;
-      timezoneId?: string;
-    };
+    contextOptions?: BrowserContextOptions; // Viewport, device emulation, locale, ...
   };
   server?: {
     port?: number;
@@ -78,8 +75,12 @@ export const defaultMCPConfig: MCPServerConfig = {
 
 /**
  * Get MCP configuration from environment or defaults
+ *
+ * @param contextOptions - Per-run emulation merged over the default context options.
+ *   A storageState (auth profile) switches to an isolated context - a persistent
+ *   userDataDir profile would ignore it
  */
-export function getMCPConfig(): MCPServerConfig {
+export function getMCPConfig(contextOptions: BrowserContextOptions = {}): MCPServerConfig {
   return {
     ...defaultMCPConfig,
     browser: {
@@ -88,6 +89,11 @@ export function getMCPConfig(): MCPServerConfig {
         ...defaultMCPConfig.browser?.launchOptions,
         headless: process.env.MCP_HEADLESS !== 'false',
       },
+      ...(contextOptions.storageState && { isolated: true, userDataDir: undefined }),
+      contextOptions: {
+        ...defaultMCPConfig.browser?.contextOptions,
+        ...contextOptions,
+      },
     },
   };
 }
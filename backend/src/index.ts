@@ -19,9 +19,18 @@ import {
   healthRoutes,
   llmRoutes,
   testRoutes,
+  scenarioRoutes,
+  runRoutes,
+  secretRoutes,
+  scheduleRoutes,
+  authProfileRoutes,
+  artifactRoutes,
+  visualRoutes,
+  recordedTestRoutes,
   errorHandler,
 } from "./api/index.js";
 import { WebSocketServer } from "./websocket/index.js";
+import { scheduler } from "./services/index.js";
 
 // ============================================
 // Validate Configuration
@@ -52,9 +61,33 @@ app.use(healthRoutes);
 // LLM endpoints
 app.use("/api/llm", llmRoutes);
 
+// Saved scenario library (before /api/test so it isn't shadowed)
+app.use("/api/test/scenarios", scenarioRoutes);
+
+// Run history
+app.use("/api/test/runs", runRoutes);
+
 // Test endpoints
 app.use("/api/test", testRoutes);
 
+// Secrets vault
+app.use("/api/secrets", secretRoutes);
+
+// Scheduled runs
+app.use("/api/schedules", scheduleRoutes);
+
+// Saved login states
+app.use("/api/auth-profiles", authProfileRoutes);
+
+// Recorded trace/video/HAR/console files
+app.use("/api/artifacts", artifactRoutes);
+
+// Visual regression baselines
+app.use("/api/visual", visualRoutes);
+
+// Recorded tests (replay without the LLM)
+app.use("/api/recorded-tests", recordedTestRoutes);
+
 // ============================================
 // Error Handler (must be last)
 // ============================================
@@ -90,26 +123,90 @@ httpServer.listen(PORT, () => {
 ║    POST /api/llm/providers/active Set active provider      ║
 ║    POST /api/llm/generate         Text generation          ║
 ║    POST /api/llm/chat             Chat completion          ║
+║    GET  /api/llm/usage            Token usage & cost       ║
+║    DEL  /api/llm/cache            Clear response cache     ║
 ╠════════════════════════════════════════════════════════════╣
 ║  Test:                                                     ║
 ║    POST /api/test/run             Dynamic prompt → test    ║
 ║    POST /api/test/generate-steps  Generate test steps      ║
 ║    POST /api/test/execute-steps   Execute with Playwright  ║
+║    POST /api/test/execute-batch   Browser x viewport matrix║
 ║    GET  /api/test/mcp/clients     List MCP clients         ║
 ║    POST /api/test/mcp/clients/active Set active MCP client║
 ║    POST /api/test/validate-steps  Validate steps format    ║
+║    POST /api/test/export/playwright Export .spec.ts file    ║
+╠════════════════════════════════════════════════════════════╣
+║  Scenarios:                                                ║
+║    GET  /api/test/scenarios       List (?tags=&search=)    ║
+║    POST /api/test/scenarios       Save scenario            ║
+║    GET  /api/test/scenarios/:id   Get scenario             ║
+║    PUT  /api/test/scenarios/:id   Update scenario          ║
+║    DEL  /api/test/scenarios/:id   Delete scenario          ║
+║    POST /api/test/scenarios/:id/run Re-run scenario        ║
+╠════════════════════════════════════════════════════════════╣
+║  Run History:                                              ║
+║    GET  /api/test/runs            List runs (filters)      ║
+║    GET  /api/test/runs/:id        Run detail               ║
+║    GET  /api/test/runs/:id/report JUnit/HTML/Markdown      ║
+╠════════════════════════════════════════════════════════════╣
+║  Secrets:                                                  ║
+║    GET  /api/secrets              List secret names        ║
+║    PUT  /api/secrets/:name        Store secret (encrypted) ║
+║    DEL  /api/secrets/:name        Delete secret            ║
+╠════════════════════════════════════════════════════════════╣
+║  Schedules:                                                ║
+║    GET  /api/schedules            List with last results   ║
+║    POST /api/schedules            Create (cron)            ║
+║    POST /api/schedules/:id/pause  Pause schedule           ║
+║    POST /api/schedules/:id/resume Resume schedule          ║
+║    POST /api/schedules/:id/run    Run now                  ║
+║    DEL  /api/schedules/:id        Delete schedule          ║
+╠════════════════════════════════════════════════════════════╣
+║  Auth Profiles:                                            ║
+║    GET  /api/auth-profiles        List profile metadata    ║
+║    PUT  /api/auth-profiles/:name  Upload storage state     ║
+║    POST /api/auth-profiles/:name/capture Run login steps   ║
+║    DEL  /api/auth-profiles/:name  Delete profile           ║
+╠════════════════════════════════════════════════════════════╣
+║  Artifacts:                                                ║
+║    GET  /api/artifacts/:runId     List recorded files      ║
+║    GET  /api/artifacts/:runId/:file Download file          ║
+║    DEL  /api/artifacts/:runId     Delete run artifacts     ║
+╠════════════════════════════════════════════════════════════╣
+║  Visual Baselines:                                         ║
+║    GET  /api/visual/baselines     List (?pending=true)     ║
+║    GET  /api/visual/baselines/:name/:variant/diff Diff PNG ║
+║    POST /api/visual/baselines/:name/:variant/accept Accept ║
+║    DEL  /api/visual/baselines/:name Delete baseline        ║
+╠════════════════════════════════════════════════════════════╣
+║  Recorded Tests:                                           ║
+║    GET  /api/recorded-tests       List recordings          ║
+║    POST /api/recorded-tests       Record from step list    ║
+║    POST /api/recorded-tests/:id/replay Replay without LLM  ║
+║    DEL  /api/recorded-tests/:id   Delete recording         ║
 ╠════════════════════════════════════════════════════════════╣
 ║  WebSocket Events (Human-in-Loop):                         ║
 ║    test:start                     Start test session       ║
 ║    step:approval                  Approve/reject step      ║
+║    step:insert_before|after       Insert steps mid-run     ║
+║    step:skip|retry|rewind         Edit the step plan       ║
 ║    session:cancel                 Cancel active session    ║
+║    session:record                 Save session as test     ║
+║    test:replay                    Replay recorded test     ║
 ╚════════════════════════════════════════════════════════════╝
   `);
+
+  if (config.scheduler.enabled) {
+    scheduler.start().catch((error) => {
+      console.error('[Scheduler] Failed to start:', error);
+    });
+  }
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, closing server...');
+  scheduler.stop();
   wsServer.close();
   httpServer.close(() => {
     console.log('Server closed');
@@ -0,0 +1,85 @@
+/**
+ * Circuit Breaker
+ *
+ * Single Responsibility: Track provider failures and short-circuit dead providers
+ * - closed: requests flow normally
+ * - open: requests are skipped until the reset timeout elapses
+ * - half_open: requests are let through again; one failure re-opens the circuit
+ */
+
+import {
+  LLMProviderType,
+  CircuitState,
+  CircuitBreakerStatus,
+} from '../types/index.js';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError?: string;
+
+  constructor(
+    private readonly provider: LLMProviderType,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether a request may be sent to the provider right now
+   */
+  canRequest(): boolean {
+    if (this.state === 'open') {
+      if (this.openedAt !== null && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+        this.state = 'half_open';
+        console.log(`[CircuitBreaker] ${this.provider} half-open, allowing trial request`);
+        return true;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`[CircuitBreaker] ${this.provider} recovered, circuit closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.lastError = undefined;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(
+          `[CircuitBreaker] ${this.provider} circuit opened after ${this.consecutiveFailures} failure(s)`
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : undefined,
+      lastError: this.lastError,
+    };
+  }
+}
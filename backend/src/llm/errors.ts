@@ -0,0 +1,81 @@
+/**
+ * LLM Provider Errors
+ *
+ * Single Responsibility: Classify provider failures for failover decisions
+ */
+
+import { LLMBudgetStatus, LLMProviderType } from '../types/index.js';
+
+/**
+ * Error thrown by providers when an API call fails
+ * Retryable errors (timeouts, rate limits, 5xx) move the request to the next provider
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderType,
+    public readonly status?: number,
+    public readonly retryable: boolean = isRetryableStatus(status)
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/**
+ * Thrown when the monthly budget of all LLM usage (LLM_MONTHLY_BUDGETS "total") is spent
+ * Provider budgets only take that provider out of the failover chain
+ */
+export class LLMBudgetExceededError extends Error {
+  constructor(public readonly budget: LLMBudgetStatus) {
+    super(describeBudget(budget));
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+export function describeBudget(budget: LLMBudgetStatus): string {
+  const scope = budget.scope === 'total' ? 'LLM' : budget.scope;
+  return `Monthly ${scope} budget exceeded: ${formatUsd(budget.spentUsd)} of ${formatUsd(budget.limitUsd)} spent in ${budget.month}`;
+}
+
+// Small test budgets would otherwise all read "$0.00"
+const formatUsd = (usd: number): string => `$${usd < 0.01 ? usd.toPrecision(2) : usd.toFixed(2)}`;
+
+/**
+ * Status codes worth retrying on another provider
+ * Missing status means the provider was unreachable or not configured
+ */
+export function isRetryableStatus(status?: number): boolean {
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Decide whether an error should trigger failover
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof LLMProviderError) {
+    return error.retryable;
+  }
+
+  if (error instanceof Error) {
+    // Timeouts abort the fetch; network failures surface as TypeError("fetch failed")
+    return (
+      error.name === 'AbortError' ||
+      error.name === 'TimeoutError' ||
+      error instanceof TypeError
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Short description of a provider failure for logs and fallback attempts
+ */
+export function describeProviderError(error: unknown): string {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'Request timed out';
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
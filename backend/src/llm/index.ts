@@ -5,11 +5,30 @@
 // Manager
 export { LLMManager, llmManager } from './llm-manager.js';
 
+// Failover
+export { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker.js';
+// Usage accounting
+export { LLMUsageLedger, createLLMUsageLedger, llmUsageLedger } from './usage-ledger.js';
+export { DEFAULT_MODEL_PRICES, findModelPrice, estimateCost } from './pricing.js';
+// Response cache
+export { LLMResponseCache, createLLMResponseCache, llmResponseCache, buildCacheKey } from './response-cache.js';
+
+export {
+  LLMProviderError,
+  LLMBudgetExceededError,
+  isRetryableStatus,
+  isFailoverError,
+  describeProviderError,
+} from './errors.js';
+
 // Providers
 export {
   BaseLLMProvider,
   OllamaProvider,
   GroqProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  GoogleProvider,
   GROQ_MODELS,
   type GroqModelId,
 } from './providers/index.js';
@@ -5,6 +5,9 @@
  * - Register/unregister providers
  * - Health checks
  * - Provider selection
+ * - Failover across providers (with per-provider circuit breakers)
+ * - Usage accounting and monthly budgets (via the usage ledger)
+ * - Answering repeated calls from the response cache
  * 
  * Does NOT handle: Test generation (moved to TestGeneratorService)
  */
@@ -15,15 +18,42 @@ import {
   ChatMessage,
   LLMRequestOptions,
   LLMResponse,
+  LLMStreamChunk,
+  LLMUsageTags,
+  ILLMUsageLedger,
+  ILLMResponseCache,
+  LLMFallbackAttempt,
   ProviderStatus,
+  CircuitBreakerStatus,
 } from '../types/index.js';
-import { OllamaProvider, GroqProvider } from './providers/index.js';
+import {
+  OllamaProvider,
+  GroqProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  GoogleProvider,
+} from './providers/index.js';
+import { config } from '../config/index.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import {
+  isFailoverError,
+  describeProviderError,
+  describeBudget,
+  LLMBudgetExceededError,
+} from './errors.js';
+import { llmUsageLedger } from './usage-ledger.js';
+import { buildCacheKey, llmResponseCache } from './response-cache.js';
 
 export class LLMManager {
   private providers: Map<LLMProviderType, ILLMProvider> = new Map();
   private activeProviderType: LLMProviderType | null = null;
+  private breakers: Map<LLMProviderType, CircuitBreaker> = new Map();
+  private fallbackOrder: LLMProviderType[] = [...config.llm.failover.fallbackOrder];
 
-  constructor() {
+  constructor(
+    private readonly usageLedger?: ILLMUsageLedger,
+    private readonly responseCache?: ILLMResponseCache
+  ) {
     // Don't auto-initialize - let caller decide
   }
 
@@ -34,9 +64,14 @@ export class LLMManager {
   initializeDefaultProviders(): void {
     this.registerProvider(new OllamaProvider());
     this.registerProvider(new GroqProvider());
+    this.registerProvider(new OpenAIProvider());
+    this.registerProvider(new AnthropicProvider());
+    this.registerProvider(new GoogleProvider());
     
-    // Set default active provider
-    this.activeProviderType = 'ollama';
+    // Set default active provider (DEFAULT_LLM_PROVIDER, falls back to Ollama)
+    this.activeProviderType = this.providers.has(config.llm.defaultProvider)
+      ? config.llm.defaultProvider
+      : 'ollama';
     
     console.log('[LLMManager] Initialized with providers:', this.getProviderTypes());
   }
@@ -47,9 +82,17 @@ export class LLMManager {
 
   registerProvider(provider: ILLMProvider): void {
     this.providers.set(provider.config.type, provider);
+    this.breakers.set(
+      provider.config.type,
+      new CircuitBreaker(provider.config.type, {
+        failureThreshold: config.llm.failover.failureThreshold,
+        resetTimeoutMs: config.llm.failover.resetTimeoutMs,
+      })
+    );
   }
 
   unregisterProvider(type: LLMProviderType): boolean {
+    this.breakers.delete(type);
     return this.providers.delete(type);
   }
 
@@ -152,18 +195,106 @@ export class LLMManager {
   }
 
   // ============================================
-  // LLM Operations (Delegated to active provider)
+  // Failover Configuration
+  // ============================================
+
+  setFallbackOrder(order: LLMProviderType[]): void {
+    this.fallbackOrder = [...order];
+    console.log(`[LLMManager] Fallback order: ${order.join(' -> ') || '(none)'}`);
+  }
+
+  getFallbackOrder(): LLMProviderType[] {
+    return [...this.fallbackOrder];
+  }
+
+  getCircuitStatuses(): CircuitBreakerStatus[] {
+    return Array.from(this.breakers.values()).map((b) => b.getStatus());
+  }
+
+  resetCircuit(type: LLMProviderType): boolean {
+    const breaker = this.breakers.get(type);
+    breaker?.reset();
+    return !!breaker;
+  }
+
+  // ============================================
+  // LLM Operations (Requested or active provider, then fallback order)
   // ============================================
 
   async chat(
     messages: ChatMessage[],
     options?: LLMRequestOptions
   ): Promise<LLMResponse> {
-    const provider = this.getActiveProvider();
-    if (!provider) {
-      throw new Error('No active LLM provider configured');
+    return this.runWithFailover((provider) => provider.chat(messages, options), options, messages);
+  }
+
+  /**
+   * Streaming chat - failover applies until the first chunk arrives,
+   * after that an error ends the stream (the caller already has partial text)
+   * A cached answer arrives as a single chunk
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk> {
+    const requestedProvider = this.requireRequestedProviderType(options);
+    const attempts: LLMFallbackAttempt[] = [];
+
+    for (const type of this.getFailoverChain(requestedProvider)) {
+      const provider = this.providers.get(type)!;
+      const breaker = this.breakers.get(type);
+
+      const cacheKey = this.cacheKey(provider, messages, options);
+      const cached = await this.readCache(cacheKey, options);
+      if (cached) {
+        yield { delta: cached.content, response: cached };
+        return;
+      }
+
+      if (breaker && !breaker.canRequest()) {
+        attempts.push({ provider: type, error: 'Circuit open' });
+        continue;
+      }
+
+      const budgetError = await this.checkBudget(type);
+      if (budgetError) {
+        attempts.push({ provider: type, error: budgetError });
+        continue;
+      }
+
+      let started = false;
+      try {
+        for await (const chunk of provider.chatStream(messages, options)) {
+          started = true;
+
+          if (chunk.response) {
+            breaker?.recordSuccess();
+            if (attempts.length > 0) {
+              console.log(`[LLMManager] ${type} streamed after failover from ${requestedProvider}`);
+              chunk.response.fallback = { requestedProvider, attempts };
+            }
+            await this.recordUsage(chunk.response, options?.usage);
+            await this.writeCache(cacheKey, chunk.response, options);
+          }
+
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (started || options?.signal?.aborted || !isFailoverError(error)) {
+          throw error;
+        }
+
+        const message = describeProviderError(error);
+        breaker?.recordFailure(message);
+        attempts.push({ provider: type, error: message });
+        console.warn(`[LLMManager] ${type} failed: ${message}`);
+      }
     }
-    return provider.chat(messages, options);
+
+    throw new Error(
+      `All LLM providers failed: ${attempts.map((a) => `${a.provider} (${a.error})`).join(', ')}`
+    );
   }
 
   async generate(
@@ -171,11 +302,192 @@ export class LLMManager {
     systemPrompt?: string,
     options?: LLMRequestOptions
   ): Promise<LLMResponse> {
-    const provider = this.getActiveProvider();
-    if (!provider) {
+    return this.runWithFailover(
+      (provider) => provider.generate(prompt, systemPrompt, options),
+      options,
+      { prompt, systemPrompt }
+    );
+  }
+
+  /**
+   * Reason to skip a provider whose monthly budget is spent
+   * @throws LLMBudgetExceededError when the total budget is spent
+   */
+  private async checkBudget(type: LLMProviderType): Promise<string | null> {
+    const budget = await this.usageLedger?.exceededBudget(type);
+    if (!budget) return null;
+
+    if (budget.scope === 'total') {
+      throw new LLMBudgetExceededError(budget);
+    }
+    return describeBudget(budget);
+  }
+
+  /**
+   * Usage accounting never fails the call it accounts for
+   */
+  private async recordUsage(response: LLMResponse, tags?: LLMUsageTags): Promise<void> {
+    if (!this.usageLedger) return;
+
+    try {
+      await this.usageLedger.record({
+        timestamp: new Date(),
+        provider: response.provider,
+        model: response.model,
+        ...tags,
+        promptTokens: response.usage?.promptTokens || 0,
+        completionTokens: response.usage?.completionTokens || 0,
+        totalTokens: response.usage?.totalTokens || 0,
+        latencyMs: response.latencyMs,
+      });
+    } catch (error) {
+      console.warn(`[LLMManager] Failed to record usage: ${describeProviderError(error)}`);
+    }
+  }
+
+  // ============================================
+  // Response Cache
+  // ============================================
+
+  /**
+   * Cache key of a call on a provider, or null when the call does not use the cache
+   */
+  private cacheKey(provider: ILLMProvider, input: unknown, options?: LLMRequestOptions): string | null {
+    if (!this.responseCache || input === undefined || options?.cache?.mode === 'bypass') {
+      return null;
+    }
+    return buildCacheKey(provider.config.type, provider.config.model, input, options);
+  }
+
+  /**
+   * Cache failures never fail the call - they count as a miss, like entries `cache.accept` rejects
+   */
+  private async readCache(key: string | null, options?: LLMRequestOptions): Promise<LLMResponse | null> {
+    if (!key || options?.cache?.mode === 'refresh') return null;
+
+    const startTime = Date.now();
+    try {
+      const response = await this.responseCache!.get(key, options?.cache?.scope);
+      if (!response || !this.isCacheable(response, options)) return null;
+      return { ...response, cached: true, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      console.warn(`[LLMManager] Response cache lookup failed: ${describeProviderError(error)}`);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string | null, response: LLMResponse, options?: LLMRequestOptions): Promise<void> {
+    if (!key || !this.isCacheable(response, options)) return;
+
+    try {
+      await this.responseCache!.set(key, response, options?.cache?.scope);
+    } catch (error) {
+      console.warn(`[LLMManager] Failed to cache response: ${describeProviderError(error)}`);
+    }
+  }
+
+  private isCacheable(response: LLMResponse, options?: LLMRequestOptions): boolean {
+    const accept = options?.cache?.accept;
+    return !!response.content && (!accept || accept(response.content));
+  }
+
+  /**
+   * options.provider for this call, else the active provider
+   */
+  private requireRequestedProviderType(options?: LLMRequestOptions): LLMProviderType {
+    if (options?.provider) {
+      if (!this.providers.has(options.provider)) {
+        throw new Error(`LLM provider ${options.provider} not registered`);
+      }
+      return options.provider;
+    }
+
+    const type = this.activeProviderType;
+    if (!type || !this.providers.has(type)) {
       throw new Error('No active LLM provider configured');
     }
-    return provider.generate(prompt, systemPrompt, options);
+    return type;
+  }
+
+  /**
+   * Requested provider first, then configured fallbacks that are registered and configured
+   */
+  private getFailoverChain(requestedProvider: LLMProviderType): LLMProviderType[] {
+    const chain: LLMProviderType[] = [requestedProvider];
+
+    for (const type of this.fallbackOrder) {
+      const provider = this.providers.get(type);
+      if (provider && provider.config.isAvailable && !chain.includes(type)) {
+        chain.push(type);
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * Run an operation on the failover chain
+   * - Timeouts, rate limits, 5xx and network errors move on to the next provider
+   * - Other errors (e.g. bad request) are thrown immediately
+   * - Providers with an open circuit are skipped
+   * - A cancelled request (aborted signal) is not retried
+   * - Providers over their monthly budget are skipped; an exceeded total budget rejects the call
+   * - Each provider's cached answer for the same input is used before calling it
+   */
+  private async runWithFailover(
+    operation: (provider: ILLMProvider) => Promise<LLMResponse>,
+    options?: LLMRequestOptions,
+    cacheInput?: unknown
+  ): Promise<LLMResponse> {
+    const requestedProvider = this.requireRequestedProviderType(options);
+    const attempts: LLMFallbackAttempt[] = [];
+
+    for (const type of this.getFailoverChain(requestedProvider)) {
+      const provider = this.providers.get(type)!;
+      const breaker = this.breakers.get(type);
+
+      const cacheKey = this.cacheKey(provider, cacheInput, options);
+      const cached = await this.readCache(cacheKey, options);
+      if (cached) return cached;
+
+      if (breaker && !breaker.canRequest()) {
+        attempts.push({ provider: type, error: 'Circuit open' });
+        continue;
+      }
+
+      const budgetError = await this.checkBudget(type);
+      if (budgetError) {
+        attempts.push({ provider: type, error: budgetError });
+        continue;
+      }
+
+      try {
+        const response = await operation(provider);
+        breaker?.recordSuccess();
+
+        if (attempts.length > 0) {
+          console.log(`[LLMManager] ${type} answered after failover from ${requestedProvider}`);
+          response.fallback = { requestedProvider, attempts };
+        }
+
+        await this.recordUsage(response, options?.usage);
+        await this.writeCache(cacheKey, response, options);
+        return response;
+      } catch (error) {
+        if (options?.signal?.aborted || !isFailoverError(error)) {
+          throw error;
+        }
+
+        const message = describeProviderError(error);
+        breaker?.recordFailure(message);
+        attempts.push({ provider: type, error: message });
+        console.warn(`[LLMManager] ${type} failed: ${message}`);
+      }
+    }
+
+    throw new Error(
+      `All LLM providers failed: ${attempts.map((a) => `${a.provider} (${a.error})`).join(', ')}`
+    );
   }
 
   // ============================================
@@ -190,6 +502,8 @@ export class LLMManager {
       model: string;
       isFree: boolean;
     }[];
+    fallbackOrder: LLMProviderType[];
+    circuits: CircuitBreakerStatus[];
   } {
     const providers = Array.from(this.providers.entries()).map(([type, p]) => ({
       type,
@@ -201,6 +515,8 @@ export class LLMManager {
     return {
       activeProvider: this.activeProviderType,
       providers,
+      fallbackOrder: this.getFallbackOrder(),
+      circuits: this.getCircuitStatuses(),
     };
   }
 }
@@ -209,7 +525,7 @@ export class LLMManager {
 // Singleton Instance
 // ============================================
 
-export const llmManager = new LLMManager();
+export const llmManager = new LLMManager(llmUsageLedger, llmResponseCache);
 
 // Initialize on module load
 llmManager.initializeDefaultProviders();
@@ -0,0 +1,53 @@
+/**
+ * LLM Pricing
+ *
+ * Single Responsibility: Estimate the cost of an LLM call from its token counts
+ * - Prices are USD per million tokens, keyed "provider:model"
+ * - Versioned model names (e.g. "gpt-4o-mini-2024-07-18") match their base name
+ * - LLM_PRICING entries override the defaults; local Ollama models are free
+ *
+ * Defaults are list prices at the time of writing - override them when they change.
+ */
+
+import { LLMModelPrice, LLMProviderType } from '../types/index.js';
+
+export const DEFAULT_MODEL_PRICES: Record<string, LLMModelPrice> = {
+  'groq:llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq:llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'groq:mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  'groq:gemma2-9b-it': { input: 0.2, output: 0.2 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'anthropic:claude-3-5-haiku': { input: 0.8, output: 4 },
+  'anthropic:claude-3-5-sonnet': { input: 3, output: 15 },
+  'google:gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'google:gemini-1.5-pro': { input: 1.25, output: 5 },
+};
+
+const FREE: LLMModelPrice = { input: 0, output: 0 };
+
+/**
+ * Price of a model - exact key first, then the longest "provider:model" prefix
+ * @returns null when the model has no known price
+ */
+export function findModelPrice(
+  provider: LLMProviderType,
+  model: string,
+  overrides: Record<string, LLMModelPrice> = {}
+): LLMModelPrice | null {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  const key = `${provider}:${model}`;
+
+  if (prices[key]) return prices[key];
+
+  const prefix = Object.keys(prices)
+    .filter((candidate) => key.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (prefix) return prices[prefix];
+  return provider === 'ollama' ? FREE : null;
+}
+
+export function estimateCost(price: LLMModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
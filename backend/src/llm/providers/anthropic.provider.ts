@@ -0,0 +1,190 @@
+/**
+ * Anthropic LLM Provider
+ * Claude models via the Messages API
+ * 
+ * Single Responsibility: Only handles Anthropic API communication
+ */
+
+import { BaseLLMProvider } from './base.provider.js';
+import {
+  LLMProviderConfig,
+  ChatMessage,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMResponseFormat,
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { LLMProviderError } from '../errors.js';
+
+// ============================================
+// Anthropic API Types
+// ============================================
+
+interface AnthropicMessagesRequest {
+  model: string;
+  system?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  tools?: { name: string; description: string; input_schema: Record<string, unknown> }[];
+  tool_choice?: { type: 'tool'; name: string };
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  content: { type: string; text?: string; input?: unknown }[];
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+export class AnthropicProvider extends BaseLLMProvider {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(overrides?: Partial<LLMProviderConfig> & { apiKey?: string }) {
+    const apiKey = overrides?.apiKey || config.llm.anthropic.apiKey || '';
+
+    const defaultConfig: LLMProviderConfig = {
+      type: 'anthropic',
+      name: 'Anthropic',
+      model: config.llm.anthropic.defaultModel,
+      apiKey: apiKey,
+      baseUrl: config.llm.anthropic.baseUrl,
+      isAvailable: !!apiKey,
+      isFree: false,
+    };
+
+    super({ ...defaultConfig, ...overrides });
+    this.apiKey = apiKey;
+    this.baseUrl = (this.config.baseUrl || config.llm.anthropic.baseUrl).replace(/\/+$/, '');
+
+    if (!this.apiKey) {
+      console.warn('[AnthropicProvider] API key not configured. Set ANTHROPIC_API_KEY environment variable.');
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.apiKey) return false;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(10000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new LLMProviderError('Anthropic API key not configured', 'anthropic');
+    }
+
+    const timeout = options?.timeout || config.llm.anthropic.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+
+    // Anthropic takes the system prompt as a top-level field
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const { result, latencyMs } = await this.measureLatency(async () => {
+      try {
+        const request: AnthropicMessagesRequest = {
+          model: this.config.model,
+          system: system || undefined,
+          messages: messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+          max_tokens: options?.maxTokens ?? 2048,
+          temperature: options?.temperature ?? 0.7,
+          top_p: options?.topP,
+          stream: false,
+          ...this.buildStructuredOutputTool(options?.responseFormat),
+        };
+
+        const response = await fetch(`${this.baseUrl}/messages`, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new LLMProviderError(
+            `Anthropic API error: ${response.status} - ${JSON.stringify(errorData)}`,
+            'anthropic',
+            response.status
+          );
+        }
+
+        return (await response.json()) as AnthropicMessagesResponse;
+      } finally {
+        clear();
+      }
+    });
+
+    // A forced tool call carries the structured output as its input
+    const toolUse = result.content.find((block) => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : result.content
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text || '')
+          .join('');
+
+    return {
+      content,
+      model: result.model,
+      provider: 'anthropic',
+      usage: {
+        promptTokens: result.usage.input_tokens,
+        completionTokens: result.usage.output_tokens,
+        totalTokens: result.usage.input_tokens + result.usage.output_tokens,
+      },
+      finishReason: result.stop_reason || undefined,
+      latencyMs,
+    };
+  }
+
+  /**
+   * Anthropic has no JSON mode - a schema becomes a tool the model is forced to call
+   */
+  private buildStructuredOutputTool(
+    format?: LLMResponseFormat
+  ): Pick<AnthropicMessagesRequest, 'tools' | 'tool_choice'> {
+    if (!format?.schema) return {};
+
+    const name = format.name || 'response';
+    return {
+      tools: [{ name, description: 'Return the response in this structure', input_schema: format.schema }],
+      tool_choice: { type: 'tool', name },
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': config.llm.anthropic.apiVersion,
+    };
+  }
+}
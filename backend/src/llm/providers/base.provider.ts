@@ -10,6 +10,7 @@ import {
   ChatMessage,
   LLMRequestOptions,
   LLMResponse,
+  LLMStreamChunk,
 } from '../../types/index.js';
 
 export abstract class BaseLLMProvider implements ILLMProvider {
@@ -28,6 +29,18 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     options?: LLMRequestOptions
   ): Promise<LLMResponse>;
 
+  /**
+   * Streaming chat - providers without a streaming implementation
+   * answer in one chunk once the full response is available
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.chat(messages, options);
+    yield { delta: response.content, response };
+  }
+
   /**
    * Simple generation - convenience wrapper around chat
    * Can be overridden by providers with native generate API
@@ -62,17 +75,63 @@ export abstract class BaseLLMProvider implements ILLMProvider {
 
   /**
    * Create abort controller with timeout
+   * Also aborts when the caller's signal (LLMRequestOptions.signal) does
    */
-  protected createTimeoutController(timeoutMs: number): {
+  protected createTimeoutController(timeoutMs: number, signal?: AbortSignal): {
     controller: AbortController;
     clear: () => void;
   } {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
     
     return {
       controller,
-      clear: () => clearTimeout(timeoutId),
+      clear: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      },
     };
   }
+
+  /**
+   * Split a streamed response body into lines (NDJSON and server-sent events)
+   */
+  protected async *readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of body) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield line;
+      }
+    }
+
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield rest;
+  }
+
+  /**
+   * Data payloads of a server-sent event stream, up to the "[DONE]" marker
+   */
+  protected async *readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    for await (const line of this.readLines(body)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      yield data;
+    }
+  }
 }
@@ -0,0 +1,178 @@
+/**
+ * Google LLM Provider
+ * Gemini models via the Generative Language API
+ * 
+ * Single Responsibility: Only handles Google Gemini API communication
+ */
+
+import { BaseLLMProvider } from './base.provider.js';
+import {
+  LLMProviderConfig,
+  ChatMessage,
+  LLMRequestOptions,
+  LLMResponse,
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { LLMProviderError } from '../errors.js';
+
+// ============================================
+// Gemini API Types
+// ============================================
+
+interface GeminiContent {
+  role?: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+interface GeminiGenerateRequest {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
+  generationConfig?: {
+    temperature?: number;
+    maxOutputTokens?: number;
+    topP?: number;
+    responseMimeType?: string;
+  };
+}
+
+interface GeminiGenerateResponse {
+  candidates?: {
+    content?: GeminiContent;
+    finishReason?: string;
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+export class GoogleProvider extends BaseLLMProvider {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(overrides?: Partial<LLMProviderConfig> & { apiKey?: string }) {
+    const apiKey = overrides?.apiKey || config.llm.google.apiKey || '';
+
+    const defaultConfig: LLMProviderConfig = {
+      type: 'google',
+      name: 'Google Gemini',
+      model: config.llm.google.defaultModel,
+      apiKey: apiKey,
+      baseUrl: config.llm.google.baseUrl,
+      isAvailable: !!apiKey,
+      isFree: false,
+    };
+
+    super({ ...defaultConfig, ...overrides });
+    this.apiKey = apiKey;
+    this.baseUrl = (this.config.baseUrl || config.llm.google.baseUrl).replace(/\/+$/, '');
+
+    if (!this.apiKey) {
+      console.warn('[GoogleProvider] API key not configured. Set GOOGLE_API_KEY environment variable.');
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.apiKey) return false;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: { 'x-goog-api-key': this.apiKey },
+        signal: AbortSignal.timeout(10000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new LLMProviderError('Google API key not configured', 'google');
+    }
+
+    const timeout = options?.timeout || config.llm.google.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+
+    // Gemini takes the system prompt as systemInstruction and calls the assistant "model"
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const { result, latencyMs } = await this.measureLatency(async () => {
+      try {
+        const request: GeminiGenerateRequest = {
+          contents: messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({
+              role: m.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: m.content }],
+            })),
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          generationConfig: {
+            temperature: options?.temperature ?? 0.7,
+            maxOutputTokens: options?.maxTokens ?? 2048,
+            topP: options?.topP,
+            // Gemini's responseSchema only takes an OpenAPI subset - the schema is checked after parsing
+            responseMimeType: options?.responseFormat ? 'application/json' : undefined,
+          },
+        };
+
+        const response = await fetch(
+          `${this.baseUrl}/models/${encodeURIComponent(this.config.model)}:generateContent`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'x-goog-api-key': this.apiKey,
+            },
+            body: JSON.stringify(request),
+            signal: controller.signal,
+          }
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new LLMProviderError(
+            `Google API error: ${response.status} - ${JSON.stringify(errorData)}`,
+            'google',
+            response.status
+          );
+        }
+
+        return (await response.json()) as GeminiGenerateResponse;
+      } finally {
+        clear();
+      }
+    });
+
+    const candidate = result.candidates?.[0];
+    const content = (candidate?.content?.parts || []).map((p) => p.text || '').join('');
+    const promptTokens = result.usageMetadata?.promptTokenCount || 0;
+    const completionTokens = result.usageMetadata?.candidatesTokenCount || 0;
+
+    return {
+      content,
+      model: result.modelVersion || this.config.model,
+      provider: 'google',
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: result.usageMetadata?.totalTokenCount || promptTokens + completionTokens,
+      },
+      finishReason: candidate?.finishReason,
+      latencyMs,
+    };
+  }
+}
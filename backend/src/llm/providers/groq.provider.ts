@@ -11,8 +11,10 @@ import {
   ChatMessage,
   LLMRequestOptions,
   LLMResponse,
+  LLMStreamChunk,
 } from '../../types/index.js';
 import { config } from '../../config/index.js';
+import { LLMProviderError } from '../errors.js';
 
 // ============================================
 // Groq API Types
@@ -25,8 +27,15 @@ interface GroqChatRequest {
   max_tokens?: number;
   top_p?: number;
   stream?: boolean;
+  response_format?: { type: 'json_object' };
 }
 
+type GroqUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
 interface GroqChatResponse {
   id: string;
   model: string;
@@ -35,11 +44,17 @@ interface GroqChatResponse {
     message: { role: string; content: string };
     finish_reason: string;
   }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: GroqUsage;
+}
+
+// Server-sent event of a streamed completion; usage arrives with the last one
+interface GroqChatChunk {
+  model: string;
+  choices: {
+    delta: { content?: string };
+    finish_reason: string | null;
+  }[];
+  x_groq?: { usage?: GroqUsage };
 }
 
 // ============================================
@@ -119,38 +134,15 @@ export class GroqProvider extends BaseLLMProvider {
     options?: LLMRequestOptions
   ): Promise<LLMResponse> {
     if (!this.apiKey) {
-      throw new Error('Groq API key not configured');
+      throw new LLMProviderError('Groq API key not configured', 'groq');
     }
 
     const timeout = options?.timeout || config.llm.groq.timeout;
-    const { controller, clear } = this.createTimeoutController(timeout);
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
 
     const { result, latencyMs } = await this.measureLatency(async () => {
       try {
-        const request: GroqChatRequest = {
-          model: this.config.model,
-          messages: messages.map((m) => ({ role: m.role, content: m.content })),
-          temperature: options?.temperature ?? 0.7,
-          max_tokens: options?.maxTokens ?? 2048,
-          top_p: options?.topP,
-          stream: false,
-        };
-
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-          },
-          body: JSON.stringify(request),
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(`Groq API error: ${response.status} - ${JSON.stringify(errorData)}`);
-        }
-
+        const response = await this.post(this.buildRequest(messages, options, false), controller.signal);
         return (await response.json()) as GroqChatResponse;
       } finally {
         clear();
@@ -163,16 +155,110 @@ export class GroqProvider extends BaseLLMProvider {
       content: choice.message.content,
       model: result.model,
       provider: 'groq',
-      usage: {
-        promptTokens: result.usage.prompt_tokens,
-        completionTokens: result.usage.completion_tokens,
-        totalTokens: result.usage.total_tokens,
-      },
+      usage: this.toUsage(result.usage),
       finishReason: choice.finish_reason,
       latencyMs,
     };
   }
 
+  /**
+   * Stream tokens from Groq's server-sent events
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.apiKey) {
+      throw new LLMProviderError('Groq API key not configured', 'groq');
+    }
+
+    const timeout = options?.timeout || config.llm.groq.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+    const start = performance.now();
+
+    try {
+      const response = await this.post(this.buildRequest(messages, options, true), controller.signal);
+      let content = '';
+      let model = this.config.model;
+      let finishReason: string | undefined;
+      let usage: GroqUsage | undefined;
+
+      for await (const data of this.readServerSentEvents(response.body!)) {
+        const chunk = JSON.parse(data) as GroqChatChunk;
+        const delta = chunk.choices[0]?.delta.content || '';
+
+        model = chunk.model || model;
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.x_groq?.usage || usage;
+        content += delta;
+
+        if (delta) yield { delta };
+      }
+
+      yield {
+        delta: '',
+        response: {
+          content,
+          model,
+          provider: 'groq',
+          usage: usage && this.toUsage(usage),
+          finishReason,
+          latencyMs: Math.round(performance.now() - start),
+        },
+      };
+    } finally {
+      clear();
+    }
+  }
+
+  private buildRequest(
+    messages: ChatMessage[],
+    options: LLMRequestOptions | undefined,
+    stream: boolean
+  ): GroqChatRequest {
+    return {
+      model: this.config.model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens ?? 2048,
+      top_p: options?.topP,
+      stream,
+      // JSON mode only - schema-constrained output is limited to a few Groq models
+      response_format: options?.responseFormat ? { type: 'json_object' } : undefined,
+    };
+  }
+
+  private async post(request: GroqChatRequest, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMProviderError(
+        `Groq API error: ${response.status} - ${JSON.stringify(errorData)}`,
+        'groq',
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private toUsage(usage: GroqUsage): LLMResponse['usage'] {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
   /**
    * Get available Groq models
    */
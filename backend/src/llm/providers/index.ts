@@ -5,3 +5,6 @@
 export { BaseLLMProvider } from './base.provider.js';
 export { OllamaProvider } from './ollama.provider.js';
 export { GroqProvider, GROQ_MODELS, type GroqModelId } from './groq.provider.js';
+export { OpenAIProvider } from './openai.provider.js';
+export { AnthropicProvider } from './anthropic.provider.js';
+export { GoogleProvider } from './google.provider.js';
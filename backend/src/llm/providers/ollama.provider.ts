@@ -11,8 +11,10 @@ import {
   ChatMessage,
   LLMRequestOptions,
   LLMResponse,
+  LLMStreamChunk,
 } from '../../types/index.js';
 import { config } from '../../config/index.js';
+import { LLMProviderError } from '../errors.js';
 
 // ============================================
 // Ollama API Types
@@ -22,6 +24,7 @@ interface OllamaChatRequest {
   model: string;
   messages: { role: string; content: string }[];
   stream: boolean;
+  format?: 'json' | Record<string, unknown>; // JSON mode, or a JSON Schema the output must follow
   options?: {
     temperature?: number;
     num_predict?: number;
@@ -29,10 +32,12 @@ interface OllamaChatRequest {
   };
 }
 
+// Streaming sends one of these per line; the last one has done=true and the counts
 interface OllamaChatResponse {
   model: string;
   message: { role: string; content: string };
   done: boolean;
+  done_reason?: string;
   total_duration?: number;
   eval_count?: number;
   prompt_eval_count?: number;
@@ -87,41 +92,99 @@ export class OllamaProvider extends BaseLLMProvider {
     options?: LLMRequestOptions
   ): Promise<LLMResponse> {
     const timeout = options?.timeout || config.llm.ollama.timeout;
-    const { controller, clear } = this.createTimeoutController(timeout);
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
 
     const { result, latencyMs } = await this.measureLatency(async () => {
       try {
-        const request: OllamaChatRequest = {
-          model: this.config.model,
-          messages: messages.map((m) => ({ role: m.role, content: m.content })),
-          stream: false,
-          options: {
-            temperature: options?.temperature ?? 0.7,
-            num_predict: options?.maxTokens ?? 2048,
-            top_p: options?.topP,
-          },
-        };
-
-        const response = await fetch(`${this.baseUrl}/api/chat`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(request),
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
-        }
-
+        const response = await this.post(this.buildRequest(messages, options, false), controller.signal);
         return (await response.json()) as OllamaChatResponse;
       } finally {
         clear();
       }
     });
 
+    return this.toResponse(result, result.message.content, latencyMs);
+  }
+
+  /**
+   * Stream tokens from Ollama's NDJSON response
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk> {
+    const timeout = options?.timeout || config.llm.ollama.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+    const start = performance.now();
+
+    try {
+      const response = await this.post(this.buildRequest(messages, options, true), controller.signal);
+      let content = '';
+
+      for await (const line of this.readLines(response.body!)) {
+        const chunk = JSON.parse(line) as OllamaChatResponse & { error?: string };
+        if (chunk.error) {
+          throw new LLMProviderError(`Ollama stream error: ${chunk.error}`, 'ollama');
+        }
+
+        const delta = chunk.message?.content || '';
+        content += delta;
+
+        if (chunk.done) {
+          const latencyMs = Math.round(performance.now() - start);
+          yield { delta, response: this.toResponse(chunk, content, latencyMs) };
+          return;
+        }
+        if (delta) yield { delta };
+      }
+
+      throw new LLMProviderError('Ollama stream ended before the response was complete', 'ollama');
+    } finally {
+      clear();
+    }
+  }
+
+  private buildRequest(
+    messages: ChatMessage[],
+    options: LLMRequestOptions | undefined,
+    stream: boolean
+  ): OllamaChatRequest {
+    return {
+      model: this.config.model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      stream,
+      format: options?.responseFormat && (options.responseFormat.schema || 'json'),
+      options: {
+        temperature: options?.temperature ?? 0.7,
+        num_predict: options?.maxTokens ?? 2048,
+        top_p: options?.topP,
+      },
+    };
+  }
+
+  private async post(request: OllamaChatRequest, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMProviderError(
+        `Ollama API error: ${response.status} - ${errorText}`,
+        'ollama',
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private toResponse(result: OllamaChatResponse, content: string, latencyMs: number): LLMResponse {
     return {
-      content: result.message.content,
+      content,
       model: result.model,
       provider: 'ollama',
       usage: {
@@ -129,6 +192,7 @@ export class OllamaProvider extends BaseLLMProvider {
         completionTokens: result.eval_count || 0,
         totalTokens: (result.prompt_eval_count || 0) + (result.eval_count || 0),
       },
+      finishReason: result.done_reason,
       latencyMs,
     };
   }
@@ -0,0 +1,264 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ * Works with OpenAI and any server exposing the /chat/completions API
+ * (vLLM, LM Studio, llama.cpp server) via a configurable base URL
+ * 
+ * Single Responsibility: Only handles OpenAI-compatible API communication
+ */
+
+import { BaseLLMProvider } from './base.provider.js';
+import {
+  LLMProviderConfig,
+  ChatMessage,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMResponseFormat,
+  LLMStreamChunk,
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { LLMProviderError } from '../errors.js';
+
+// ============================================
+// OpenAI API Types
+// ============================================
+
+interface OpenAIChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  response_format?:
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict: boolean } };
+}
+
+interface OpenAIChatResponse {
+  id: string;
+  model: string;
+  choices: {
+    index: number;
+    message: { role: string; content: string | null };
+    finish_reason: string;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+type OpenAIUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+// Server-sent event of a streamed completion; with include_usage the last one has no choices
+interface OpenAIChatChunk {
+  model?: string;
+  choices: {
+    delta: { content?: string | null };
+    finish_reason: string | null;
+  }[];
+  usage?: OpenAIUsage | null;
+}
+
+// ============================================
+// Provider Implementation
+// ============================================
+
+export class OpenAIProvider extends BaseLLMProvider {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(overrides?: Partial<LLMProviderConfig> & { apiKey?: string }) {
+    const apiKey = overrides?.apiKey || config.llm.openai.apiKey || '';
+    const baseUrl = (overrides?.baseUrl || config.llm.openai.baseUrl).replace(/\/+$/, '');
+    const isOfficialApi = baseUrl.includes('api.openai.com');
+
+    const defaultConfig: LLMProviderConfig = {
+      type: 'openai',
+      name: isOfficialApi ? 'OpenAI' : 'OpenAI-Compatible',
+      model: config.llm.openai.defaultModel,
+      apiKey: apiKey,
+      baseUrl: baseUrl,
+      // Self-hosted servers (vLLM, LM Studio, llama.cpp) usually need no key
+      isAvailable: !!apiKey || !isOfficialApi,
+      isFree: !isOfficialApi,
+    };
+
+    super({ ...defaultConfig, ...overrides, baseUrl });
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+
+    if (!this.apiKey && isOfficialApi) {
+      console.warn('[OpenAIProvider] API key not configured. Set OPENAI_API_KEY environment variable.');
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.config.isAvailable) return false;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(10000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    if (!this.config.isAvailable) {
+      throw new LLMProviderError('OpenAI API key not configured', 'openai');
+    }
+
+    const timeout = options?.timeout || config.llm.openai.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+
+    const { result, latencyMs } = await this.measureLatency(async () => {
+      try {
+        const response = await this.post(this.buildRequest(messages, options, false), controller.signal);
+        return (await response.json()) as OpenAIChatResponse;
+      } finally {
+        clear();
+      }
+    });
+
+    const choice = result.choices[0];
+
+    return {
+      content: choice?.message.content || '',
+      model: result.model || this.config.model,
+      provider: 'openai',
+      usage: this.toUsage(result.usage),
+      finishReason: choice?.finish_reason,
+      latencyMs,
+    };
+  }
+
+  /**
+   * Stream tokens from the server-sent events of /chat/completions
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.config.isAvailable) {
+      throw new LLMProviderError('OpenAI API key not configured', 'openai');
+    }
+
+    const timeout = options?.timeout || config.llm.openai.timeout;
+    const { controller, clear } = this.createTimeoutController(timeout, options?.signal);
+    const start = performance.now();
+
+    try {
+      const response = await this.post(this.buildRequest(messages, options, true), controller.signal);
+      let content = '';
+      let model = this.config.model;
+      let finishReason: string | undefined;
+      let usage: OpenAIUsage | undefined;
+
+      for await (const data of this.readServerSentEvents(response.body!)) {
+        const chunk = JSON.parse(data) as OpenAIChatChunk;
+        const delta = chunk.choices[0]?.delta.content || '';
+
+        model = chunk.model || model;
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.usage || usage;
+        content += delta;
+
+        if (delta) yield { delta };
+      }
+
+      yield {
+        delta: '',
+        response: {
+          content,
+          model,
+          provider: 'openai',
+          usage: this.toUsage(usage),
+          finishReason,
+          latencyMs: Math.round(performance.now() - start),
+        },
+      };
+    } finally {
+      clear();
+    }
+  }
+
+  private buildRequest(
+    messages: ChatMessage[],
+    options: LLMRequestOptions | undefined,
+    stream: boolean
+  ): OpenAIChatRequest {
+    return {
+      model: this.config.model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens ?? 2048,
+      top_p: options?.topP,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined,
+      response_format: this.buildResponseFormat(options?.responseFormat),
+    };
+  }
+
+  private async post(request: OpenAIChatRequest, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMProviderError(
+        `OpenAI API error: ${response.status} - ${JSON.stringify(errorData)}`,
+        'openai',
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private toUsage(usage?: OpenAIUsage): LLMResponse['usage'] {
+    const promptTokens = usage?.prompt_tokens || 0;
+    const completionTokens = usage?.completion_tokens || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Structured output when a schema is given, plain JSON mode otherwise
+   */
+  private buildResponseFormat(format?: LLMResponseFormat): OpenAIChatRequest['response_format'] {
+    if (!format) return undefined;
+    if (!format.schema) return { type: 'json_object' };
+
+    return {
+      type: 'json_schema',
+      // Non-strict: strict mode requires every property to be listed as required
+      json_schema: { name: format.name || 'response', schema: format.schema, strict: false },
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * LLM Response Cache
+ *
+ * Single Responsibility: Reuse LLM answers for identical calls
+ * - Keys hash provider, model, input (messages or prompt) and the options that shape the answer
+ * - In-memory LRU in front of an on-disk store: DATA_DIR/llm-cache/<scope>/<key>.json
+ * - Entries are grouped by scope (scenario) so a scenario's answers are invalidated together
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import {
+  ILLMResponseCache,
+  LLMCacheEntry,
+  LLMCacheStats,
+  LLMProviderType,
+  LLMRequestOptions,
+  LLMResponse,
+} from '../types/index.js';
+
+export interface LLMResponseCacheOptions {
+  enabled?: boolean;
+  persist?: boolean; // Write entries to disk (default true)
+  maxMemoryEntries?: number;
+  ttlMs?: number; // 0 = never expires
+}
+
+const UNSCOPED_DIR = '_unscoped';
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Cache key of a call
+ * Options that do not change the answer (timeout, signal, usage tags) are left out
+ */
+export function buildCacheKey(
+  provider: LLMProviderType,
+  model: string,
+  input: unknown,
+  options?: LLMRequestOptions
+): string {
+  return sha256(
+    JSON.stringify({
+      provider,
+      model,
+      input,
+      temperature: options?.temperature,
+      maxTokens: options?.maxTokens,
+      topP: options?.topP,
+      responseFormat: options?.responseFormat,
+    })
+  );
+}
+
+export class LLMResponseCache implements ILLMResponseCache {
+  private memory: Map<string, LLMCacheEntry> = new Map(); // Insertion order = least recently used first
+  private stats = { hits: 0, memoryHits: 0, diskHits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  private readonly enabled: boolean;
+  private readonly persist: boolean;
+  private readonly maxMemoryEntries: number;
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly baseDir: string,
+    options: LLMResponseCacheOptions = {}
+  ) {
+    this.enabled = options.enabled ?? true;
+    this.persist = options.persist ?? true;
+    this.maxMemoryEntries = options.maxMemoryEntries ?? 500;
+    this.ttlMs = options.ttlMs ?? 0;
+  }
+
+  // ============================================
+  // Lookup & Store (ILLMResponseCache)
+  // ============================================
+
+  async get(key: string, scope?: string): Promise<LLMResponse | null> {
+    if (!this.enabled) return null;
+
+    const id = this.entryId(key, scope);
+    let entry = this.memory.get(id);
+    const fromMemory = !!entry;
+
+    if (!entry && this.persist) {
+      entry = (await this.readEntry(key, scope)) || undefined;
+    }
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) await this.remove(key, scope);
+      this.stats.misses++;
+      return null;
+    }
+
+    this.remember(id, entry);
+    this.stats.hits++;
+    if (fromMemory) this.stats.memoryHits++;
+    else this.stats.diskHits++;
+
+    return entry.response;
+  }
+
+  async set(key: string, response: LLMResponse, scope?: string): Promise<void> {
+    if (!this.enabled) return;
+
+    // Failover details describe the original call, not later reuses
+    const { fallback: _fallback, cached: _cached, ...stored } = response;
+    const entry: LLMCacheEntry = { key, scope, response: stored, createdAt: new Date() };
+
+    this.remember(this.entryId(key, scope), entry);
+    this.stats.writes++;
+
+    if (this.persist) {
+      await fs.mkdir(this.scopeDir(scope), { recursive: true });
+      await fs.writeFile(this.file(key, scope), JSON.stringify(entry), 'utf-8');
+    }
+  }
+
+  // ============================================
+  // Invalidation
+  // ============================================
+
+  async invalidateScope(scope: string): Promise<number> {
+    const prefix = `${this.scopeDirName(scope)}/`;
+    let removed = 0;
+
+    for (const id of [...this.memory.keys()]) {
+      if (id.startsWith(prefix)) {
+        this.memory.delete(id);
+        removed++;
+      }
+    }
+
+    if (!this.persist) return removed;
+
+    const onDisk = await this.countFiles(this.scopeDir(scope));
+    await fs.rm(this.scopeDir(scope), { recursive: true, force: true });
+
+    console.log(`[ResponseCache] Invalidated ${onDisk} entries for scenario "${scope.slice(0, 60)}"`);
+    return Math.max(removed, onDisk);
+  }
+
+  async clear(): Promise<number> {
+    let removed = this.memory.size;
+    this.memory.clear();
+
+    if (this.persist) {
+      let onDisk = 0;
+      for (const dir of await this.listDirs()) {
+        onDisk += await this.countFiles(path.join(this.baseDir, dir));
+      }
+      await fs.rm(this.baseDir, { recursive: true, force: true });
+      removed = Math.max(removed, onDisk);
+    }
+
+    console.log(`[ResponseCache] Cleared ${removed} entries`);
+    return removed;
+  }
+
+  getStats(): LLMCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      enabled: this.enabled,
+      ...this.stats,
+      hitRate: lookups ? Math.round((this.stats.hits / lookups) * 1000) / 1000 : 0,
+      memoryEntries: this.memory.size,
+      maxMemoryEntries: this.maxMemoryEntries,
+    };
+  }
+
+  // ============================================
+  // Memory (LRU)
+  // ============================================
+
+  private remember(id: string, entry: LLMCacheEntry): void {
+    this.memory.delete(id);
+    this.memory.set(id, entry);
+
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+      this.stats.evictions++;
+    }
+  }
+
+  private isExpired(entry: LLMCacheEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - entry.createdAt.getTime() > this.ttlMs;
+  }
+
+  private entryId(key: string, scope?: string): string {
+    return `${this.scopeDirName(scope)}/${key}`;
+  }
+
+  // ============================================
+  // Files
+  // ============================================
+
+  private scopeDirName(scope?: string): string {
+    return scope ? sha256(scope).slice(0, 16) : UNSCOPED_DIR;
+  }
+
+  private scopeDir(scope?: string): string {
+    return path.join(this.baseDir, this.scopeDirName(scope));
+  }
+
+  private file(key: string, scope?: string): string {
+    return path.join(this.scopeDir(scope), `${key}.json`);
+  }
+
+  private async readEntry(key: string, scope?: string): Promise<LLMCacheEntry | null> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.file(key, scope), 'utf-8'));
+      return { ...raw, createdAt: new Date(raw.createdAt) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async remove(key: string, scope?: string): Promise<void> {
+    this.memory.delete(this.entryId(key, scope));
+    if (this.persist) {
+      await fs.rm(this.file(key, scope), { force: true });
+    }
+  }
+
+  private async listDirs(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.baseDir);
+    } catch {
+      return [];
+    }
+  }
+
+  private async countFiles(dir: string): Promise<number> {
+    try {
+      return (await fs.readdir(dir)).filter((name) => name.endsWith('.json')).length;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+// Factory
+export function createLLMResponseCache(baseDir: string, options?: LLMResponseCacheOptions): LLMResponseCache {
+  return new LLMResponseCache(baseDir, options);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const llmResponseCache = createLLMResponseCache(path.join(config.storage.dataDir, 'llm-cache'), config.llm.cache);
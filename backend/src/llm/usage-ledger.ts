@@ -0,0 +1,285 @@
+/**
+ * LLM Usage Ledger
+ *
+ * Single Responsibility: Record tokens and estimated cost of every LLM call
+ * - One JSONL file per calendar month (UTC): DATA_DIR/llm-usage/<yyyy-mm>.jsonl
+ * - The current month is kept in memory for budget checks
+ * - Reports roll entries up by day, provider and feature
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import {
+  ILLMUsageLedger,
+  LLMBudgetScope,
+  LLMBudgetStatus,
+  LLMModelPrice,
+  LLMProviderType,
+  LLMUsageEntry,
+  LLMUsageQuery,
+  LLMUsageReport,
+  LLMUsageTotals,
+} from '../types/index.js';
+import { estimateCost, findModelPrice } from './pricing.js';
+
+export interface LLMUsageLedgerOptions {
+  pricing?: Record<string, LLMModelPrice>;
+  monthlyBudgets?: Partial<Record<LLMBudgetScope, number>>;
+}
+
+const monthOf = (date: Date): string => date.toISOString().slice(0, 7);
+
+export class LLMUsageLedger implements ILLMUsageLedger {
+  private currentMonth: string | null = null;
+  private currentEntries: LLMUsageEntry[] = [];
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly baseDir: string,
+    private readonly options: LLMUsageLedgerOptions = {}
+  ) {}
+
+  // ============================================
+  // Recording (ILLMUsageLedger)
+  // ============================================
+
+  async record(call: Omit<LLMUsageEntry, 'costUsd' | 'priced'>): Promise<LLMUsageEntry> {
+    const price = findModelPrice(call.provider, call.model, this.options.pricing);
+    const entry: LLMUsageEntry = {
+      ...call,
+      costUsd: price ? estimateCost(price, call.promptTokens, call.completionTokens) : 0,
+      priced: !!price,
+    };
+
+    const month = monthOf(entry.timestamp);
+    await this.loadCurrentMonth(month);
+    this.currentEntries.push(entry);
+
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.appendFile(this.file(month), `${JSON.stringify(entry)}\n`, 'utf-8');
+
+    return entry;
+  }
+
+  async exceededBudget(provider: LLMProviderType): Promise<LLMBudgetStatus | null> {
+    const statuses = await this.budgetStatuses();
+    return (
+      statuses.find((s) => s.exceeded && s.scope === 'total') ||
+      statuses.find((s) => s.exceeded && s.scope === provider) ||
+      null
+    );
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Entries in a time range (default: the current month so far)
+   */
+  async query(query: LLMUsageQuery = {}): Promise<LLMUsageEntry[]> {
+    const now = new Date();
+    const from = query.from || new Date(`${monthOf(now)}-01T00:00:00.000Z`);
+    const to = query.to || now;
+    const entries: LLMUsageEntry[] = [];
+
+    for (const month of this.monthsBetween(from, to)) {
+      entries.push(...(await this.readMonth(month)));
+    }
+
+    return entries.filter(
+      (e) =>
+        e.timestamp >= from &&
+        e.timestamp <= to &&
+        (!query.provider || e.provider === query.provider) &&
+        (!query.feature || e.feature === query.feature) &&
+        (!query.runId || e.runId === query.runId) &&
+        (!query.sessionId || e.sessionId === query.sessionId)
+    );
+  }
+
+  async summarize(query: LLMUsageQuery = {}): Promise<LLMUsageTotals> {
+    return this.totals(await this.query(query));
+  }
+
+  /**
+   * Usage rolled up by day, provider and feature, with current budget status
+   */
+  async report(query: LLMUsageQuery = {}): Promise<LLMUsageReport> {
+    const now = new Date();
+    const from = query.from || new Date(`${monthOf(now)}-01T00:00:00.000Z`);
+    const to = query.to || now;
+    const entries = await this.query({ ...query, from, to });
+
+    const byDay = this.groupBy(entries, (e) => e.timestamp.toISOString().slice(0, 10));
+    const byProvider = this.groupBy(entries, (e) => e.provider);
+    const byFeature = this.groupBy(entries, (e) => e.feature || 'untagged');
+
+    return {
+      from,
+      to,
+      totals: this.totals(entries),
+      byDay: [...byDay].sort(([a], [b]) => a.localeCompare(b)).map(([date, group]) => ({
+        date,
+        ...this.totals(group),
+      })),
+      byProvider: [...byProvider].map(([provider, group]) => ({
+        provider: provider as LLMProviderType,
+        models: [...new Set(group.map((e) => e.model))],
+        ...this.totals(group),
+      })),
+      byFeature: [...byFeature].map(([feature, group]) => ({
+        feature: feature as LLMUsageReport['byFeature'][number]['feature'],
+        ...this.totals(group),
+      })),
+      budgets: await this.budgetStatuses(),
+    };
+  }
+
+  /**
+   * Spend against each configured monthly budget
+   */
+  async budgetStatuses(): Promise<LLMBudgetStatus[]> {
+    const budgets = Object.entries(this.options.monthlyBudgets || {}) as [LLMBudgetScope, number][];
+    if (budgets.length === 0) return [];
+
+    const month = monthOf(new Date());
+    await this.loadCurrentMonth(month);
+
+    return budgets.map(([scope, limitUsd]) => {
+      const spentUsd = this.currentEntries
+        .filter((e) => scope === 'total' || e.provider === scope)
+        .reduce((sum, e) => sum + e.costUsd, 0);
+
+      return {
+        scope,
+        month,
+        limitUsd,
+        spentUsd: this.round(spentUsd),
+        remainingUsd: this.round(Math.max(0, limitUsd - spentUsd)),
+        exceeded: spentUsd >= limitUsd,
+      };
+    });
+  }
+
+  // ============================================
+  // Aggregation
+  // ============================================
+
+  private totals(entries: LLMUsageEntry[]): LLMUsageTotals {
+    const totals: LLMUsageTotals = {
+      calls: entries.length,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      latencyMs: 0,
+      unpricedCalls: 0,
+    };
+
+    for (const entry of entries) {
+      totals.promptTokens += entry.promptTokens;
+      totals.completionTokens += entry.completionTokens;
+      totals.totalTokens += entry.totalTokens;
+      totals.costUsd += entry.costUsd;
+      totals.latencyMs += entry.latencyMs;
+      if (!entry.priced) totals.unpricedCalls++;
+    }
+
+    totals.costUsd = this.round(totals.costUsd);
+    return totals;
+  }
+
+  private groupBy(entries: LLMUsageEntry[], key: (entry: LLMUsageEntry) => string): Map<string, LLMUsageEntry[]> {
+    const groups = new Map<string, LLMUsageEntry[]>();
+    for (const entry of entries) {
+      const k = key(entry);
+      groups.set(k, [...(groups.get(k) || []), entry]);
+    }
+    return groups;
+  }
+
+  // Sub-cent precision - single calls often cost fractions of a cent
+  private round(usd: number): number {
+    return Math.round(usd * 1_000_000) / 1_000_000;
+  }
+
+  // ============================================
+  // Files
+  // ============================================
+
+  private file(month: string): string {
+    return path.join(this.baseDir, `${month}.jsonl`);
+  }
+
+  /**
+   * Keep the current month in memory (reloaded when the month changes)
+   */
+  private async loadCurrentMonth(month: string): Promise<void> {
+    if (this.currentMonth === month) return;
+
+    this.loading ??= (async () => {
+      this.currentEntries = await this.readFile(month);
+      this.currentMonth = month;
+    })().finally(() => {
+      this.loading = null;
+    });
+
+    await this.loading;
+  }
+
+  private async readMonth(month: string): Promise<LLMUsageEntry[]> {
+    if (month === monthOf(new Date())) {
+      await this.loadCurrentMonth(month);
+      return this.currentEntries;
+    }
+    return this.readFile(month);
+  }
+
+  private async readFile(month: string): Promise<LLMUsageEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file(month), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: LLMUsageEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        entries.push({ ...raw, timestamp: new Date(raw.timestamp) });
+      } catch {
+        console.warn(`[UsageLedger] Skipping malformed line in ${month}.jsonl`);
+      }
+    }
+    return entries;
+  }
+
+  private monthsBetween(from: Date, to: Date): string[] {
+    const months: string[] = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+
+    while (cursor <= to) {
+      months.push(monthOf(cursor));
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return months;
+  }
+}
+
+// Factory
+export function createLLMUsageLedger(baseDir: string, options?: LLMUsageLedgerOptions): LLMUsageLedger {
+  return new LLMUsageLedger(baseDir, options);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const llmUsageLedger = createLLMUsageLedger(path.join(config.storage.dataDir, 'llm-usage'), {
+  pricing: config.llm.usage.pricing || {},
+  monthlyBudgets: config.llm.usage.monthlyBudgets,
+});
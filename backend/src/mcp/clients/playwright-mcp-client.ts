@@ -9,14 +9,19 @@
 
 import { createConnection } from "@playwright/mcp";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { BaseMCPClient } from "./base-mcp-client.js";
 import {
   MCPClientConfig,
   MCPExecutionRequest,
   MCPExecutionResponse,
+  BrowserEmulation,
 } from "../../types/index.js";
+import { getMCPConfig } from "../../config/index.js";
 import { StepExecutorService } from "../../services/step-executor.service.js";
 import { MCPToolExecutorService } from "../../services/mcp-tool-executor.service.js";
+import { buildContextOptions, pickEmulation } from "../../services/browser-emulation.js";
+import { authProfiles } from "../../services/auth-profile.service.js";
 
 export class PlaywrightMCPClient extends BaseMCPClient {
   private mcpConnection: any = null;
@@ -24,6 +29,7 @@ export class PlaywrightMCPClient extends BaseMCPClient {
   private fallbackExecutor: StepExecutorService;
   private mcpToolExecutor: MCPToolExecutorService;
   private useFallback: boolean = false;
+  private connectionKey: string = "{}"; // Emulation and auth profile the MCP server was started with
 
   constructor(config?: Partial<MCPClientConfig>) {
     const defaultConfig: MCPClientConfig = {
@@ -44,21 +50,33 @@ export class PlaywrightMCPClient extends BaseMCPClient {
 
   /**
    * Connect to Playwright MCP server using official package
+   *
+   * @param emulation - Device/viewport/locale/... for the MCP browser context
+   * @param authProfile - Start from this profile's storage state (isolated context)
    */
-  async connect(): Promise<boolean> {
+  async connect(emulation: BrowserEmulation = {}, authProfile?: string): Promise<boolean> {
     try {
       console.log("[PlaywrightMCP] Connecting to official MCP server...");
 
       // Try to create MCP connection using official package
       try {
         // Create an in-process MCP connection with visible browser
+        const storageState = authProfile
+          ? await authProfiles.loadStorageState(authProfile)
+          : undefined;
+        const { browser } = getMCPConfig({ ...buildContextOptions(emulation), storageState });
+
         this.mcpConnection = await createConnection({
           browser: {
+            isolated: browser?.isolated,
+            userDataDir: browser?.userDataDir,
             launchOptions: {
               headless: false, // Set to false to see the browser
             },
+            contextOptions: browser?.contextOptions,
           },
         });
+        this.connectionKey = JSON.stringify({ emulation, authProfile });
 
         // Create MCP client for tool calls
         this.mcpClient = new Client(
@@ -71,6 +89,12 @@ export class PlaywrightMCPClient extends BaseMCPClient {
           }
         );
 
+        // Link client and in-process server
+        const [clientTransport, serverTransport] =
+          InMemoryTransport.createLinkedPair();
+        await this.mcpConnection.connect(serverTransport);
+        await this.mcpClient.connect(clientTransport);
+
         this.connected = true;
         this.useFallback = false;
         console.log("[PlaywrightMCP] Connected to official MCP server");
@@ -80,6 +104,8 @@ export class PlaywrightMCPClient extends BaseMCPClient {
           "[PlaywrightMCP] Official MCP not available, using fallback:",
           mcpError
         );
+        this.mcpClient = null;
+        this.mcpConnection = null;
         this.useFallback = true;
         this.connected = true;
         return true;
@@ -106,6 +132,14 @@ export class PlaywrightMCPClient extends BaseMCPClient {
       this.mcpClient = null;
     }
 
+    if (this.mcpConnection) {
+      try {
+        await this.mcpConnection.close();
+      } catch (error) {
+        console.warn("[PlaywrightMCP] Error closing MCP server:", error);
+      }
+    }
+
     this.mcpConnection = null;
     this.connected = false;
   }
@@ -123,14 +157,23 @@ export class PlaywrightMCPClient extends BaseMCPClient {
   async executeSteps(
     request: MCPExecutionRequest
   ): Promise<MCPExecutionResponse> {
+    // Context options are fixed per MCP server, so a different emulation or profile
+    // needs a new one (profiles also restart so a re-captured state is picked up)
+    const emulation = pickEmulation(request.options);
+    const key = JSON.stringify({ emulation, authProfile: request.authProfile });
+    if (this.connected && !this.useFallback && (key !== this.connectionKey || request.authProfile)) {
+      console.log("[PlaywrightMCP] Browser context changed, restarting MCP server...");
+      await this.disconnect();
+    }
+
     if (!this.connected) {
-      await this.connect();
+      await this.connect(emulation, request.authProfile);
     }
 
     console.log("[PlaywrightMCP] Executing steps via MCP protocol...");
 
     // If MCP is not available or we're using fallback, use direct execution
-    if (this.useFallback || !this.mcpConnection) {
+    if (this.useFallback || !this.mcpClient) {
       console.log("[PlaywrightMCP] Using fallback executor");
       return await this.executeFallback(request);
     }
@@ -162,12 +205,14 @@ export class PlaywrightMCPClient extends BaseMCPClient {
   private async executeViaMCP(request: MCPExecutionRequest): Promise<any> {
     const startedAt = new Date();
     let overallStatus: "passed" | "failed" | "error" = "passed";
+    const client = this.mcpClient!;
 
     try {
       // Execute all steps using MCP tool executor
       const results = await this.mcpToolExecutor.executeSteps(
         request.steps,
-        this.mcpConnection
+        client,
+        request.options
       );
 
       // Determine overall status
@@ -193,6 +238,19 @@ export class PlaywrightMCPClient extends BaseMCPClient {
         completedAt: new Date(),
         error: error instanceof Error ? error.message : String(error),
       };
+    } finally {
+      await this.closeBrowser(client);
+    }
+  }
+
+  /**
+   * Close the MCP-managed browser so each run starts from a clean page
+   */
+  private async closeBrowser(client: Client): Promise<void> {
+    try {
+      await client.callTool({ name: "browser_close", arguments: {} });
+    } catch (error) {
+      console.warn("[PlaywrightMCP] Error closing browser:", error);
     }
   }
 
@@ -204,6 +262,7 @@ export class PlaywrightMCPClient extends BaseMCPClient {
   ): Promise<MCPExecutionResponse> {
     const result = await this.fallbackExecutor.execute({
       steps: request.steps,
+      authProfile: request.authProfile,
       options: request.options,
     });
 
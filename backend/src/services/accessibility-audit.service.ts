@@ -0,0 +1,137 @@
+/**
+ * Accessibility Audit Service
+ *
+ * Single Responsibility: Run axe-core WCAG rules against a live page
+ * - Injects the axe-core engine into the page on first use
+ * - Selects rules by tag (default WCAG 2.1 A/AA) or explicit rule ids
+ * - Marks violations at or above the step's severity threshold as failing
+ */
+
+import axe from 'axe-core';
+import type { AxeResults, RunOptions } from 'axe-core';
+import type { Page } from '@playwright/test';
+import {
+  AccessibilityCheckOptions,
+  AccessibilityImpact,
+  AccessibilityReport,
+  AccessibilityViolation,
+} from '../types/index.js';
+
+export const DEFAULT_ACCESSIBILITY_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+export const DEFAULT_MIN_IMPACT: AccessibilityImpact = 'serious';
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// Keeps results readable when a rule matches many elements
+const MAX_NODES_PER_VIOLATION = 20;
+const MAX_HTML_LENGTH = 300;
+
+/**
+ * What audit() uses of the page's global scope once axe-core is injected
+ */
+interface AxePageScope {
+  axe: { run(context: unknown, options: RunOptions): Promise<AxeResults> };
+  document: unknown;
+}
+
+/**
+ * Thrown by an expectAccessible step with violations at or above its threshold
+ */
+export class AccessibilityViolationError extends Error {
+  constructor(readonly report: AccessibilityReport) {
+    const failing = report.violations.filter((v) => v.failing);
+    const rules = failing
+      .map((v) => `${v.ruleId} (${v.nodes.length} element${v.nodes.length === 1 ? '' : 's'})`)
+      .join(', ');
+
+    super(`expectAccessible: ${failing.length} violation(s) at or above "${report.minImpact}": ${rules}`);
+    this.name = 'AccessibilityViolationError';
+  }
+}
+
+export class AccessibilityAuditService {
+  /**
+   * Audit the page, or only the element matching `include`
+   */
+  async audit(
+    page: Page,
+    options: AccessibilityCheckOptions = {},
+    include?: string
+  ): Promise<AccessibilityReport> {
+    const minImpact = options.minImpact || DEFAULT_MIN_IMPACT;
+    const tags = options.tags?.length ? options.tags : DEFAULT_ACCESSIBILITY_TAGS;
+
+    await this.injectEngine(page);
+
+    const runOptions: RunOptions = {
+      runOnly: options.includeRules?.length
+        ? { type: 'rule', values: options.includeRules }
+        : { type: 'tag', values: tags },
+      rules: Object.fromEntries((options.excludeRules || []).map((id) => [id, { enabled: false }])),
+      resultTypes: ['violations'],
+    };
+
+    // Runs in the browser - no DOM lib types on this side
+    const results = await page.evaluate(
+      ({ include, runOptions }) => {
+        const scope = globalThis as unknown as AxePageScope;
+        return scope.axe.run(include ? { include: [[include]] } : scope.document, runOptions);
+      },
+      { include, runOptions }
+    );
+
+    const violations = results.violations
+      .map((result): AccessibilityViolation => {
+        const impact = (result.impact || undefined) as AccessibilityImpact | undefined;
+        return {
+          ruleId: result.id,
+          impact,
+          description: result.description,
+          help: result.help,
+          helpUrl: result.helpUrl,
+          tags: result.tags,
+          failing: this.rank(impact) >= this.rank(minImpact),
+          nodes: result.nodes.slice(0, MAX_NODES_PER_VIOLATION).map((node) => ({
+            target: node.target.map(String).join(' '),
+            html: node.html.length > MAX_HTML_LENGTH ? `${node.html.slice(0, MAX_HTML_LENGTH)}...` : node.html,
+            failureSummary: node.failureSummary,
+          })),
+        };
+      })
+      .sort((a, b) => this.rank(b.impact) - this.rank(a.impact));
+
+    return {
+      url: results.url,
+      engine: `axe-core ${results.testEngine.version}`,
+      tags: options.includeRules?.length ? [] : tags,
+      minImpact,
+      violations,
+      failingCount: violations.filter((v) => v.failing).length,
+      passedRules: results.passes.length,
+      incompleteRules: results.incomplete.length,
+      checkedAt: new Date(),
+    };
+  }
+
+  private async injectEngine(page: Page): Promise<void> {
+    const loaded = await page.evaluate('typeof window.axe !== "undefined"');
+    if (!loaded) {
+      await page.evaluate(axe.source);
+    }
+  }
+
+  private rank(impact?: AccessibilityImpact): number {
+    return impact ? IMPACT_ORDER.indexOf(impact) : -1;
+  }
+}
+
+// Factory
+export function createAccessibilityAuditService(): AccessibilityAuditService {
+  return new AccessibilityAuditService();
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const accessibilityAuditor = createAccessibilityAuditService();
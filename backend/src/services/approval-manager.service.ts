@@ -2,7 +2,13 @@
  * ApprovalManager Service - Manages step-by-step approval state
  * Handles approval requests, responses, and timeouts for human-in-loop testing
  */
-import { StepApprovalResponse, SnapshotApprovalResponse, ApprovalState } from '../types/index.js';
+import {
+  StepApprovalResponse,
+  SnapshotApprovalResponse,
+  ApprovalState,
+  StepEdit,
+  TestStep,
+} from '../types/index.js';
 
 export class ApprovalManagerService {
   private approvalState: ApprovalState = {
@@ -75,6 +81,73 @@ export class ApprovalManagerService {
     return true;
   }
 
+  // ============================================
+  // Step Edits
+  // Each edit answers the session's pending approval; the test loop applies it to the plan
+  // ============================================
+
+  /**
+   * Insert steps before a step
+   * @returns true if an approval was pending for the session
+   */
+  insertBefore(sessionId: string, stepIndex: number, steps: TestStep[]): boolean {
+    return this.respondWithEdit(sessionId, { action: 'insert_before', stepIndex, steps });
+  }
+
+  /**
+   * Insert steps after a step
+   * @returns true if an approval was pending for the session
+   */
+  insertAfter(sessionId: string, stepIndex: number, steps: TestStep[]): boolean {
+    return this.respondWithEdit(sessionId, { action: 'insert_after', stepIndex, steps });
+  }
+
+  /**
+   * Skip the pending step or drop an upcoming one
+   * @returns true if an approval was pending for the session
+   */
+  skip(sessionId: string, stepIndex: number): boolean {
+    return this.respondWithEdit(sessionId, { action: 'skip', stepIndex });
+  }
+
+  /**
+   * Run an executed step again
+   * @returns true if an approval was pending for the session
+   */
+  retryStep(sessionId: string, stepIndex: number): boolean {
+    return this.respondWithEdit(sessionId, { action: 'retry', stepIndex });
+  }
+
+  /**
+   * Continue from an executed step
+   * @returns true if an approval was pending for the session
+   */
+  rewind(sessionId: string, stepIndex: number): boolean {
+    return this.respondWithEdit(sessionId, { action: 'rewind', stepIndex });
+  }
+
+  /**
+   * Index of the step awaiting approval in a session
+   * @returns null when nothing is pending
+   */
+  getPendingStepIndex(sessionId: string): number | null {
+    for (const key of this.approvalState.pending.keys()) {
+      if (key.startsWith(`${sessionId}:`)) {
+        return Number(key.slice(sessionId.length + 1));
+      }
+    }
+    return null;
+  }
+
+  private respondWithEdit(sessionId: string, edit: StepEdit): boolean {
+    const stepIndex = this.getPendingStepIndex(sessionId);
+    if (stepIndex === null) {
+      return false;
+    }
+
+    return this.respondToApproval({ sessionId, stepIndex, approved: false, edit });
+  }
+
   /**
    * Request approval for a snapshot
    * @param sessionId - Session identifier
@@ -0,0 +1,224 @@
+/**
+ * Artifact Store Service
+ *
+ * Single Responsibility: Record and serve per-execution debugging artifacts
+ * - One directory per execution: DATA_DIR/artifacts/<execution id>
+ * - ArtifactRecorder wires trace, video, HAR and console capture into a browser context
+ * - Files are listed and served by name; nothing outside a run directory is reachable
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrowserContext, BrowserContextOptions, ConsoleMessage, Page } from '@playwright/test';
+import { config } from '../config/index.js';
+import { ArtifactType, RunArtifact, RunArtifacts } from '../types/index.js';
+
+const RUN_ID_PATTERN = /^[\w-]+$/;
+const FILE_NAME_PATTERN = /^[\w-]+\.[\w.]+$/;
+
+const TRACE_FILE = 'trace.zip';
+const HAR_FILE = 'network.har';
+const CONSOLE_FILE = 'console.log';
+
+const FILE_TYPES: { pattern: RegExp; type: ArtifactType; contentType: string }[] = [
+  { pattern: /\.zip$/, type: 'trace', contentType: 'application/zip' },
+  { pattern: /\.webm$/, type: 'video', contentType: 'video/webm' },
+  { pattern: /\.har$/, type: 'har', contentType: 'application/json' },
+  { pattern: /\.log$/, type: 'console', contentType: 'text/plain; charset=utf-8' },
+];
+
+// ============================================
+// Recorder
+// ============================================
+
+/**
+ * Records one browser context into a run directory
+ * Call contextOptions() before creating the context, attach() after,
+ * beforeClose() before context.close() and finish() after it
+ */
+export class ArtifactRecorder {
+  private readonly consoleLines: string[] = [];
+  private readonly pages: Page[] = [];
+
+  /**
+   * @param mask - Applied to console lines (e.g. to hide filled-in secrets)
+   */
+  constructor(
+    readonly runId: string,
+    private readonly dir: string,
+    private readonly types: ArtifactType[],
+    private readonly mask: (text: string) => string = (text) => text
+  ) {}
+
+  /**
+   * Video and HAR are configured when the context is created
+   */
+  contextOptions(): Pick<BrowserContextOptions, 'recordVideo' | 'recordHar'> {
+    return {
+      recordVideo: this.types.includes('video') ? { dir: this.dir } : undefined,
+      recordHar: this.types.includes('har')
+        ? { path: path.join(this.dir, HAR_FILE), content: 'embed' }
+        : undefined,
+    };
+  }
+
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.types.includes('trace')) {
+      await context.tracing.start({ screenshots: true, snapshots: true, sources: false });
+    }
+
+    const watch = (page: Page) => {
+      this.pages.push(page);
+      if (!this.types.includes('console')) return;
+
+      page.on('console', (message) => this.logConsole(message));
+      page.on('pageerror', (error) => this.log('pageerror', error.message));
+    };
+
+    context.pages().forEach(watch);
+    context.on('page', watch);
+  }
+
+  /**
+   * Flush what has to be written while the context is still open
+   */
+  async beforeClose(context: BrowserContext): Promise<void> {
+    if (this.types.includes('trace')) {
+      await context.tracing.stop({ path: path.join(this.dir, TRACE_FILE) }).catch((error) => {
+        console.error('[ArtifactStore] Failed to save trace:', error);
+      });
+    }
+
+    if (this.types.includes('console')) {
+      await fs.writeFile(path.join(this.dir, CONSOLE_FILE), this.consoleLines.join('\n') + '\n', 'utf-8');
+    }
+  }
+
+  /**
+   * Name the videos (only final once the context is closed) and list the run's files
+   * An empty run directory (e.g. the browser never started) is removed
+   */
+  async finish(): Promise<RunArtifacts | undefined> {
+    if (this.types.includes('video')) {
+      let index = 0;
+      for (const page of this.pages) {
+        const video = page.video();
+        if (!video) continue;
+
+        index++;
+        const fileName = index === 1 ? 'video.webm' : `video-${index}.webm`;
+        await fs.rename(await video.path(), path.join(this.dir, fileName)).catch((error) => {
+          console.error('[ArtifactStore] Failed to save video:', error);
+        });
+      }
+    }
+
+    const files = await listFiles(this.dir);
+    if (files.length === 0) {
+      await fs.rm(this.dir, { recursive: true, force: true });
+      return undefined;
+    }
+    return { runId: this.runId, files };
+  }
+
+  private logConsole(message: ConsoleMessage): void {
+    const { url, lineNumber } = message.location();
+    const source = url ? ` (${url}:${lineNumber})` : '';
+    this.log(message.type(), message.text() + source);
+  }
+
+  private log(type: string, text: string): void {
+    this.consoleLines.push(`${new Date().toISOString()} [${type}] ${this.mask(text)}`);
+  }
+}
+
+// ============================================
+// Store
+// ============================================
+
+export class ArtifactStoreService {
+  constructor(private readonly baseDir: string) {}
+
+  static isValidRunId(runId: string): boolean {
+    return RUN_ID_PATTERN.test(runId);
+  }
+
+  /**
+   * Create the run directory and a recorder writing into it
+   */
+  async createRecorder(
+    runId: string,
+    types: ArtifactType[],
+    mask?: (text: string) => string
+  ): Promise<ArtifactRecorder> {
+    const dir = this.runDir(runId);
+    await fs.mkdir(dir, { recursive: true });
+    return new ArtifactRecorder(runId, dir, Array.from(new Set(types)), mask);
+  }
+
+  /**
+   * Files of a run, or null if it has no artifact directory
+   */
+  async list(runId: string): Promise<RunArtifacts | null> {
+    if (!ArtifactStoreService.isValidRunId(runId)) return null;
+
+    try {
+      await fs.access(this.runDir(runId));
+    } catch {
+      return null;
+    }
+    return { runId, files: await listFiles(this.runDir(runId)) };
+  }
+
+  /**
+   * Absolute path and metadata of one file, or null if it does not exist
+   */
+  async resolve(runId: string, fileName: string): Promise<{ path: string; artifact: RunArtifact } | null> {
+    if (!ArtifactStoreService.isValidRunId(runId) || !FILE_NAME_PATTERN.test(fileName)) {
+      return null;
+    }
+
+    const artifacts = await this.list(runId);
+    const artifact = artifacts?.files.find((f) => f.fileName === fileName);
+    return artifact ? { path: path.resolve(this.runDir(runId), fileName), artifact } : null;
+  }
+
+  async delete(runId: string): Promise<boolean> {
+    if (!(await this.list(runId))) return false;
+
+    await fs.rm(this.runDir(runId), { recursive: true, force: true });
+    return true;
+  }
+
+  private runDir(runId: string): string {
+    if (!ArtifactStoreService.isValidRunId(runId)) {
+      throw new Error(`Invalid artifact run id: ${runId}`);
+    }
+    return path.join(this.baseDir, runId);
+  }
+}
+
+async function listFiles(dir: string): Promise<RunArtifact[]> {
+  const files: RunArtifact[] = [];
+
+  for (const fileName of (await fs.readdir(dir)).sort()) {
+    const kind = FILE_TYPES.find((t) => t.pattern.test(fileName));
+    if (!kind) continue; // e.g. a video Playwright is still writing
+
+    const stat = await fs.stat(path.join(dir, fileName));
+    files.push({ type: kind.type, fileName, contentType: kind.contentType, size: stat.size });
+  }
+
+  return files;
+}
+
+// Factory
+export function createArtifactStoreService(baseDir: string): ArtifactStoreService {
+  return new ArtifactStoreService(baseDir);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const artifactStore = createArtifactStoreService(path.join(config.storage.dataDir, 'artifacts'));
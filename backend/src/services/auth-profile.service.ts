@@ -0,0 +1,180 @@
+/**
+ * Auth Profile Service
+ *
+ * Single Responsibility: Manage named login states (Playwright storageState)
+ * - Upload a storage state exported elsewhere, or capture one by running login steps
+ * - Resolve a profile's state when a run starts from it (IAuthStateProvider)
+ * - The API only ever returns metadata, never cookie or localStorage values
+ */
+
+import type { StepExecutorService } from './step-executor.service.js';
+import { authProfileRepository } from '../storage/index.js';
+import {
+  IAuthProfileRepository,
+  IAuthStateProvider,
+  AuthProfile,
+  AuthProfileMetadata,
+  AuthProfileSource,
+  CaptureAuthProfileRequest,
+  StorageState,
+  TestStep,
+} from '../types/index.js';
+
+const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+export class AuthProfileService implements IAuthStateProvider {
+  constructor(private readonly repository: IAuthProfileRepository) {}
+
+  static isValidName(name: string): boolean {
+    return PROFILE_NAME_PATTERN.test(name);
+  }
+
+  // ============================================
+  // Management
+  // ============================================
+
+  async list(): Promise<AuthProfileMetadata[]> {
+    const profiles = await this.repository.list();
+    return profiles.map((p) => this.toMetadata(p));
+  }
+
+  async get(name: string): Promise<AuthProfileMetadata | null> {
+    const profile = await this.repository.findByName(name);
+    return profile && this.toMetadata(profile);
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return (await this.repository.findByName(name)) !== null;
+  }
+
+  /**
+   * Create or replace a profile
+   */
+  async save(
+    name: string,
+    storageState: StorageState,
+    meta: { source: AuthProfileSource; description?: string; capturedFrom?: AuthProfile['capturedFrom'] }
+  ): Promise<AuthProfileMetadata> {
+    if (!AuthProfileService.isValidName(name)) {
+      throw new Error(`Invalid auth profile name: ${name}`);
+    }
+
+    const existing = await this.repository.findByName(name);
+    const now = new Date();
+
+    const saved = await this.repository.save({
+      id: name,
+      description: meta.description ?? existing?.description,
+      source: meta.source,
+      capturedFrom: meta.capturedFrom,
+      storageState: {
+        cookies: storageState.cookies || [],
+        origins: storageState.origins || [],
+      },
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+
+    console.log(
+      `[AuthProfiles] Stored profile ${name} (${meta.source}, ${saved.storageState.cookies.length} cookies)`
+    );
+    return this.toMetadata(saved);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.repository.delete(name);
+  }
+
+  /**
+   * Run login steps in a fresh browser and store the resulting state
+   *
+   * @param executor - Used for this capture only; its browser is closed afterwards
+   * @throws Error if a login step fails
+   */
+  async capture(
+    name: string,
+    executor: StepExecutorService,
+    steps: TestStep[],
+    request: Omit<CaptureAuthProfileRequest, 'steps'>
+  ): Promise<AuthProfileMetadata> {
+    executor.enablePersistentBrowser();
+
+    try {
+      const result = await executor.execute({
+        steps,
+        scenario: `Capture auth profile ${name}`,
+        browser: request.browser,
+        options: { headless: true, ...request.options },
+      });
+
+      if (result.status !== 'passed') {
+        const failed = result.steps.find((s) => s.status === 'failed');
+        throw new Error(
+          failed
+            ? `Login step "${failed.step.description || failed.step.action}" failed: ${failed.error}`
+            : 'Login steps could not be executed (browser did not start?)'
+        );
+      }
+
+      const storageState = await executor.getStorageState();
+      return await this.save(name, storageState, {
+        source: 'capture',
+        description: request.description,
+        capturedFrom: {
+          scenarioId: request.scenarioId,
+          url: executor.getCurrentPage()?.url(),
+        },
+      });
+    } finally {
+      executor.disablePersistentBrowser();
+      await executor.closeBrowser();
+    }
+  }
+
+  // ============================================
+  // Resolution (IAuthStateProvider)
+  // ============================================
+
+  async loadStorageState(name: string): Promise<StorageState> {
+    const profile = await this.repository.findByName(name);
+    if (!profile) {
+      throw new Error(`Auth profile not found: ${name}`);
+    }
+    return profile.storageState;
+  }
+
+  private toMetadata(profile: AuthProfile): AuthProfileMetadata {
+    const { cookies, origins } = profile.storageState;
+
+    const domains = new Set([
+      ...cookies.map((c) => c.domain.replace(/^\./, '')),
+      ...origins.map((o) => o.origin.replace(/^https?:\/\//, '')),
+    ]);
+
+    // Session cookies (expires -1) are not counted - they live as long as the profile
+    const expiries = cookies.map((c) => c.expires).filter((e) => e > 0);
+
+    return {
+      name: profile.id,
+      description: profile.description,
+      source: profile.source,
+      capturedFrom: profile.capturedFrom,
+      domains: Array.from(domains).sort(),
+      cookieCount: cookies.length,
+      expiresAt: expiries.length ? new Date(Math.min(...expiries) * 1000) : undefined,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    };
+  }
+}
+
+// Factory
+export function createAuthProfileService(repository: IAuthProfileRepository): AuthProfileService {
+  return new AuthProfileService(repository);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const authProfiles = createAuthProfileService(authProfileRepository);
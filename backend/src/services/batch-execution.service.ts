@@ -0,0 +1,126 @@
+/**
+ * Batch Execution Service
+ *
+ * Single Responsibility: Run one step list across a browser x viewport matrix
+ * - Expands the matrix into cells (browser-major order)
+ * - Runs cells concurrently on a pool of StepExecutorService workers
+ * - Aggregates per-cell results into one matrix result
+ */
+
+import { StepExecutorService } from './step-executor.service.js';
+import {
+  TestStep,
+  BrowserType,
+  Viewport,
+  BatchExecutionRequest,
+  BatchExecutionResult,
+  BatchCellResult,
+} from '../types/index.js';
+
+export interface BatchExecutionOptions {
+  maxWorkers: number;
+}
+
+interface BatchCell {
+  browser: BrowserType;
+  viewport?: Viewport;
+}
+
+export class BatchExecutionService {
+  /**
+   * @param createExecutor - Called once per worker so each worker drives its own browser
+   */
+  constructor(
+    private readonly createExecutor: () => StepExecutorService,
+    private readonly options: BatchExecutionOptions
+  ) {}
+
+  /**
+   * Execute the steps on every cell of the matrix
+   * Batch runs are headless unless `options.headless` is false
+   */
+  async run(request: BatchExecutionRequest, steps: TestStep[]): Promise<BatchExecutionResult> {
+    const startTime = Date.now();
+    const cells = this.expandMatrix(request);
+    const workerCount = Math.min(request.workers ?? this.options.maxWorkers, this.options.maxWorkers, cells.length);
+    const results: BatchCellResult[] = new Array(cells.length);
+    let nextCell = 0;
+
+    console.log(`[BatchExecution] ${cells.length} cell(s) on ${workerCount} worker(s)`);
+
+    // Each worker takes the next unclaimed cell until none are left
+    const worker = async (executor: StepExecutorService): Promise<void> => {
+      while (nextCell < cells.length) {
+        const index = nextCell++;
+        const cell = cells[index];
+
+        console.log(`[BatchExecution] Cell ${index + 1}/${cells.length}: ${this.describeCell(cell)}`);
+
+        const result = await executor.execute({
+          steps,
+          scenario: request.scenario && `${request.scenario} [${this.describeCell(cell)}]`,
+          browser: cell.browser,
+          authProfile: request.authProfile,
+          options: {
+            ...request.options,
+            headless: request.options?.headless ?? true,
+            viewport: cell.viewport,
+          },
+        });
+
+        results[index] = { ...cell, result };
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: workerCount }, () => worker(this.createExecutor()))
+    );
+
+    const summary = {
+      total: results.length,
+      passed: results.filter((r) => r.result.status === 'passed').length,
+      failed: results.filter((r) => r.result.status === 'failed').length,
+      errored: results.filter((r) => r.result.status === 'error').length,
+    };
+
+    console.log(`[BatchExecution] ${summary.passed}/${summary.total} cells passed`);
+
+    return {
+      id: `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      scenario: request.scenario,
+      steps,
+      cells: results,
+      status: summary.failed > 0 ? 'failed' : summary.errored > 0 ? 'error' : 'passed',
+      summary,
+      workers: workerCount,
+      totalDuration: Date.now() - startTime,
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+    };
+  }
+
+  private expandMatrix(request: BatchExecutionRequest): BatchCell[] {
+    const browsers = Array.from(new Set(request.browsers));
+    const viewports: (Viewport | undefined)[] = request.viewports?.length ? request.viewports : [undefined];
+
+    return browsers.flatMap((browser) => viewports.map((viewport) => ({ browser, viewport })));
+  }
+
+  /**
+   * e.g. "webkit @ mobile (390x844)"
+   */
+  private describeCell(cell: BatchCell): string {
+    if (!cell.viewport) return cell.browser;
+
+    const size = `${cell.viewport.width}x${cell.viewport.height}`;
+    return `${cell.browser} @ ${cell.viewport.name ? `${cell.viewport.name} (${size})` : size}`;
+  }
+}
+
+// Factory
+export function createBatchExecutionService(
+  createExecutor: () => StepExecutorService,
+  options: BatchExecutionOptions
+): BatchExecutionService {
+  return new BatchExecutionService(createExecutor, options);
+}
@@ -0,0 +1,131 @@
+/**
+ * Browser Emulation Helpers
+ *
+ * Single Responsibility: Turn BrowserEmulation options into Playwright context options
+ * - device: a Playwright device descriptor ("iPhone 13", "Pixel 7", ...)
+ * - viewport, locale, timezone, geolocation, colorScheme and permissions override the device
+ *
+ * Shared by the direct executor and the Playwright MCP server config
+ */
+
+import { devices, BrowserContextOptions } from '@playwright/test';
+import { BrowserEmulation, BrowserType, EmulatedDevice } from '../types/index.js';
+
+/**
+ * Viewports narrower than this count as mobile even without a device preset
+ */
+const MOBILE_MAX_WIDTH = 768;
+
+const EMULATION_FIELDS: (keyof BrowserEmulation)[] = [
+  'device',
+  'viewport',
+  'locale',
+  'timezone',
+  'geolocation',
+  'colorScheme',
+  'permissions',
+];
+
+/**
+ * Names of all built-in device descriptors
+ */
+export function listDevices(): string[] {
+  return Object.keys(devices);
+}
+
+export function isKnownDevice(name: string): boolean {
+  const needle = name.trim().toLowerCase();
+  return listDevices().some((d) => d.toLowerCase() === needle);
+}
+
+/**
+ * Check that a device name exists (case-insensitive)
+ * @throws Error naming similar devices when it does not
+ */
+export function resolveDeviceName(name: string): string {
+  const match = listDevices().find((d) => d.toLowerCase() === name.trim().toLowerCase());
+  if (match) return match;
+
+  const family = name.trim().split(/\s+/)[0].toLowerCase();
+  const similar = listDevices().filter((d) => d.toLowerCase().startsWith(family)).slice(0, 5);
+  throw new Error(
+    `Unknown device "${name}"${similar.length ? ` - did you mean ${similar.map((d) => `"${d}"`).join(', ')}?` : ''}`
+  );
+}
+
+/**
+ * Pick the emulation fields out of a wider options object
+ */
+export function pickEmulation(options?: BrowserEmulation): BrowserEmulation {
+  const emulation: BrowserEmulation = {};
+  for (const field of EMULATION_FIELDS) {
+    if (options?.[field] !== undefined) {
+      (emulation as Record<string, unknown>)[field] = options[field];
+    }
+  }
+  return emulation;
+}
+
+/**
+ * Playwright context options for an emulation
+ * @param browserType - Firefox has no mobile mode, so isMobile is dropped there
+ */
+export function buildContextOptions(
+  emulation: BrowserEmulation = {},
+  browserType: BrowserType = 'chromium'
+): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+
+  if (emulation.device) {
+    const { defaultBrowserType: _browser, ...descriptor } = devices[resolveDeviceName(emulation.device)];
+    Object.assign(options, descriptor);
+    if (browserType === 'firefox') {
+      delete options.isMobile;
+    }
+  }
+
+  if (emulation.viewport) {
+    options.viewport = { width: emulation.viewport.width, height: emulation.viewport.height };
+  }
+  if (emulation.locale) {
+    options.locale = emulation.locale;
+  }
+  if (emulation.timezone) {
+    options.timezoneId = emulation.timezone;
+  }
+  if (emulation.colorScheme) {
+    options.colorScheme = emulation.colorScheme;
+  }
+  if (emulation.geolocation) {
+    options.geolocation = emulation.geolocation;
+  }
+
+  // A geolocation is useless without the permission to read it
+  const permissions = new Set(emulation.permissions || []);
+  if (emulation.geolocation) {
+    permissions.add('geolocation');
+  }
+  if (permissions.size > 0) {
+    options.permissions = Array.from(permissions);
+  }
+
+  return options;
+}
+
+/**
+ * Device summary for generator prompts, or undefined without device/viewport emulation
+ */
+export function describeEmulatedDevice(emulation: BrowserEmulation = {}): EmulatedDevice | undefined {
+  if (!emulation.device && !emulation.viewport) return undefined;
+
+  const name = emulation.device ? resolveDeviceName(emulation.device) : undefined;
+  const descriptor = name ? devices[name] : undefined;
+  const viewport = emulation.viewport || descriptor!.viewport;
+
+  return {
+    name,
+    width: viewport.width,
+    height: viewport.height,
+    isMobile: descriptor?.isMobile ?? viewport.width < MOBILE_MAX_WIDTH,
+  };
+}
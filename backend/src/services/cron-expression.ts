@@ -0,0 +1,221 @@
+/**
+ * Cron Expression
+ *
+ * Single Responsibility: Parse 5-field cron expressions and find matching times
+ * - minute hour day-of-month month day-of-week (server local time)
+ * - Supports *, lists (1,15), ranges (1-5), steps (*\/15, 0-30/10) and names (JAN, MON)
+ * - Aliases: @hourly, @daily, @midnight, @weekly, @monthly, @yearly, @annually
+ */
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Index = value
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['', 'JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Give up searching after this many years (e.g. "0 0 30 2 *" never matches)
+const MAX_SEARCH_YEARS = 5;
+
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly dayOfMonthRestricted: boolean,
+    private readonly dayOfWeekRestricted: boolean
+  ) {}
+
+  /**
+   * Parse an expression
+   * @throws Error describing the first invalid field
+   */
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const normalized = ALIASES[source.toLowerCase()] || source;
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== FIELDS.length) {
+      throw new Error(
+        `Cron expression must have ${FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${parts.length}`
+      );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+      CronExpression.parseField(part, FIELDS[i])
+    );
+
+    // Sunday can be written as 0 or 7
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      source,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      // Restricted = not every day; "*/1" or "1-31" behave like "*"
+      daysOfMonth.size < FIELDS[2].max - FIELDS[2].min + 1,
+      daysOfWeek.size < 7 // 0-6 once 7 is folded into 0
+    );
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a time (to the minute) matches the expression
+   */
+  matches(date: Date): boolean {
+    return (
+      this.minutes.has(date.getMinutes()) &&
+      this.hours.has(date.getHours()) &&
+      this.months.has(date.getMonth() + 1) &&
+      this.matchesDay(date)
+    );
+  }
+
+  /**
+   * First matching minute strictly after `from`
+   * @throws Error if nothing matches within MAX_SEARCH_YEARS
+   */
+  next(from: Date = new Date()): Date {
+    const candidate = new Date(from);
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = new Date(from);
+    limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+    // Skip whole months/days/hours that cannot match instead of testing every minute
+    while (candidate < limit) {
+      if (!this.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return candidate;
+    }
+
+    throw new Error(`Cron expression "${this.source}" has no run time in the next ${MAX_SEARCH_YEARS} years`);
+  }
+
+  /**
+   * Standard cron rule: if both day fields are restricted, either may match
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static parseField(part: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of part.split(',')) {
+      const [rangePart, stepPart, ...extra] = item.split('/');
+      if (extra.length > 0 || rangePart === '') {
+        throw new Error(`Invalid ${field.name} field: "${part}"`);
+      }
+
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step in ${field.name} field: "${item}"`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (rangePart === '*') {
+        start = field.min;
+        end = field.max;
+      } else if (rangePart.includes('-')) {
+        const [from, to] = rangePart.split('-');
+        start = CronExpression.parseValue(from, field);
+        end = CronExpression.parseValue(to, field);
+      } else {
+        start = CronExpression.parseValue(rangePart, field);
+        // "5/15" means every 15 starting at 5
+        end = stepPart === undefined ? start : field.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range in ${field.name} field: "${item}"`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(raw: string, field: CronField): number {
+    const nameIndex = raw ? field.names?.indexOf(raw.toUpperCase()) ?? -1 : -1;
+    const value = nameIndex >= 0 ? nameIndex : Number(raw);
+
+    if (raw === '' || !Number.isInteger(value) || value < field.min || value > field.max) {
+      throw new Error(`Invalid ${field.name} value "${raw}" (allowed ${field.min}-${field.max})`);
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Data-Driven Service
+ *
+ * Single Responsibility: Run one step list against a parameter table
+ * - Parses datasets (inline rows, CSV or JSON)
+ * - Fills {{variable}} placeholders per row
+ * - Aggregates per-row execution results
+ *
+ * Execution itself is delegated, so the same flow works for direct and MCP runs
+ */
+
+import {
+  TestStep,
+  TestDataset,
+  DatasetRow,
+  TestExecutionResult,
+  DataDrivenExecutionResult,
+  DataDrivenRowResult,
+} from '../types/index.js';
+import { ValidationError } from '../api/middleware/error-handler.js';
+
+/**
+ * Matches {{name}} but not {{prefix:name}}, so other placeholder kinds pass through
+ */
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type RowExecutor = (
+  steps: TestStep[],
+  row: DatasetRow,
+  rowIndex: number
+) => Promise<TestExecutionResult>;
+
+export class DataDrivenService {
+  /**
+   * Parse a dataset into rows and check every referenced variable has a column
+   * @throws ValidationError if the dataset is empty, malformed or misses a column
+   */
+  prepareRows(steps: TestStep[], dataset: TestDataset): DatasetRow[] {
+    const rows = this.parseDataset(dataset);
+
+    if (rows.length === 0) {
+      throw new ValidationError('Dataset has no rows');
+    }
+
+    const variables = this.findVariables(steps);
+    rows.forEach((row, index) => {
+      const missing = variables.filter((v) => !Object.hasOwn(row, v));
+      if (missing.length > 0) {
+        throw new ValidationError(`Dataset row ${index + 1} is missing: ${missing.join(', ')}`);
+      }
+    });
+
+    return rows;
+  }
+
+  /**
+   * Execute the steps once per row, sequentially
+   */
+  async run(
+    steps: TestStep[],
+    rows: DatasetRow[],
+    executeRow: RowExecutor,
+    meta: { scenario?: string; datasetName?: string } = {}
+  ): Promise<DataDrivenExecutionResult> {
+    const startTime = Date.now();
+    const results: DataDrivenRowResult[] = [];
+
+    for (const [rowIndex, row] of rows.entries()) {
+      console.log(`[DataDriven] Row ${rowIndex + 1}/${rows.length}`);
+
+      const rowSteps = this.interpolateSteps(steps, row);
+      const result = await executeRow(rowSteps, row, rowIndex);
+      results.push({ rowIndex, row, result });
+    }
+
+    const summary = {
+      total: results.length,
+      passed: results.filter((r) => r.result.status === 'passed').length,
+      failed: results.filter((r) => r.result.status === 'failed').length,
+      errored: results.filter((r) => r.result.status === 'error').length,
+    };
+
+    console.log(`[DataDriven] ${summary.passed}/${summary.total} rows passed`);
+
+    return {
+      id: `dd_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      scenario: meta.scenario,
+      datasetName: meta.datasetName,
+      rows: results,
+      status: summary.failed > 0 ? 'failed' : summary.errored > 0 ? 'error' : 'passed',
+      summary,
+      totalDuration: Date.now() - startTime,
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+    };
+  }
+
+  /**
+   * Fill {{variable}} placeholders in target, value and description
+   */
+  interpolateSteps(steps: TestStep[], row: DatasetRow): TestStep[] {
+    return steps.map((step) => ({
+      ...step,
+      target: this.interpolate(step.target, row),
+      value: this.interpolate(step.value, row),
+      description: this.interpolate(step.description, row),
+    }));
+  }
+
+  /**
+   * Variable names referenced by the steps
+   */
+  findVariables(steps: TestStep[]): string[] {
+    const names = new Set<string>();
+
+    for (const step of steps) {
+      for (const text of [step.target, step.value, step.description]) {
+        for (const match of (text || '').matchAll(VARIABLE_PATTERN)) {
+          names.add(match[1]);
+        }
+      }
+    }
+
+    return Array.from(names);
+  }
+
+  // ============================================
+  // Dataset Parsing
+  // ============================================
+
+  parseDataset(dataset: TestDataset): DatasetRow[] {
+    if (dataset.rows) {
+      return dataset.rows.map((row) => this.normalizeRow(row));
+    }
+
+    if (dataset.json !== undefined) {
+      return this.parseJson(dataset.json);
+    }
+
+    if (dataset.csv !== undefined) {
+      return this.parseCsv(dataset.csv);
+    }
+
+    throw new ValidationError('Dataset must provide rows, csv or json');
+  }
+
+  private parseJson(content: string): DatasetRow[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid JSON dataset: ${error instanceof Error ? error.message : 'parse error'}`
+      );
+    }
+
+    if (!Array.isArray(data) || data.some((row) => !row || typeof row !== 'object')) {
+      throw new ValidationError('JSON dataset must be an array of objects');
+    }
+
+    return data.map((row) => this.normalizeRow(row as Record<string, unknown>));
+  }
+
+  /**
+   * RFC 4180 style CSV: quoted fields, "" escapes, CRLF or LF line endings
+   */
+  private parseCsv(content: string): DatasetRow[] {
+    const records = this.parseCsvRecords(content.replace(/^\uFEFF/, ''));
+    if (records.length === 0) {
+      return [];
+    }
+
+    const header = records[0].map((h) => h.trim());
+    if (header.some((h) => !h)) {
+      throw new ValidationError('CSV header contains an empty column name');
+    }
+
+    return records.slice(1).map((fields, index) => {
+      if (fields.length !== header.length) {
+        throw new ValidationError(
+          `CSV line ${index + 2} has ${fields.length} fields, expected ${header.length}`
+        );
+      }
+
+      const row: DatasetRow = {};
+      header.forEach((column, i) => {
+        row[column] = fields[i];
+      });
+      return row;
+    });
+  }
+
+  private parseCsvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        record.push(field);
+        field = '';
+        // Skip blank lines
+        if (record.length > 1 || record[0] !== '') records.push(record);
+        record = [];
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new ValidationError('CSV has an unterminated quoted field');
+    }
+
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+
+    return records;
+  }
+
+  private normalizeRow(row: Record<string, unknown>): DatasetRow {
+    const normalized: DatasetRow = {};
+    for (const [key, value] of Object.entries(row)) {
+      normalized[key] = value === null || value === undefined ? '' : String(value);
+    }
+    return normalized;
+  }
+
+  private interpolate(text: string | undefined, row: DatasetRow): string | undefined {
+    if (text === undefined) return undefined;
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+      Object.hasOwn(row, name) ? row[name] : placeholder
+    );
+  }
+}
+
+// Factory
+export function createDataDrivenService(): DataDrivenService {
+  return new DataDrivenService();
+}
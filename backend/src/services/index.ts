@@ -29,4 +29,87 @@ export {
 export {
   PageInspectionService,
   createPageInspectionService,
-} from './page-inspection.service.js';
\ No newline at end of file
+} from './page-inspection.service.js';
+
+export {
+  ScenarioService,
+  createScenarioService,
+} from './scenario.service.js';
+
+export {
+  RunHistoryService,
+  createRunHistoryService,
+} from './run-history.service.js';
+
+export {
+  PlaywrightExportService,
+  createPlaywrightExportService,
+} from './playwright-export.service.js';
+
+export {
+  DataDrivenService,
+  createDataDrivenService,
+  type RowExecutor,
+} from './data-driven.service.js';
+
+export {
+  SecretVaultService,
+  createSecretVaultService,
+  secretVault,
+} from './secret-vault.service.js';
+
+export {
+  SchedulerService,
+  createSchedulerService,
+  scheduler,
+  type SchedulerOptions,
+} from './scheduler.service.js';
+
+export { CronExpression } from './cron-expression.js';
+
+export {
+  ReportService,
+  createReportService,
+} from './report.service.js';
+
+export {
+  BatchExecutionService,
+  createBatchExecutionService,
+  type BatchExecutionOptions,
+} from './batch-execution.service.js';
+
+export {
+  AuthProfileService,
+  createAuthProfileService,
+  authProfiles,
+} from './auth-profile.service.js';
+
+export {
+  ArtifactStoreService,
+  ArtifactRecorder,
+  createArtifactStoreService,
+  artifactStore,
+} from './artifact-store.service.js';
+
+export {
+  VisualRegressionService,
+  VisualMismatchError,
+  createVisualRegressionService,
+  visualBaselines,
+  DEFAULT_VISUAL_THRESHOLD,
+} from './visual-regression.service.js';
+
+export {
+  AccessibilityAuditService,
+  AccessibilityViolationError,
+  createAccessibilityAuditService,
+  accessibilityAuditor,
+  DEFAULT_ACCESSIBILITY_TAGS,
+  DEFAULT_MIN_IMPACT,
+} from './accessibility-audit.service.js';
+
+export {
+  RecordedTestService,
+  createRecordedTestService,
+  recordedTests,
+} from './recorded-test.service.js';
@@ -3,20 +3,98 @@
  *
  * Single Responsibility: Map test steps to official Playwright MCP tools
  * and execute them via the MCP protocol
+ *
+ * Element steps need an MCP `ref` (e.g. "e12", or "f1e3" inside an iframe).
+ * Refs are resolved from the latest browser_snapshot accessibility tree,
+ * which Playwright MCP returns after every page-changing tool call.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { CallToolResult, ImageContent, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import {
+  TestStep,
+  TestStepResult,
+  PageSnapshot,
+  DOMElement,
+  SnapshotSummary,
+  MCPToolCall,
+  MCPToolResult,
+  MCPSnapshotNode,
+  MCPExecutionRequest,
+} from "../types/index.js";
+import {
+  urlPatternToRegExp,
+  matchesNetworkStep,
+  buildMockResponse,
+  describeNetworkStep,
+} from "./network-route.js";
+
+/**
+ * Actions that operate on a specific element and therefore need a ref
  */
+const ELEMENT_ACTIONS = ["click", "type", "fill", "select", "check", "uncheck", "hover"];
 
-import { TestStep, TestStepResult, PageSnapshot, DOMElement, SnapshotSummary } from "../types/index.js";
+const SECRET_PLACEHOLDER = /\{\{\s*secret:/;
+
+// "e12" on the top-level page, "f1e3" inside an iframe (group 1 = frame prefix)
+const REF_PATTERN = /^(f\d+)?e\d+$/;
+
+// How often expectRequest and waitForPopup re-read MCP state while waiting
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Tab actions that need a tab index from browser_tabs
+ */
+const TAB_ACTIONS = ["switchTab", "closeTab"];
 
-interface MCPToolCall {
-  tool: string;
-  arguments: Record<string, any>;
+interface MCPTab {
+  index: number;
+  current: boolean;
+  url: string;
 }
 
+/**
+ * Roles that fit each element action best (used to rank ref candidates)
+ */
+const ACTION_ROLES: Record<string, string[]> = {
+  fill: ["textbox", "searchbox", "combobox", "spinbutton"],
+  type: ["textbox", "searchbox", "combobox", "spinbutton"],
+  select: ["combobox", "listbox"],
+  check: ["checkbox", "radio", "switch"],
+  uncheck: ["checkbox", "radio", "switch"],
+  click: ["button", "link", "menuitem", "tab", "checkbox", "radio"],
+};
+
+/**
+ * Ref match scores - a node below MIN_REF_SCORE is not the target
+ */
+const EXACT_NAME_SCORE = 100;
+const CONTAINED_NAME_SCORE = 50;
+const ID_WORDS_NAME_SCORE = 60; // The id / test id words are exactly the accessible name's words
+const ID_TOKEN_SCORE = 40; // Every id / test id word appears in the accessible name
+const MIN_REF_SCORE = 40;
+
+/**
+ * Id words that describe the kind of element, not which one ("#search-input" -> "search")
+ */
+const GENERIC_ID_WORDS = new Set([
+  "btn", "button", "input", "field", "text", "textbox", "box", "link", "form",
+  "el", "element", "item", "icon", "label", "container", "wrapper",
+]);
+
 export class MCPToolExecutorService {
+  // Page state from the most recent tool response
+  private latestSnapshot: string | null = null;
+  private latestUrl = "";
+  private latestTitle = "";
+  private activeFrame: string | null = null; // iframe selector set by withinFrame
+
   /**
    * Convert test step to MCP tool call
+   *
+   * @param ref - Resolved element ref or tab index (defaults to the step target)
    */
-  convertStepToMCPTool(step: TestStep): MCPToolCall {
+  convertStepToMCPTool(step: TestStep, ref: string = step.target || ""): MCPToolCall {
     switch (step.action) {
       case "goto":
       case "navigate":
@@ -32,7 +110,7 @@ export class MCPToolExecutorService {
           tool: "browser_click",
           arguments: {
             element: step.description || step.target || "element",
-            ref: step.target || "",
+            ref,
           },
         };
 
@@ -42,7 +120,7 @@ export class MCPToolExecutorService {
           tool: "browser_type",
           arguments: {
             element: step.description || step.target || "input field",
-            ref: step.target || "",
+            ref,
             text: step.value || "",
           },
         };
@@ -52,18 +130,28 @@ export class MCPToolExecutorService {
           tool: "browser_select_option",
           arguments: {
             element: step.description || step.target || "dropdown",
-            ref: step.target || "",
+            ref,
             values: [step.value || ""],
           },
         };
 
+      // Clicking toggles - executeStep skips boxes already in the wanted state
       case "check":
       case "uncheck":
         return {
           tool: "browser_click",
           arguments: {
             element: step.description || step.target || "checkbox",
-            ref: step.target || "",
+            ref,
+          },
+        };
+
+      case "hover":
+        return {
+          tool: "browser_hover",
+          arguments: {
+            element: step.description || step.target || "element",
+            ref,
           },
         };
 
@@ -75,11 +163,30 @@ export class MCPToolExecutorService {
           },
         };
 
-      case "wait":
+      case "scroll":
+        return {
+          tool: "browser_evaluate",
+          arguments: {
+            function: "() => window.scrollBy(0, window.innerHeight)",
+          },
+        };
+
+      // Duration in ms from value (as generated steps write it), else timeout - default 1s
+      case "wait": {
+        const waitMs = parseInt(step.value || "", 10) || step.timeout || 1000;
+        return {
+          tool: "browser_wait_for",
+          arguments: {
+            time: waitMs / 1000,
+          },
+        };
+      }
+
+      case "expectText":
         return {
           tool: "browser_wait_for",
           arguments: {
-            time: step.timeout ? step.timeout / 1000 : 1,
+            text: step.value || step.target || "",
           },
         };
 
@@ -97,31 +204,96 @@ export class MCPToolExecutorService {
           },
         };
 
+      // No dedicated routing tool - install the handler with Playwright code
+      case "mockRoute":
+      case "blockRoute":
+        return {
+          tool: "browser_run_code",
+          arguments: {
+            code: this.buildRouteCode(step),
+          },
+        };
+
+      case "expectRequest":
+        return {
+          tool: "browser_network_requests",
+          arguments: {
+            includeStatic: true,
+          },
+        };
+
+      case "switchTab":
+        return {
+          tool: "browser_tabs",
+          arguments: {
+            action: "select",
+            index: parseInt(ref, 10),
+          },
+        };
+
+      // Without an index the current tab is closed
+      case "closeTab":
+        return {
+          tool: "browser_tabs",
+          arguments: ref
+            ? { action: "close", index: parseInt(ref, 10) }
+            : { action: "close" },
+        };
+
+      case "waitForPopup":
+        return {
+          tool: "browser_tabs",
+          arguments: {
+            action: "list",
+          },
+        };
+
+      // Snapshots already include iframe content (refs like "f1e3"), so
+      // entering a frame only refreshes the refs - element steps are then
+      // matched against that frame's refs
+      case "withinFrame":
+        return {
+          tool: "browser_snapshot",
+          arguments: {},
+        };
+
       default:
         throw new Error(`Unsupported action: ${step.action}`);
     }
   }
 
   /**
-   * Execute MCP tool via Playwright MCP connection
+   * Execute MCP tool via the connected MCP client
    *
-   * Note: This is a simplified version. In a full implementation,
-   * we would use the MCP client to call tools directly.
+   * Tool failures come back as `isError` responses rather than exceptions,
+   * so they are mapped to an unsuccessful result here
    */
   async executeMCPTool(
-    mcpConnection: any,
+    client: Client,
     toolCall: MCPToolCall
-  ): Promise<any> {
-    // In a full implementation, we would:
-    // 1. Use mcpClient.request() to call the tool
-    // 2. Handle the response
-    // 3. Return structured result
+  ): Promise<MCPToolResult> {
+    const response = await client.callTool({
+      name: toolCall.tool,
+      arguments: toolCall.arguments,
+    });
+
+    const content = (response.content as CallToolResult["content"] | undefined) || [];
+    const text = content
+      .filter((c): c is TextContent => c.type === "text")
+      .map((c) => c.text)
+      .join("\n");
+    const images = content
+      .filter((c): c is ImageContent => c.type === "image")
+      .map((c) => ({ data: c.data, mimeType: c.mimeType }));
 
-    // For now, return a mock successful result
+    this.updatePageState(text);
+
+    const success = !response.isError;
     return {
-      success: true,
-      tool: toolCall.tool,
-      arguments: toolCall.arguments,
+      success,
+      text,
+      images,
+      error: success ? undefined : this.extractErrorMessage(text),
     };
   }
 
@@ -130,7 +302,7 @@ export class MCPToolExecutorService {
    */
   convertMCPResultToStepResult(
     step: TestStep,
-    mcpResult: any,
+    mcpResult: MCPToolResult,
     duration: number
   ): TestStepResult {
     return {
@@ -138,7 +310,7 @@ export class MCPToolExecutorService {
       status: mcpResult.success ? "passed" : "failed",
       duration,
       error: mcpResult.error,
-      screenshot: mcpResult.screenshot,
+      screenshot: mcpResult.images[0]?.data,
     };
   }
 
@@ -147,20 +319,72 @@ export class MCPToolExecutorService {
    */
   async executeStep(
     step: TestStep,
-    mcpConnection: any
+    client: Client,
+    options?: MCPExecutionRequest["options"]
   ): Promise<TestStepResult> {
     const startTime = Date.now();
 
     try {
-      // Convert step to MCP tool call
-      const toolCall = this.convertStepToMCPTool(step);
+      // Secret values must never reach tool-call payloads or MCP responses
+      if (SECRET_PLACEHOLDER.test(`${step.target || ""} ${step.value || ""}`)) {
+        throw new Error(
+          "{{secret:...}} placeholders are only supported with direct execution"
+        );
+      }
+      if (step.tab !== undefined) {
+        throw new Error(
+          "Step-level tab is only supported with direct execution - use switchTab"
+        );
+      }
+      if (step.action === "expectScreenshot") {
+        throw new Error(
+          "expectScreenshot is only supported with direct execution (baselines are compared locally)"
+        );
+      }
+      if (step.action === "expectAccessible") {
+        throw new Error("expectAccessible is only supported with direct execution");
+      }
 
-      // Execute via MCP
-      const mcpResult = await this.executeMCPTool(mcpConnection, toolCall);
+      let mcpResult: MCPToolResult;
 
-      // Convert result
-      const duration = Date.now() - startTime;
-      return this.convertMCPResultToStepResult(step, mcpResult, duration);
+      if (["expectVisible", "expectHidden", "expectUrl"].includes(step.action)) {
+        mcpResult = await this.verifyAgainstSnapshot(step, client);
+      } else if (step.action === "expectRequest") {
+        mcpResult = await this.waitForRequest(step, client, step.timeout || options?.timeout || 30000);
+      } else if (step.action === "waitForPopup") {
+        mcpResult = await this.waitForPopup(step, client, step.timeout || options?.timeout || 30000);
+      } else if (step.action === "withinFrame") {
+        mcpResult = await this.enterFrame(step, client);
+      } else {
+        const ref = ELEMENT_ACTIONS.includes(step.action)
+          ? await this.resolveRef(step, client)
+          : TAB_ACTIONS.includes(step.action)
+            ? await this.resolveTabIndex(step, client)
+            : undefined;
+
+        const toggle = step.action === "check" || step.action === "uncheck";
+        if (toggle && (await this.isChecked(ref!, client)) === (step.action === "check")) {
+          mcpResult = { success: true, text: `Already ${step.action}ed`, images: [] };
+        } else {
+          // Convert step to MCP tool call
+          const toolCall = this.convertStepToMCPTool(step, ref);
+
+          // Execute via MCP
+          mcpResult = await this.executeMCPTool(client, toolCall);
+        }
+      }
+
+      const result = this.convertMCPResultToStepResult(
+        step,
+        mcpResult,
+        Date.now() - startTime
+      );
+
+      if (result.status === "failed" && options?.screenshot) {
+        result.screenshot = await this.takeFailureScreenshot(client);
+      }
+
+      return result;
     } catch (error) {
       const duration = Date.now() - startTime;
       return {
@@ -168,33 +392,48 @@ export class MCPToolExecutorService {
         status: "failed",
         duration,
         error: error instanceof Error ? error.message : String(error),
+        screenshot: options?.screenshot
+          ? await this.takeFailureScreenshot(client)
+          : undefined,
       };
     }
   }
 
   /**
    * Execute multiple steps sequentially
+   * Stops at the first failed step - later steps would act on the wrong page state
    */
   async executeSteps(
     steps: TestStep[],
-    mcpConnection: any
+    client: Client,
+    options?: MCPExecutionRequest["options"]
   ): Promise<TestStepResult[]> {
     const results: TestStepResult[] = [];
+    this.resetPageState();
 
     for (const step of steps) {
-      const result = await this.executeStep(step, mcpConnection);
+      const result = await this.executeStep(step, client, options);
       results.push(result);
 
-      // Stop on error if configured
       if (result.status === "failed") {
-        console.warn(`[MCPToolExecutor] Step failed: ${step.action}`);
-        // Continue for now, but could break here if desired
+        console.warn(`[MCPToolExecutor] Step failed: ${step.action} - stopping`);
+        break;
       }
     }
 
     return results;
   }
 
+  /**
+   * Forget page state from a previous run
+   */
+  resetPageState(): void {
+    this.latestSnapshot = null;
+    this.latestUrl = "";
+    this.latestTitle = "";
+    this.activeFrame = null;
+  }
+
   /**
    * Get all available MCP tools
    */
@@ -212,110 +451,577 @@ export class MCPToolExecutorService {
       "browser_resize",
       "browser_hover",
       "browser_drag",
+      "browser_evaluate",
       "browser_fill_form",
       "browser_handle_dialog",
       "browser_console_messages",
       "browser_network_requests",
       "browser_tabs",
+      "browser_run_code",
     ];
   }
 
   /**
    * Capture page snapshot using browser_snapshot MCP tool
    *
-   * @param mcpConnection - Active MCP connection
+   * @param client - Connected MCP client
    * @returns PageSnapshot with structured page data
    */
-  async capturePageSnapshot(mcpConnection: any): Promise<PageSnapshot> {
+  async capturePageSnapshot(client: Client): Promise<PageSnapshot> {
     try {
-      // Call browser_snapshot MCP tool
-      const toolCall: MCPToolCall = {
-        tool: "browser_snapshot",
-        arguments: {},
-      };
+      const snapshotResult = await this.refreshSnapshot(client);
 
-      const snapshotResult = await this.executeMCPTool(mcpConnection, toolCall);
-
-      // Parse the accessibility tree from MCP response
-      const elements = this.parseAccessibilityTree(snapshotResult);
+      if (!snapshotResult.success) {
+        throw new Error(snapshotResult.error || "browser_snapshot failed");
+      }
 
-      // Extract page metadata
-      const pageSnapshot: PageSnapshot = {
-        url: snapshotResult.url || "",
-        title: snapshotResult.title || "",
-        elements: elements,
+      return {
+        url: this.latestUrl,
+        title: this.latestTitle,
+        elements: this.parseAccessibilityTree(this.latestSnapshot || ""),
         timestamp: new Date(),
       };
-
-      return pageSnapshot;
     } catch (error) {
       console.error("[MCPToolExecutor] Failed to capture page snapshot:", error);
       throw error;
     }
   }
 
+  // ============================================
+  // Snapshot & Ref Resolution
+  // ============================================
+
+  private async refreshSnapshot(client: Client): Promise<MCPToolResult> {
+    return this.executeMCPTool(client, { tool: "browser_snapshot", arguments: {} });
+  }
+
   /**
-   * Parse accessibility tree from MCP browser_snapshot response
-   *
-   * @param snapshotResult - Raw MCP snapshot result
-   * @returns Array of structured DOM elements
+   * Remember URL, title and accessibility tree from a tool response
    */
-  private parseAccessibilityTree(snapshotResult: any): DOMElement[] {
-    const elements: DOMElement[] = [];
+  private updatePageState(text: string): void {
+    const url = text.match(/^- Page URL: (.*)$/m);
+    const title = text.match(/^- Page Title: (.*)$/m);
+    const snapshot = text.match(/```yaml\n([\s\S]*?)```/);
+
+    if (url) this.latestUrl = url[1].trim();
+    if (title) this.latestTitle = title[1].trim();
+    if (snapshot) this.latestSnapshot = snapshot[1];
+  }
+
+  /**
+   * Pull the error line out of a Playwright MCP "### Result" section
+   */
+  private extractErrorMessage(text: string): string {
+    const result = text.match(/### Result\n([\s\S]*?)(?:\n###|$)/);
+    return (result ? result[1] : text).trim() || "MCP tool returned an error";
+  }
+
+  /**
+   * Resolve a step target to an MCP element ref
+   * Uses the latest snapshot first and refreshes it once if nothing matches
+   */
+  private async resolveRef(step: TestStep, client: Client): Promise<string> {
+    const target = step.target || "";
+
+    // Already a ref ("e12", "f1e3" or "ref=e12")
+    const direct = target.replace(/^ref=/, "");
+    if (REF_PATTERN.test(direct)) return direct;
+
+    // A stale snapshot may not show the step's iframe yet
+    let ref = this.latestSnapshot ? this.tryFindRef(step) : null;
+
+    if (!ref) {
+      await this.refreshSnapshot(client);
+      ref = this.findRef(step);
+    }
+
+    if (!ref) {
+      throw new Error(
+        `Element not found: "${target}" matches no element in the latest browser_snapshot`
+      );
+    }
 
+    return ref;
+  }
+
+  /**
+   * Checked state of a checkbox/radio/switch in a fresh snapshot
+   */
+  private async isChecked(ref: string, client: Client): Promise<boolean> {
+    const snapshotResult = await this.refreshSnapshot(client);
+    if (!snapshotResult.success) {
+      throw new Error(snapshotResult.error || "browser_snapshot failed");
+    }
+
+    const node = this.parseSnapshotNodes(this.latestSnapshot || "").find((n) => n.ref === ref);
+    if (!node) {
+      throw new Error(`Element ${ref} is no longer in the page snapshot`);
+    }
+    return node.checked;
+  }
+
+  private tryFindRef(step: TestStep): string | null {
     try {
-      // MCP browser_snapshot returns accessibility tree
-      // We need to traverse it and extract interactive elements
-      const accessibilityTree = snapshotResult.snapshot || snapshotResult.data || snapshotResult;
+      return this.findRef(step);
+    } catch {
+      return null;
+    }
+  }
 
-      if (accessibilityTree && typeof accessibilityTree === "object") {
-        this.extractElementsFromTree(accessibilityTree, elements);
+  /**
+   * Assertions without a dedicated MCP tool are checked against a fresh snapshot
+   */
+  private async verifyAgainstSnapshot(
+    step: TestStep,
+    client: Client
+  ): Promise<MCPToolResult> {
+    const snapshotResult = await this.refreshSnapshot(client);
+    if (!snapshotResult.success) {
+      return snapshotResult;
+    }
+
+    let error: string | undefined;
+
+    switch (step.action) {
+      case "expectVisible":
+        if (!this.findRef(step)) {
+          error = `Element not found in page snapshot: ${step.target}`;
+        }
+        break;
+
+      case "expectHidden":
+        if (this.findRef(step)) {
+          error = `Element is still present in page snapshot: ${step.target}`;
+        }
+        break;
+
+      case "expectUrl": {
+        const expected = step.value || step.target || "";
+        if (!this.latestUrl.includes(expected)) {
+          error = `Expected URL to contain "${expected}", got "${this.latestUrl}"`;
+        }
+        break;
       }
-    } catch (error) {
-      console.warn("[MCPToolExecutor] Error parsing accessibility tree:", error);
     }
 
-    return elements;
+    return { success: !error, text: snapshotResult.text, images: [], error };
+  }
+
+  // ============================================
+  // Network Steps
+  // ============================================
+
+  /**
+   * Playwright code for browser_run_code that installs a mock or block route
+   */
+  private buildRouteCode(step: TestStep): string {
+    if (!step.target) {
+      throw new Error(`${step.action}: target URL pattern required`);
+    }
+
+    const pattern = JSON.stringify(urlPatternToRegExp(step.target).source);
+    const method = JSON.stringify(step.method?.toUpperCase() || null);
+    const handle = step.action === "mockRoute"
+      ? `route.fulfill(${JSON.stringify(buildMockResponse(step))})`
+      : `route.abort("blockedbyclient")`;
+
+    return [
+      "async (page) => {",
+      `  const method = ${method};`,
+      `  await page.route(new RegExp(${pattern}), (route) =>`,
+      `    method && route.request().method() !== method ? route.fallback() : ${handle}`,
+      "  );",
+      "}",
+    ].join("\n");
+  }
+
+  /**
+   * Poll browser_network_requests until a matching request shows up
+   * Lines look like "[POST] https://example.com/api/pay => [200] OK"
+   */
+  private async waitForRequest(
+    step: TestStep,
+    client: Client,
+    timeout: number
+  ): Promise<MCPToolResult> {
+    if (!step.target) {
+      throw new Error("expectRequest: target URL pattern required");
+    }
+
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      const result = await this.executeMCPTool(client, this.convertStepToMCPTool(step));
+      if (!result.success) {
+        return result;
+      }
+
+      const found = result.text.split("\n").some((line) => {
+        const request = line.match(/^\[(\w+)\] (\S+)/);
+        return !!request && matchesNetworkStep(step, request[2], request[1]);
+      });
+
+      if (found) {
+        return result;
+      }
+
+      if (Date.now() >= deadline) {
+        return {
+          success: false,
+          text: result.text,
+          images: [],
+          error: `expectRequest: no request to ${describeNetworkStep(step)} within ${timeout}ms`,
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  // ============================================
+  // Tab Steps
+  // ============================================
+
+  /**
+   * Current tabs from browser_tabs
+   * Lines look like "- 1: (current) [Checkout] (https://example.com/pay)"
+   */
+  private async listTabs(client: Client): Promise<MCPTab[]> {
+    const result = await this.executeMCPTool(client, {
+      tool: "browser_tabs",
+      arguments: { action: "list" },
+    });
+    if (!result.success) {
+      throw new Error(result.error || "browser_tabs failed");
+    }
+
+    const tabs: MCPTab[] = [];
+    for (const line of result.text.split("\n")) {
+      const tab = line.match(/^- (\d+):( \(current\))? \[.*\] \((.*)\)$/);
+      if (tab) {
+        tabs.push({ index: parseInt(tab[1], 10), current: !!tab[2], url: tab[3] });
+      }
+    }
+    return tabs;
+  }
+
+  /**
+   * Resolve a switchTab/closeTab target - an index ("1") or a URL substring -
+   * to a tab index. closeTab without a target closes the current tab
+   */
+  private async resolveTabIndex(step: TestStep, client: Client): Promise<string> {
+    const query = step.target || step.value || "";
+    if (!query && step.action === "closeTab") {
+      return "";
+    }
+
+    const tabs = await this.listTabs(client);
+    const needle = query.toLowerCase();
+    const tab = /^\d+$/.test(query)
+      ? tabs.find((t) => t.index === parseInt(query, 10))
+      : tabs.find((t) => t.url.toLowerCase().includes(needle));
+
+    if (!tab) {
+      throw new Error(`${step.action}: no tab matches "${query}"`);
+    }
+    if (step.action === "closeTab" && tabs.length === 1) {
+      throw new Error("closeTab: cannot close the last tab");
+    }
+    return String(tab.index);
+  }
+
+  /**
+   * Poll browser_tabs until a tab newer than the current one exists, then select it
+   */
+  private async waitForPopup(
+    step: TestStep,
+    client: Client,
+    timeout: number
+  ): Promise<MCPToolResult> {
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      const tabs = await this.listTabs(client);
+      const current = tabs.find((t) => t.current);
+      const newest = tabs[tabs.length - 1];
+
+      if (newest && current && newest.index > current.index) {
+        return this.executeMCPTool(
+          client,
+          this.convertStepToMCPTool({ ...step, action: "switchTab" }, String(newest.index))
+        );
+      }
+
+      if (Date.now() >= deadline) {
+        return {
+          success: false,
+          text: "",
+          images: [],
+          error: `waitForPopup: no new tab or popup opened within ${timeout}ms`,
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
   }
 
   /**
-   * Recursively extract DOM elements from accessibility tree
+   * Find the ref the target points at in the latest snapshot
    *
-   * @param node - Current node in accessibility tree
-   * @param elements - Array to collect extracted elements
-   * @param path - Current path for generating selectors
+   * Matching signals, strongest first:
+   * - role=<role>[name="..."] selectors
+   * - text=, aria-label, placeholder, title, alt values equal to (or contained in) the accessible name
+   * - every word of the target's id / test id appearing in the accessible name
+   * Roles and the step description never count - they match unrelated elements.
+   * The action's preferred roles only break ties.
+   * @returns null when no node reaches MIN_REF_SCORE
    */
-  private extractElementsFromTree(
-    node: any,
-    elements: DOMElement[],
-    path: string = ""
-  ): void {
-    if (!node || typeof node !== "object") return;
-
-    // Extract element data if it's an interactive element
-    if (this.isInteractiveElement(node)) {
-      const element = this.nodeToElement(node, path);
-      if (element) {
-        elements.push(element);
+  private findRef(step: TestStep): string | null {
+    const allNodes = this.parseSnapshotNodes(this.latestSnapshot || "");
+    const frame = this.resolveFramePrefix(step, allNodes);
+    const nodes = allNodes.filter((n) => n.frame === frame);
+    if (nodes.length === 0) return null;
+
+    const target = step.target || "";
+    const preferredRoles = ACTION_ROLES[step.action] || [];
+
+    const roleSelector = target.match(/^role=(\w+)(?:\[name=["'](.+?)["']\])?$/);
+    if (roleSelector) {
+      const role = roleSelector[1];
+      const name = roleSelector[2]?.replace(/\\"/g, '"');
+      const match = nodes.find(
+        (n) => n.role === role && (!name || n.name.toLowerCase() === name.toLowerCase())
+      );
+      return match?.ref || null;
+    }
+
+    const exactNames = this.extractNameHints(target);
+    const idWords = this.extractIdWords(target);
+
+    let best: { ref: string; score: number } | null = null;
+
+    for (const node of nodes) {
+      const name = node.name.toLowerCase();
+      if (!name) continue;
+
+      let score = 0;
+
+      if (exactNames.some((hint) => hint === name)) {
+        score = EXACT_NAME_SCORE;
+      } else if (exactNames.some((hint) => name.includes(hint))) {
+        score = CONTAINED_NAME_SCORE;
+      } else if (idWords.length > 0) {
+        const nameWords = this.extractWords(node.name);
+        if (idWords.every((w) => nameWords.includes(w))) {
+          score = nameWords.length === idWords.length ? ID_WORDS_NAME_SCORE : ID_TOKEN_SCORE;
+        }
+      }
+
+      if (score < MIN_REF_SCORE) continue;
+
+      // Tie-break only, after the threshold
+      if (preferredRoles.includes(node.role)) {
+        score += 5;
+      }
+
+      if (!best || score > best.score) {
+        best = { ref: node.ref, score };
       }
     }
 
-    // Recursively process children
-    if (node.children && Array.isArray(node.children)) {
-      node.children.forEach((child: any, index: number) => {
-        const childPath = path ? `${path} > ${index}` : `${index}`;
-        this.extractElementsFromTree(child, elements, childPath);
+    return best?.ref || null;
+  }
+
+  /**
+   * Values in a selector that are likely to equal the accessible name
+   */
+  private extractNameHints(target: string): string[] {
+    const hints: string[] = [];
+
+    const text = target.match(/^text=["']?(.+?)["']?$/);
+    if (text) hints.push(text[1]);
+
+    const attrPattern = /\[(?:aria-label|placeholder|title|alt)=["']?([^"'\]]+)["']?\]/g;
+    for (const match of target.matchAll(attrPattern)) {
+      hints.push(match[1]);
+    }
+
+    const hasText = target.match(/:has-text\(["'](.+?)["']\)/);
+    if (hasText) hints.push(hasText[1]);
+
+    return hints.map((h) => h.toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * Distinctive words of the target's ids and test ids
+   * e.g. "#search-input" -> ["search"], "[data-testid=submitOrderBtn]" -> ["submit", "order"]
+   */
+  private extractIdWords(target: string): string[] {
+    const ids: string[] = [];
+
+    for (const match of target.matchAll(/#([\w-]+)/g)) {
+      ids.push(match[1]);
+    }
+
+    const attrPattern = /\[(?:id|name|data-testid|data-test-id|data-test|data-cy)=["']?([^"'\]]+)["']?\]/g;
+    for (const match of target.matchAll(attrPattern)) {
+      ids.push(match[1]);
+    }
+
+    const words = this.extractWords(ids.join(" ")).filter((w) => !GENERIC_ID_WORDS.has(w));
+    return [...new Set(words)];
+  }
+
+  /**
+   * Split selectors and names into comparable lowercase words
+   * e.g. "#search-input" -> ["search", "input"], "loginButton" -> ["login", "button"]
+   */
+  private extractWords(value: string): string[] {
+    return value
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length > 1);
+  }
+
+  /**
+   * Parse `- role "name" [ref=eN]` lines from the snapshot YAML
+   * Nodes inside an iframe have refs like "f1e3"; an iframe node gets the
+   * prefix of the first ref nested (indented) below it
+   */
+  private parseSnapshotNodes(yaml: string): MCPSnapshotNode[] {
+    const nodes: MCPSnapshotNode[] = [];
+    const linePattern = /^(\s*)- ([\w-]+)(?: "((?:[^"\\]|\\.)*)")?[^\n]*?\[ref=((f\d+)?e\d+)\]/;
+    const openFrames: { node: MCPSnapshotNode; indent: number }[] = [];
+
+    for (const line of yaml.split("\n")) {
+      const match = line.match(linePattern);
+      if (!match) continue;
+
+      const indent = match[1].length;
+      const node: MCPSnapshotNode = {
+        role: match[2],
+        name: (match[3] || "").replace(/\\"/g, '"'),
+        ref: match[4],
+        frame: match[5] || "",
+        checked: /\[checked(?:=(?:true|mixed))?\]/.test(line),
+      };
+
+      // Iframes whose subtree has ended never saw a nested ref
+      while (openFrames.length > 0 && indent <= openFrames[openFrames.length - 1].indent) {
+        openFrames.pop();
+      }
+      if (openFrames.length > 0 && node.frame) {
+        openFrames[openFrames.length - 1].node.contentFrame = node.frame;
+        openFrames.pop();
+      }
+      if (node.role === "iframe") {
+        openFrames.push({ node, indent });
+      }
+
+      nodes.push(node);
+    }
+
+    return nodes;
+  }
+
+  // ============================================
+  // Frame Steps
+  // ============================================
+
+  /**
+   * withinFrame: check the iframe exists in a fresh snapshot and scope later element steps to it
+   * No target (or "main") returns to the top-level page
+   */
+  private async enterFrame(step: TestStep, client: Client): Promise<MCPToolResult> {
+    const result = await this.executeMCPTool(client, this.convertStepToMCPTool(step));
+    if (!result.success) {
+      return result;
+    }
+
+    const frame = !step.target || step.target === "main" ? null : step.target;
+    this.resolveFramePrefix({ ...step, frame: frame || "" }, this.parseSnapshotNodes(this.latestSnapshot || ""));
+    this.activeFrame = frame;
+    return result;
+  }
+
+  /**
+   * Ref prefix of the frame an element step runs in ("" = top-level page)
+   * step.frame wins over the withinFrame scope, as with direct execution.
+   * The iframe is given as a frame prefix ("f1"), the iframe's ref ("e5"),
+   * or a selector - matched by name/id words, or the only iframe on the page
+   * @throws Error when the iframe is not in the snapshot
+   */
+  private resolveFramePrefix(step: TestStep, nodes: MCPSnapshotNode[]): string {
+    const selector = (step.frame !== undefined ? step.frame : this.activeFrame) || "";
+    if (!selector) return "";
+
+    if (/^f\d+$/.test(selector)) return selector;
+
+    const iframes = nodes.filter((n) => n.role === "iframe" && n.contentFrame);
+    const ref = selector.replace(/^ref=/, "");
+    const byRef = iframes.find((n) => n.ref === ref);
+    if (byRef) return byRef.contentFrame!;
+
+    const hints = [...this.extractNameHints(selector), ...this.extractIdWords(selector)];
+    const byName = iframes.find((n) =>
+      hints.some((hint) => n.name.toLowerCase().includes(hint))
+    );
+    if (byName) return byName.contentFrame!;
+
+    if (iframes.length === 1) return iframes[0].contentFrame!;
+
+    throw new Error(
+      iframes.length === 0
+        ? `Frame not found: no iframe content in the latest browser_snapshot for "${selector}"`
+        : `Frame "${selector}" is ambiguous - ${iframes.length} iframes in the snapshot; use the iframe ref (e.g. "${iframes[0].ref}")`
+    );
+  }
+
+  private async takeFailureScreenshot(client: Client): Promise<string | undefined> {
+    try {
+      const result = await this.executeMCPTool(client, {
+        tool: "browser_take_screenshot",
+        arguments: { type: "png" },
       });
+      return result.images[0]?.data;
+    } catch {
+      return undefined;
     }
   }
 
+  /**
+   * Parse interactive elements from a browser_snapshot accessibility tree
+   *
+   * @param snapshotYaml - YAML accessibility tree from browser_snapshot
+   * @returns Array of structured DOM elements
+   */
+  private parseAccessibilityTree(snapshotYaml: string): DOMElement[] {
+    const elements: DOMElement[] = [];
+
+    try {
+      for (const node of this.parseSnapshotNodes(snapshotYaml)) {
+        if (this.isInteractiveElement(node)) {
+          const element = this.nodeToElement(node);
+          if (element) {
+            elements.push(element);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn("[MCPToolExecutor] Error parsing accessibility tree:", error);
+    }
+
+    return elements;
+  }
+
   /**
    * Check if a node represents an interactive element
    *
    * @param node - Accessibility tree node
    * @returns true if element is interactive
    */
-  private isInteractiveElement(node: any): boolean {
+  private isInteractiveElement(node: MCPSnapshotNode): boolean {
     const interactiveRoles = [
       "button",
       "link",
@@ -331,60 +1037,25 @@ export class MCPToolExecutorService {
       "switch",
     ];
 
-    const interactiveTags = [
-      "button",
-      "a",
-      "input",
-      "select",
-      "textarea",
-      "summary",
-    ];
-
-    const role = node.role?.toLowerCase();
-    const tag = node.tag?.toLowerCase() || node.name?.toLowerCase();
-
-    return (
-      (role && interactiveRoles.includes(role)) ||
-      (tag && interactiveTags.includes(tag)) ||
-      node.clickable === true ||
-      node.focusable === true
-    );
+    return interactiveRoles.includes(node.role.toLowerCase());
   }
 
   /**
    * Convert accessibility tree node to DOMElement
    *
    * @param node - Accessibility tree node
-   * @param path - Path for generating selector
    * @returns DOMElement or null
    */
-  private nodeToElement(node: any, path: string): DOMElement | null {
+  private nodeToElement(node: MCPSnapshotNode): DOMElement | null {
     try {
-      // Build selector (prefer semantic selectors)
-      const selector = this.buildSelector(node);
-
-      // Extract text content
-      const text = node.name || node.text || node.value || "";
-
-      // Extract attributes
-      const attributes: Record<string, string> = {};
-      if (node.id) attributes.id = node.id;
-      if (node.className) attributes.class = node.className;
-      if (node.type) attributes.type = node.type;
-      if (node.href) attributes.href = node.href;
-      if (node.placeholder) attributes.placeholder = node.placeholder;
-      if (node.value) attributes.value = node.value;
-
-      const element: DOMElement = {
-        tag: node.tag || node.name || "unknown",
-        selector: selector,
-        text: text,
+      return {
+        tag: node.role,
+        selector: this.buildSelector(node),
+        text: node.name,
         role: node.role,
-        ariaLabel: node.ariaLabel || node["aria-label"],
-        attributes: attributes,
+        attributes: { ref: node.ref },
+        frame: node.frame || undefined, // Frame prefix - resolveRef scopes to it
       };
-
-      return element;
     } catch (error) {
       console.warn("[MCPToolExecutor] Error converting node to element:", error);
       return null;
@@ -392,55 +1063,21 @@ export class MCPToolExecutorService {
   }
 
   /**
-   * Build a semantic selector for an element
+   * Build a selector for an element that resolveRef can map back to a ref
    *
    * Priority:
-   * 1. data-testid
-   * 2. id
-   * 3. aria-label
-   * 4. role + name
-   * 5. text content
-   * 6. CSS selector (fallback)
+   * 1. role + accessible name
+   * 2. ref (nameless elements, only valid until the page changes)
    *
    * @param node - Accessibility tree node
    * @returns Selector string
    */
-  private buildSelector(node: any): string {
-    // Priority 1: data-testid
-    if (node.testId || node["data-testid"]) {
-      return `[data-testid="${node.testId || node["data-testid"]}"]`;
-    }
-
-    // Priority 2: id
-    if (node.id) {
-      return `#${node.id}`;
-    }
-
-    // Priority 3: aria-label
-    if (node.ariaLabel || node["aria-label"]) {
-      return `[aria-label="${node.ariaLabel || node["aria-label"]}"]`;
-    }
-
-    // Priority 4: role + accessible name
-    if (node.role && node.name) {
-      return `role=${node.role}[name="${node.name}"]`;
-    }
-
-    // Priority 5: text content (for buttons, links)
-    if (node.name && (node.role === "button" || node.role === "link")) {
-      return `text=${node.name}`;
-    }
-
-    // Priority 6: CSS selector fallback
-    if (node.tag) {
-      let selector = node.tag;
-      if (node.className) {
-        selector += `.${node.className.split(" ")[0]}`;
-      }
-      return selector;
+  private buildSelector(node: MCPSnapshotNode): string {
+    if (node.name) {
+      return `role=${node.role}[name="${node.name.replace(/"/g, '\\"')}"]`;
     }
 
-    return "unknown";
+    return `ref=${node.ref}`;
   }
 
   /**
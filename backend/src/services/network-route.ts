@@ -0,0 +1,88 @@
+/**
+ * Network Route Helpers
+ *
+ * Single Responsibility: Shared rules for the network steps
+ * - mockRoute: answer matching requests with a canned status/body
+ * - blockRoute: abort matching requests
+ * - expectRequest: assert that a matching request was sent
+ *
+ * URL patterns use Playwright's glob syntax: `**` matches anything,
+ * `*` anything except "/", `{a,b}` alternatives (e.g. "**\/api/payments*")
+ */
+
+import { TestStep } from '../types/index.js';
+
+export const NETWORK_ACTIONS = ['mockRoute', 'blockRoute', 'expectRequest'];
+
+export interface MockResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Convert a URL glob into a RegExp matching the full URL
+ */
+export function urlPatternToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+?^$()|[\]\\/{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a request against a step's URL pattern and optional method
+ */
+export function matchesNetworkStep(step: TestStep, url: string, method: string): boolean {
+  if (step.method && step.method.toUpperCase() !== method.toUpperCase()) {
+    return false;
+  }
+  return urlPatternToRegExp(step.target || '').test(url);
+}
+
+/**
+ * Response for a mockRoute step - JSON content type when the value parses as JSON
+ */
+export function buildMockResponse(step: TestStep): MockResponse {
+  const body = step.value || '';
+  let contentType = 'text/plain';
+
+  try {
+    JSON.parse(body);
+    contentType = 'application/json';
+  } catch {
+    // Plain text body
+  }
+
+  return { status: step.status ?? 200, contentType, body };
+}
+
+/**
+ * Describe a network step for error messages, e.g. "POST **\/api/pay"
+ */
+export function describeNetworkStep(step: TestStep): string {
+  return [step.method?.toUpperCase(), step.target].filter(Boolean).join(' ');
+}
@@ -0,0 +1,227 @@
+/**
+ * Playwright Export Service
+ *
+ * Single Responsibility: Convert TestStep[] into a runnable @playwright/test spec
+ */
+
+import {
+  TestStep,
+  PlaywrightExportRequest,
+  PlaywrightExportResult,
+} from '../types/index.js';
+import { buildMockResponse } from './network-route.js';
+import { DEFAULT_VISUAL_THRESHOLD } from './visual-regression.service.js';
+import { DEFAULT_ACCESSIBILITY_TAGS, DEFAULT_MIN_IMPACT } from './accessibility-audit.service.js';
+
+type StepRenderer = (step: TestStep, locator: string, options: string) => string[];
+
+const INDENT = '  ';
+
+export class PlaywrightExportService {
+  /**
+   * Action → code renderers
+   * Each renderer returns the statement lines for one step
+   */
+  private readonly renderers: Record<string, StepRenderer> = {
+    goto: (step, _locator, options) => [
+      `await page.goto(${this.quote(step.target || step.value || '')}${options});`,
+    ],
+    fill: (step, locator, options) => [
+      `await ${locator}.fill(${this.quote(step.value || '')}${options});`,
+    ],
+    click: (_step, locator, options) => [`await ${locator}.click(${this.bareOptions(options)});`],
+    hover: (_step, locator, options) => [`await ${locator}.hover(${this.bareOptions(options)});`],
+    select: (step, locator, options) => [
+      `await ${locator}.selectOption(${this.quote(step.value || '')}${options});`,
+    ],
+    check: (_step, locator, options) => [`await ${locator}.check(${this.bareOptions(options)});`],
+    uncheck: (_step, locator, options) => [`await ${locator}.uncheck(${this.bareOptions(options)});`],
+    expectVisible: (_step, locator, options) => [
+      `await expect(${locator}).toBeVisible(${this.bareOptions(options)});`,
+    ],
+    expectHidden: (_step, locator, options) => [
+      `await expect(${locator}).toBeHidden(${this.bareOptions(options)});`,
+    ],
+    expectText: (step, locator, options) => [
+      `await expect(${locator}).toContainText(${this.quote(step.value || '')}${options});`,
+    ],
+    expectUrl: (step, _locator, options) => [
+      `await expect(page).toHaveURL(${this.quote(step.value || '')}${options});`,
+    ],
+    wait: (step) => [`await page.waitForTimeout(${step.value ? parseInt(step.value, 10) : 1000});`],
+    screenshot: (step) => [
+      `await page.screenshot({ path: ${this.quote(step.value || 'screenshot.png')}, fullPage: true });`,
+    ],
+    scroll: (step, locator, options) =>
+      step.target
+        ? [`await ${locator}.scrollIntoViewIfNeeded(${this.bareOptions(options)});`]
+        : ['await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));'],
+    press: (step, locator) =>
+      step.target
+        ? [`await ${locator}.press(${this.quote(step.value || 'Enter')});`]
+        : [`await page.keyboard.press(${this.quote(step.value || 'Enter')});`],
+
+    mockRoute: (step) =>
+      this.renderRoute(step, `route.fulfill(${JSON.stringify(buildMockResponse(step))})`),
+    blockRoute: (step) => this.renderRoute(step, `route.abort()`),
+    expectScreenshot: (step, locator) => [
+      `await expect(${step.target ? locator : 'page'}).toHaveScreenshot(${this.quote(`${step.name || 'screenshot'}.png`)}, ${this.screenshotOptions(step)});`,
+    ],
+    expectAccessible: (step) => this.renderAccessibilityCheck(step),
+  };
+
+  // Impacts at or above each threshold, for filtering AxeBuilder results in exported specs
+  private readonly failingImpacts: Record<string, string[]> = {
+    minor: ['minor', 'moderate', 'serious', 'critical'],
+    moderate: ['moderate', 'serious', 'critical'],
+    serious: ['serious', 'critical'],
+    critical: ['critical'],
+  };
+
+  /**
+   * Generate a formatted .spec.ts file from test steps
+   */
+  generateSpec(request: PlaywrightExportRequest): PlaywrightExportResult {
+    const testName = request.testName?.trim() || 'generated test';
+    const unsupportedActions = new Set<string>();
+
+    const body = request.steps.flatMap((step) => {
+      const lines = this.renderStep(step);
+      if (!lines) {
+        unsupportedActions.add(step.action);
+        return [`// TODO: unsupported action "${step.action}"${step.description ? ` - ${step.description}` : ''}`];
+      }
+      return step.description ? [`// ${this.singleLine(step.description)}`, ...lines] : lines;
+    });
+
+    const lines: string[] = ['import { test, expect } from "@playwright/test";'];
+    if (request.steps.some((step) => step.action === 'expectAccessible')) {
+      lines.push('import AxeBuilder from "@axe-core/playwright";');
+    }
+    lines.push('');
+
+    if (request.baseUrl) {
+      lines.push(`test.use({ baseURL: ${this.quote(request.baseUrl)} });`, '');
+    }
+
+    const testBlock = [
+      `test(${this.quote(testName)}, async ({ page }) => {`,
+      ...body.map((line) => INDENT + line),
+      '});',
+    ];
+
+    if (request.describe) {
+      lines.push(`test.describe(${this.quote(request.describe)}, () => {`);
+      lines.push(...testBlock.map((line) => INDENT + line));
+      lines.push('});');
+    } else {
+      lines.push(...testBlock);
+    }
+
+    return {
+      fileName: `${this.toFileSlug(request.describe || testName)}.spec.ts`,
+      content: lines.join('\n') + '\n',
+      stepCount: request.steps.length,
+      unsupportedActions: Array.from(unsupportedActions),
+    };
+  }
+
+  /**
+   * Render a single step, or null if the action is not supported
+   */
+  private renderStep(step: TestStep): string[] | null {
+    const renderer = this.renderers[step.action];
+    if (!renderer) return null;
+
+    const scope = step.frame ? `page.frameLocator(${this.quote(step.frame)})` : 'page';
+    const locator = `${scope}.locator(${this.quote(step.target || '')})`;
+    const options = step.timeout ? `, { timeout: ${step.timeout} }` : '';
+
+    return renderer(step, locator, options);
+  }
+
+  /**
+   * @axe-core/playwright scan with the step's rules, failing on violations at or above its threshold
+   */
+  private renderAccessibilityCheck(step: TestStep): string[] {
+    const options = step.accessibility || {};
+    const builder = ['new AxeBuilder({ page })'];
+
+    if (step.target) builder.push(`.include(${this.quote(step.target)})`);
+    if (options.includeRules?.length) {
+      builder.push(`.withRules(${JSON.stringify(options.includeRules)})`);
+    } else {
+      builder.push(`.withTags(${JSON.stringify(options.tags?.length ? options.tags : DEFAULT_ACCESSIBILITY_TAGS)})`);
+    }
+    if (options.excludeRules?.length) builder.push(`.disableRules(${JSON.stringify(options.excludeRules)})`);
+
+    const impacts = JSON.stringify(this.failingImpacts[options.minImpact || DEFAULT_MIN_IMPACT]);
+
+    return [
+      '{',
+      `${INDENT}const { violations } = await ${builder.join('')}.analyze();`,
+      `${INDENT}expect(violations.filter((v) => ${impacts}.includes(v.impact ?? ""))).toEqual([]);`,
+      '}',
+    ];
+  }
+
+  /**
+   * toHaveScreenshot() options matching the direct executor's comparison
+   */
+  private screenshotOptions(step: TestStep): string {
+    const options = [
+      ...(step.target ? [] : ['fullPage: true']),
+      `maxDiffPixelRatio: ${step.threshold ?? DEFAULT_VISUAL_THRESHOLD}`,
+    ];
+    if (step.mask?.length) {
+      options.push(`mask: [${step.mask.map((selector) => `page.locator(${this.quote(selector)})`).join(', ')}]`);
+    }
+    return `{ ${options.join(', ')} }`;
+  }
+
+  /**
+   * page.route() registration, falling back for other methods when one is set
+   */
+  private renderRoute(step: TestStep, handler: string): string[] {
+    const pattern = this.quote(step.target || '**');
+
+    if (!step.method) {
+      return [`await page.route(${pattern}, (route) => ${handler});`];
+    }
+
+    const method = this.quote(step.method.toUpperCase());
+    return [
+      `await page.route(${pattern}, (route) =>`,
+      `${INDENT}route.request().method() === ${method} ? ${handler} : route.fallback()`,
+      ');',
+    ];
+  }
+
+  /**
+   * Options for calls that take no other argument (drop the leading comma)
+   */
+  private bareOptions(options: string): string {
+    return options.replace(/^, /, '');
+  }
+
+  private quote(value: string): string {
+    return JSON.stringify(value);
+  }
+
+  private singleLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private toFileSlug(name: string): string {
+    const slug = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug || 'generated-test';
+  }
+}
+
+// Factory
+export function createPlaywrightExportService(): PlaywrightExportService {
+  return new PlaywrightExportService();
+}
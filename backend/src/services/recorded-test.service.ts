@@ -0,0 +1,189 @@
+/**
+ * Recorded Test Service
+ *
+ * Single Responsibility: Freeze approved human-in-loop sessions and replay them without the LLM
+ * - A recording holds the steps that ran and passed, with the reviewer's edits applied
+ * - Replays execute the steps directly; the LLM is only asked when a step's element is missing
+ * - Healed selectors are written back so the next replay needs no healing
+ * - Every replay is recorded in run history (source "replay")
+ */
+
+import { StepExecutorService, createStepExecutorService } from './step-executor.service.js';
+import { createTestGeneratorService } from './test-generator.service.js';
+import { RunHistoryService, createRunHistoryService } from './run-history.service.js';
+import { llmManager } from '../llm/index.js';
+import { recordedTestRepository, runHistoryRepository } from '../storage/index.js';
+import {
+  IRecordedTestRepository,
+  RecordedTest,
+  CreateRecordedTestInput,
+  RecordedTestHealing,
+  RecordedTestReplayOptions,
+  RecordedTestReplayResult,
+  TestExecutionResult,
+  TestSession,
+  TestStep,
+  TestStepResult,
+} from '../types/index.js';
+
+export class RecordedTestService {
+  /**
+   * @param createExecutor - Called once per replay so concurrent replays get their own browser
+   */
+  constructor(
+    private readonly repository: IRecordedTestRepository,
+    private readonly createExecutor: () => StepExecutorService,
+    private readonly runHistory: RunHistoryService
+  ) {}
+
+  // ============================================
+  // CRUD
+  // ============================================
+
+  async list(): Promise<RecordedTest[]> {
+    return this.repository.list();
+  }
+
+  async get(id: string): Promise<RecordedTest | null> {
+    return this.repository.findById(id);
+  }
+
+  async create(input: CreateRecordedTestInput): Promise<RecordedTest> {
+    const recording = await this.repository.create(input);
+    console.log(`[RecordedTests] Recorded ${recording.id}: ${recording.name} (${recording.steps.length} steps)`);
+    return recording;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Freeze a finished session into a recorded test
+   * Only sessions where every step passed qualify - dropping a failed or rejected step
+   * (e.g. an assertion) would make a recording that always replays green
+   * @throws Error when the session has not completed, a step failed or was rejected, or nothing ran
+   */
+  async recordSession(session: TestSession, name?: string): Promise<RecordedTest> {
+    if (session.state !== 'completed') {
+      throw new Error(`Session ${session.sessionId} is ${session.state} - only completed sessions can be recorded`);
+    }
+
+    // Skipped = skipped or rejected by the reviewer, left out like a removed step
+    const notPassed = session.results
+      .map((result, i) => ({ result, stepIndex: session.resultStepIndexes[i] }))
+      .filter(({ result }) => result.status !== 'passed' && result.status !== 'skipped');
+    if (notPassed.length > 0) {
+      const steps = notPassed.map(({ result, stepIndex }) => `#${stepIndex + 1} ${result.step.action} (${result.status})`);
+      throw new Error(
+        `Session ${session.sessionId} has steps that did not pass: ${steps.join(', ')} - retry them or start a new session`
+      );
+    }
+    if (session.executedSteps.length === 0) {
+      throw new Error(`Session ${session.sessionId} has no passed steps to record`);
+    }
+
+    return this.create({
+      name: name || session.scenario.slice(0, 80),
+      scenario: session.scenario,
+      steps: session.executedSteps,
+      browser: session.browser,
+      sessionId: session.sessionId,
+    });
+  }
+
+  // ============================================
+  // Replay
+  // ============================================
+
+  /**
+   * Execute a recording's steps without generating anything
+   * @param onStepResult - Called after each step (e.g. to stream progress)
+   * @param executor - Runs the steps; pass one to be able to close its browser (cancel)
+   * @returns null when the recording does not exist
+   */
+  async replay(
+    id: string,
+    options: RecordedTestReplayOptions = {},
+    onStepResult?: (result: TestStepResult, stepIndex: number) => void | Promise<void>,
+    executor: StepExecutorService = this.createExecutor()
+  ): Promise<RecordedTestReplayResult | null> {
+    const recording = await this.repository.findById(id);
+    if (!recording) return null;
+
+    console.log(`[RecordedTests] Replaying ${id} (${recording.steps.length} steps)`);
+
+    const execution = await executor.execute(
+      {
+        steps: recording.steps,
+        scenario: recording.scenario,
+        browser: options.browser || recording.browser,
+        authProfile: options.authProfile,
+        options: { ...options.options, selfHeal: options.selfHeal ?? true },
+      },
+      onStepResult
+    );
+
+    const healed = this.collectHealing(execution);
+    const record = await this.runHistory.recordReplay(execution, recording);
+    const recordingUpdated = healed.length > 0 && options.saveHealedSelectors !== false;
+
+    await this.repository.update(id, {
+      steps: recordingUpdated ? this.applyHealing(recording.steps, healed) : recording.steps,
+      lastReplay: {
+        runId: record.id,
+        status: execution.status,
+        healedSteps: healed.length,
+        startedAt: execution.startedAt,
+        completedAt: execution.completedAt,
+      },
+    });
+
+    console.log(
+      `[RecordedTests] Replay of ${id} ${execution.status} in ${execution.totalDuration}ms` +
+        (healed.length ? ` - ${healed.length} step(s) healed` : '')
+    );
+
+    return { recordingId: id, runId: record.id, execution, healed, recordingUpdated };
+  }
+
+  private collectHealing(execution: TestExecutionResult): RecordedTestHealing[] {
+    return execution.steps.flatMap((result, stepIndex) => {
+      const healing = result.healing;
+      if (!healing?.healed || !healing.healedTarget) return [];
+
+      return [{
+        stepIndex,
+        originalTarget: healing.originalTarget,
+        healedTarget: healing.healedTarget,
+        healedFrame: healing.healedFrame ?? '',
+      }];
+    });
+  }
+
+  private applyHealing(steps: TestStep[], healed: RecordedTestHealing[]): TestStep[] {
+    return steps.map((step, index) => {
+      const healing = healed.find((h) => h.stepIndex === index);
+      return healing ? { ...step, target: healing.healedTarget, frame: healing.healedFrame } : step;
+    });
+  }
+}
+
+// Factory
+export function createRecordedTestService(
+  repository: IRecordedTestRepository,
+  createExecutor: () => StepExecutorService,
+  runHistory: RunHistoryService
+): RecordedTestService {
+  return new RecordedTestService(repository, createExecutor, runHistory);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const recordedTests = createRecordedTestService(
+  recordedTestRepository,
+  () => createStepExecutorService(createTestGeneratorService(llmManager)),
+  createRunHistoryService(runHistoryRepository)
+);
@@ -0,0 +1,381 @@
+/**
+ * Report Service
+ *
+ * Single Responsibility: Render run records as CI-friendly reports
+ * - JUnit XML for Jenkins / GitLab test tabs (one testcase per step)
+ * - Self-contained HTML with embedded failure screenshots
+ * - Markdown for PR comments
+ */
+
+import {
+  TestRunRecord,
+  TestStep,
+  TestStepResult,
+  ReportFormat,
+  TestReport,
+} from '../types/index.js';
+
+type CaseStatus = 'passed' | 'failed' | 'skipped' | 'error';
+
+interface ReportCase {
+  name: string;
+  step: TestStep;
+  status: CaseStatus;
+  duration: number; // ms
+  message?: string;
+  screenshot?: string; // base64
+}
+
+interface ReportTotals {
+  tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  errors: number;
+}
+
+const REPORT_FILES: Record<ReportFormat, { extension: string; contentType: string }> = {
+  junit: { extension: 'xml', contentType: 'application/xml' },
+  html: { extension: 'html', contentType: 'text/html' },
+  markdown: { extension: 'md', contentType: 'text/markdown' },
+};
+
+const STATUS_ICONS: Record<CaseStatus | TestRunRecord['status'], string> = {
+  passed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+  error: '💥',
+  generated: '📝',
+};
+
+export class ReportService {
+  render(run: TestRunRecord, format: ReportFormat): TestReport {
+    const renderers: Record<ReportFormat, (run: TestRunRecord) => string> = {
+      junit: (r) => this.renderJUnit(r),
+      html: (r) => this.renderHtml(r),
+      markdown: (r) => this.renderMarkdown(r),
+    };
+
+    const { extension, contentType } = REPORT_FILES[format];
+
+    return {
+      format,
+      fileName: `${run.id}.${extension}`,
+      contentType,
+      content: renderers[format](run),
+    };
+  }
+
+  // ============================================
+  // JUnit XML
+  // ============================================
+
+  private renderJUnit(run: TestRunRecord): string {
+    const cases = this.collectCases(run);
+    const totals = this.countCases(cases);
+    const time = this.seconds(run.totalDuration);
+    const suiteName = run.prompt || run.id;
+    const classname = `ai-test-assistant.${run.source}`;
+
+    const properties = [
+      ['runId', run.id],
+      ['source', run.source],
+      ['scenarioId', run.scenarioId],
+      ['scheduleId', run.scheduleId],
+      ['llmProvider', run.llmUsed?.provider],
+      ['llmModel', run.llmUsed?.model],
+      ['executionMethod', run.executionMethod],
+      ['mcpClient', run.mcpClient],
+    ]
+      .filter(([, value]) => value)
+      .map(([name, value]) => `      <property name="${this.xml(name!)}" value="${this.xml(value!)}"/>`);
+
+    const testcases = cases.map((c) => {
+      const open = `    <testcase name="${this.xml(c.name)}" classname="${this.xml(classname)}" time="${this.seconds(c.duration)}"`;
+
+      switch (c.status) {
+        case 'failed':
+          return [
+            `${open}>`,
+            `      <failure message="${this.xml(this.firstLine(c.message))}" type="${this.xml(c.step.action)}">${this.xml(c.message || '')}</failure>`,
+            '    </testcase>',
+          ].join('\n');
+        case 'error':
+          return [
+            `${open}>`,
+            `      <error message="${this.xml(this.firstLine(c.message))}">${this.xml(c.message || '')}</error>`,
+            '    </testcase>',
+          ].join('\n');
+        case 'skipped':
+          return [`${open}>`, `      <skipped message="${this.xml(c.message || '')}"/>`, '    </testcase>'].join('\n');
+        default:
+          // Passed steps can still carry details, e.g. an accessibility audit summary
+          return c.message
+            ? [`${open}>`, `      <system-out>${this.xml(c.message)}</system-out>`, '    </testcase>'].join('\n')
+            : `${open}/>`;
+      }
+    });
+
+    const counts = `tests="${totals.tests}" failures="${totals.failed}" errors="${totals.errors}" skipped="${totals.skipped}" time="${time}"`;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="AI Test Assistant" ${counts}>`,
+      `  <testsuite name="${this.xml(suiteName)}" id="${this.xml(run.id)}" ${counts} timestamp="${run.startedAt.toISOString()}">`,
+      ...(properties.length > 0 ? ['    <properties>', ...properties, '    </properties>'] : []),
+      ...testcases,
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  // ============================================
+  // HTML
+  // ============================================
+
+  private renderHtml(run: TestRunRecord): string {
+    const cases = this.collectCases(run);
+    const totals = this.countCases(cases);
+    const title = run.prompt || run.id;
+
+    const details = [
+      ['Run', run.id],
+      ['Source', run.source],
+      ['LLM', run.llmUsed && `${run.llmUsed.provider} / ${run.llmUsed.model}`],
+      ['Execution', [run.executionMethod, run.mcpClient].filter(Boolean).join(' / ')],
+      ['Dataset rows', run.dataDriven && `${run.dataDriven.total} (${run.dataDriven.passed} passed, ${run.dataDriven.failed} failed, ${run.dataDriven.errored} errored)`],
+      ['Browser matrix', run.batch && `${run.batch.total} (${run.batch.passed} passed, ${run.batch.failed} failed, ${run.batch.errored} errored)`],
+      ['Started', run.startedAt.toISOString()],
+      ['Duration', `${this.seconds(run.totalDuration)}s`],
+      ['Steps', `${totals.passed} passed, ${totals.failed} failed, ${totals.skipped} skipped, ${totals.errors} errors`],
+    ]
+      .filter(([, value]) => value)
+      .map(([label, value]) => `<tr><th>${this.html(label!)}</th><td>${this.html(value!)}</td></tr>`)
+      .join('\n');
+
+    const rows = cases
+      .map((c, index) => {
+        const message = c.message ? `<pre>${this.html(c.message)}</pre>` : '';
+        const screenshot = c.screenshot
+          ? `<img src="data:${this.imageMimeType(c.screenshot)};base64,${c.screenshot}" alt="Screenshot of step ${index + 1}">`
+          : '';
+
+        return [
+          `<tr class="${c.status}">`,
+          `<td>${index + 1}</td>`,
+          `<td>${this.html(c.name)}${message}${screenshot}</td>`,
+          `<td>${STATUS_ICONS[c.status]} ${c.status}</td>`,
+          `<td>${this.seconds(c.duration)}s</td>`,
+          '</tr>',
+        ].join('');
+      })
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${this.html(title)} - Test Report</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem; color: #1f2933; }
+h1 { font-size: 1.4rem; }
+.badge { display: inline-block; padding: 0.2rem 0.6rem; border-radius: 4px; color: #fff; font-size: 0.9rem; }
+.badge.passed { background: #2f855a; } .badge.failed { background: #c53030; }
+.badge.error { background: #9b2c2c; } .badge.generated { background: #4a5568; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #d2d6dc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+.summary th { width: 10rem; background: #f4f5f7; }
+tr.failed, tr.error { background: #fff5f5; } tr.skipped { color: #718096; }
+pre { white-space: pre-wrap; margin: 0.4rem 0 0; color: #c53030; }
+img { display: block; max-width: 100%; margin-top: 0.5rem; border: 1px solid #d2d6dc; }
+</style>
+</head>
+<body>
+<h1>${this.html(title)} <span class="badge ${run.status}">${run.status}</span></h1>
+<table class="summary">
+${details}
+</table>
+<table>
+<thead><tr><th>#</th><th>Step</th><th>Status</th><th>Duration</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+  }
+
+  // ============================================
+  // Markdown
+  // ============================================
+
+  private renderMarkdown(run: TestRunRecord): string {
+    const cases = this.collectCases(run);
+    const totals = this.countCases(cases);
+    const lines: string[] = [
+      `## ${STATUS_ICONS[run.status]} Test run ${run.status}: ${this.markdownCell(run.prompt || run.id)}`,
+      '',
+      [
+        `**Run:** \`${run.id}\``,
+        `**Duration:** ${this.seconds(run.totalDuration)}s`,
+        `**Steps:** ${totals.passed} passed, ${totals.failed} failed, ${totals.skipped} skipped`,
+        run.llmUsed && `**LLM:** ${run.llmUsed.provider} (${run.llmUsed.model})`,
+        run.dataDriven && `**Dataset rows:** ${run.dataDriven.passed}/${run.dataDriven.total} passed`,
+        run.batch && `**Browser matrix:** ${run.batch.passed}/${run.batch.total} passed`,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      '',
+      '| # | Step | Status | Duration |',
+      '| - | ---- | ------ | -------- |',
+      ...cases.map(
+        (c, index) =>
+          `| ${index + 1} | ${this.markdownCell(c.name)} | ${STATUS_ICONS[c.status]} ${c.status} | ${this.seconds(c.duration)}s |`
+      ),
+    ];
+
+    const problems = cases.filter((c) => c.status === 'failed' || c.status === 'error');
+    if (problems.length > 0) {
+      lines.push('', '<details><summary>Failures</summary>', '');
+      for (const c of problems) {
+        lines.push(`**${this.markdownCell(c.name)}**`, '', '```', c.message || 'No error message', '```', '');
+      }
+      if (problems.some((c) => c.screenshot)) {
+        lines.push('_Failure screenshots are included in the HTML report._', '');
+      }
+      lines.push('</details>');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ============================================
+  // Shared Helpers
+  // ============================================
+
+  /**
+   * One case per step result, plus skipped cases for steps that never ran
+   * Data-driven and batch runs already hold every row's/cell's results, so only executed steps are listed
+   */
+  private collectCases(run: TestRunRecord): ReportCase[] {
+    const cases: ReportCase[] = run.steps.map((result) => this.toCase(result));
+
+    if (!run.dataDriven && !run.batch) {
+      const skippedMessage = run.status === 'generated'
+        ? 'Not executed'
+        : 'Not run: an earlier step did not pass';
+
+      for (const step of run.generatedSteps.slice(run.steps.length)) {
+        cases.push({ name: this.stepName(step), step, status: 'skipped', duration: 0, message: skippedMessage });
+      }
+    }
+
+    // A run can end in error without any failed step (e.g. the browser did not start)
+    if (run.status === 'error' && !cases.some((c) => c.status === 'failed')) {
+      cases.unshift({
+        name: 'Run setup',
+        step: { action: 'setup' },
+        status: 'error',
+        duration: 0,
+        message: 'The run ended with an error before its steps completed',
+      });
+    }
+
+    return cases;
+  }
+
+  private toCase(result: TestStepResult): ReportCase {
+    const status: CaseStatus =
+      result.status === 'passed' ? 'passed' : result.status === 'failed' ? 'failed' : 'skipped';
+
+    const healed = result.healing?.healed
+      ? `Healed selector: ${result.healing.originalTarget} -> ${result.healing.healedTarget}`
+      : undefined;
+
+    return {
+      name: this.stepName(result.step),
+      step: result.step,
+      status,
+      duration: result.duration,
+      message: [result.error, healed, this.accessibilitySummary(result)].filter(Boolean).join('\n') || undefined,
+      screenshot: result.screenshot,
+    };
+  }
+
+  /**
+   * Audit summary of an expectAccessible step, so reports show the WCAG checks ran
+   */
+  private accessibilitySummary(result: TestStepResult): string | undefined {
+    const report = result.accessibility;
+    if (!report) return undefined;
+
+    const scope = report.tags.length ? `${report.engine}; ${report.tags.join(', ')}` : report.engine;
+    const below = report.violations.length - report.failingCount;
+
+    return [
+      `Accessibility (${scope}): ${report.failingCount} violation(s) at or above ${report.minImpact}, ${below} below; ` +
+        `${report.passedRules} rules passed, ${report.incompleteRules} need review`,
+      ...report.violations.map(
+        (v) => `- [${v.impact || 'unknown'}] ${v.ruleId}: ${v.help} (${v.nodes.length} element${v.nodes.length === 1 ? '' : 's'})`
+      ),
+    ].join('\n');
+  }
+
+  private countCases(cases: ReportCase[]): ReportTotals {
+    return {
+      tests: cases.length,
+      passed: cases.filter((c) => c.status === 'passed').length,
+      failed: cases.filter((c) => c.status === 'failed').length,
+      skipped: cases.filter((c) => c.status === 'skipped').length,
+      errors: cases.filter((c) => c.status === 'error').length,
+    };
+  }
+
+  private stepName(step: TestStep): string {
+    return step.description || [step.action, step.target, step.value].filter(Boolean).join(' ');
+  }
+
+  private seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+  }
+
+  private firstLine(message?: string): string {
+    return (message || '').split('\n')[0];
+  }
+
+  private imageMimeType(base64: string): string {
+    return base64.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+  }
+
+  /**
+   * Escape for XML attributes and text, dropping characters XML 1.0 forbids
+   */
+  private xml(value: string): string {
+    return value
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private html(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private markdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
+}
+
+// Factory
+export function createReportService(): ReportService {
+  return new ReportService();
+}
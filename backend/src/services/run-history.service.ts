@@ -0,0 +1,182 @@
+/**
+ * Run History Service
+ *
+ * Single Responsibility: Turn run results into history records
+ * - Records dynamic runs and direct executions (data-driven and batch runs as one record)
+ * - Recording failures never fail the run itself
+ * - Returns the built record (e.g. for report rendering)
+ */
+
+import {
+  IRunHistoryRepository,
+  DynamicTestRunResponse,
+  TestExecutionResult,
+  DataDrivenExecutionResult,
+  BatchExecutionResult,
+  TestRunRecord,
+  TestRunSource,
+  TestRunSummary,
+  TestStep,
+  RecordedTest,
+  RunHistoryQuery,
+  PaginatedResult,
+} from '../types/index.js';
+
+export class RunHistoryService {
+  constructor(private readonly repository: IRunHistoryRepository) {}
+
+  /**
+   * Record a dynamic (prompt → steps → execution) run
+   */
+  async recordDynamicRun(
+    response: DynamicTestRunResponse,
+    meta: { source?: TestRunSource; scenarioId?: string; scheduleId?: string } = {}
+  ): Promise<TestRunRecord> {
+    const execution = response.execution || (response.dataDriven && this.flatten(response.dataDriven));
+
+    return this.save({
+      id: response.id,
+      source: meta.source || 'dynamic',
+      status: execution ? execution.status : 'generated',
+      prompt: response.prompt,
+      scenarioId: meta.scenarioId,
+      scheduleId: meta.scheduleId,
+      llmUsed: response.llmUsed,
+      llmUsage: response.llmUsage,
+      executionMethod: response.executionMethod,
+      mcpClient: response.mcpClient,
+      generatedSteps: response.generatedSteps,
+      steps: execution?.steps || [],
+      dataDriven: response.dataDriven?.summary,
+      artifacts: response.execution?.artifacts,
+      totalDuration: execution?.totalDuration || response.llmUsed?.latencyMs || 0,
+      startedAt: execution?.startedAt || response.timestamp,
+      completedAt: execution?.completedAt || response.timestamp,
+    });
+  }
+
+  /**
+   * Record a direct step execution
+   * @param steps - Requested steps (results stop at the first failure)
+   */
+  async recordExecution(
+    result: TestExecutionResult,
+    steps: TestStep[] = result.steps.map((r) => r.step)
+  ): Promise<TestRunRecord> {
+    return this.save({
+      id: result.id,
+      source: 'execute',
+      status: result.status,
+      prompt: result.scenario,
+      executionMethod: 'direct',
+      generatedSteps: steps,
+      steps: result.steps,
+      artifacts: result.artifacts,
+      totalDuration: result.totalDuration,
+      startedAt: result.startedAt,
+      completedAt: result.completedAt,
+    });
+  }
+
+  /**
+   * Record a replay of a recorded test (no LLM generation involved)
+   */
+  async recordReplay(result: TestExecutionResult, recording: RecordedTest): Promise<TestRunRecord> {
+    return this.save({
+      id: result.id,
+      source: 'replay',
+      status: result.status,
+      prompt: recording.scenario,
+      recordingId: recording.id,
+      executionMethod: 'direct',
+      generatedSteps: recording.steps,
+      steps: result.steps,
+      artifacts: result.artifacts,
+      totalDuration: result.totalDuration,
+      startedAt: result.startedAt,
+      completedAt: result.completedAt,
+    });
+  }
+
+  /**
+   * Record a data-driven direct execution as one run covering every row
+   */
+  async recordDataDrivenExecution(
+    result: DataDrivenExecutionResult,
+    steps: TestStep[]
+  ): Promise<TestRunRecord> {
+    return this.save({
+      id: result.id,
+      source: 'execute',
+      status: result.status,
+      prompt: result.scenario,
+      executionMethod: 'direct',
+      generatedSteps: steps,
+      steps: this.flatten(result).steps,
+      dataDriven: result.summary,
+      totalDuration: result.totalDuration,
+      startedAt: result.startedAt,
+      completedAt: result.completedAt,
+    });
+  }
+
+  /**
+   * Record a browser x viewport batch as one run covering every cell
+   */
+  async recordBatchExecution(result: BatchExecutionResult): Promise<TestRunRecord> {
+    return this.save({
+      id: result.id,
+      source: 'execute',
+      status: result.status,
+      prompt: result.scenario,
+      executionMethod: 'direct',
+      generatedSteps: result.steps,
+      steps: result.cells.flatMap((c) => c.result.steps),
+      batch: result.summary,
+      totalDuration: result.totalDuration,
+      startedAt: result.startedAt,
+      completedAt: result.completedAt,
+    });
+  }
+
+  async getRun(id: string): Promise<TestRunRecord | null> {
+    return this.repository.findById(id);
+  }
+
+  async listRuns(query?: RunHistoryQuery): Promise<PaginatedResult<TestRunSummary>> {
+    return this.repository.query(query);
+  }
+
+  /**
+   * Merge per-row results into one result (steps in row order)
+   */
+  private flatten(result: DataDrivenExecutionResult): Pick<
+    TestExecutionResult,
+    'status' | 'steps' | 'totalDuration' | 'startedAt' | 'completedAt'
+  > {
+    return {
+      status: result.status,
+      steps: result.rows.flatMap((r) => r.result.steps),
+      totalDuration: result.totalDuration,
+      startedAt: result.startedAt,
+      completedAt: result.completedAt,
+    };
+  }
+
+  /**
+   * @returns The record, even if persisting it failed
+   */
+  private async save(record: TestRunRecord): Promise<TestRunRecord> {
+    try {
+      await this.repository.save(record);
+    } catch (error) {
+      console.error(`[RunHistory] Failed to record run ${record.id}:`, error);
+    }
+    return record;
+  }
+}
+
+// Factory
+export function createRunHistoryService(repository: IRunHistoryRepository): RunHistoryService {
+  return new RunHistoryService(repository);
+}
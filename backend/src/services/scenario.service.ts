@@ -0,0 +1,99 @@
+/**
+ * Scenario Service
+ *
+ * Single Responsibility: Manage the saved scenario library
+ * - CRUD and tag filtering via IScenarioRepository
+ * - Re-run saved scenarios through TestOrchestratorService
+ */
+
+import { TestOrchestratorService } from './test-orchestrator.service.js';
+import {
+  IScenarioRepository,
+  SavedTestScenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  ScenarioQuery,
+  ScenarioRunOptions,
+  DynamicTestRunResponse,
+} from '../types/index.js';
+
+export class ScenarioService {
+  constructor(
+    private readonly repository: IScenarioRepository,
+    private readonly orchestrator: TestOrchestratorService
+  ) {}
+
+  async list(query?: ScenarioQuery): Promise<SavedTestScenario[]> {
+    return this.repository.list(query);
+  }
+
+  async get(id: string): Promise<SavedTestScenario | null> {
+    return this.repository.findById(id);
+  }
+
+  async create(input: CreateScenarioInput): Promise<SavedTestScenario> {
+    const scenario = await this.repository.create(input);
+    console.log(`[ScenarioService] Created scenario ${scenario.id}: ${scenario.name}`);
+    return scenario;
+  }
+
+  async update(id: string, input: UpdateScenarioInput): Promise<SavedTestScenario | null> {
+    return this.repository.update(id, input);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.repository.delete(id);
+  }
+
+  async listTags(): Promise<string[]> {
+    return this.repository.listTags();
+  }
+
+  /**
+   * Re-run a saved scenario
+   * - Reuses stored steps unless regeneration is requested
+   * - Stores freshly generated steps back on the scenario
+   *
+   * @returns null if the scenario does not exist
+   */
+  async run(
+    id: string,
+    options: ScenarioRunOptions = {}
+  ): Promise<DynamicTestRunResponse | null> {
+    const scenario = await this.repository.findById(id);
+    if (!scenario) return null;
+
+    const storedSteps = options.regenerate ? undefined : scenario.generatedSteps;
+
+    console.log(
+      `[ScenarioService] Running scenario ${id} (${storedSteps?.length ? 'stored steps' : 'generating steps'})`
+    );
+
+    const result = await this.orchestrator.runDynamicTest({
+      prompt: scenario.scenario,
+      context: scenario.context,
+      steps: storedSteps,
+      llmProvider: options.llmProvider,
+      mcpClient: options.mcpClient,
+      executeImmediately: options.executeImmediately ?? true,
+      cache: options.cache,
+      executionOptions: options.executionOptions,
+      dataset: options.dataset,
+      authProfile: options.authProfile,
+    });
+
+    if (!storedSteps?.length && result.generatedSteps.length > 0) {
+      await this.repository.update(id, { generatedSteps: result.generatedSteps });
+    }
+
+    return result;
+  }
+}
+
+// Factory
+export function createScenarioService(
+  repository: IScenarioRepository,
+  orchestrator: TestOrchestratorService
+): ScenarioService {
+  return new ScenarioService(repository, orchestrator);
+}
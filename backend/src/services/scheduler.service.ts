@@ -0,0 +1,354 @@
+/**
+ * Scheduler Service
+ *
+ * Single Responsibility: Run saved scenarios or fixed step lists on cron schedules
+ * - Schedule CRUD, pause and resume via IScheduleRepository
+ * - Checks due schedules on a short tick; occurrences missed while the server was down are not replayed
+ * - At most `maxConcurrentRuns` runs at once, extra due runs wait in a FIFO queue
+ * - A schedule never overlaps itself - a due run is skipped while the previous one is still going
+ * - MCP runs share the MCP client's browser, so they run one at a time
+ * - Every run is recorded in run history and as the schedule's lastRun
+ */
+
+import { TestOrchestratorService, createTestOrchestratorService } from './test-orchestrator.service.js';
+import { ScenarioService } from './scenario.service.js';
+import { RunHistoryService, createRunHistoryService } from './run-history.service.js';
+import { CronExpression } from './cron-expression.js';
+import { llmManager } from '../llm/index.js';
+import { mcpManager } from '../mcp/index.js';
+import { scheduleRepository, scenarioRepository, runHistoryRepository } from '../storage/index.js';
+import { config } from '../config/index.js';
+import {
+  IScheduleRepository,
+  IScenarioRepository,
+  TestSchedule,
+  CreateScheduleInput,
+  ScheduleView,
+  ScheduleRunInfo,
+  DynamicTestRunResponse,
+} from '../types/index.js';
+
+export interface SchedulerOptions {
+  maxConcurrentRuns: number;
+  tickIntervalMs?: number;
+}
+
+const DEFAULT_TICK_INTERVAL_MS = 15000;
+
+interface PlannedRun {
+  cron: CronExpression;
+  nextRunAt: Date;
+}
+
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private planned: Map<string, PlannedRun> = new Map();
+  private queue: string[] = [];
+  private running: Set<string> = new Set();
+  private mcpTail: Promise<unknown> = Promise.resolve(); // Last queued MCP run
+
+  /**
+   * @param createOrchestrator - Called per run so concurrent direct runs get their own browser
+   */
+  constructor(
+    private readonly repository: IScheduleRepository,
+    private readonly scenarioRepository: IScenarioRepository,
+    private readonly runHistory: RunHistoryService,
+    private readonly createOrchestrator: () => TestOrchestratorService,
+    private readonly options: SchedulerOptions
+  ) {}
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    const schedules = await this.repository.list();
+    for (const schedule of schedules) {
+      if (schedule.enabled) {
+        this.plan(schedule);
+      }
+    }
+
+    this.timer = setInterval(
+      () => this.tick(),
+      this.options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS
+    );
+
+    console.log(
+      `[Scheduler] Started with ${this.planned.size} active schedule(s), max ${this.options.maxConcurrentRuns} concurrent run(s)`
+    );
+  }
+
+  /**
+   * Stop ticking - runs already in progress finish on their own
+   */
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    this.queue = [];
+    console.log('[Scheduler] Stopped');
+  }
+
+  // ============================================
+  // Schedule Management
+  // ============================================
+
+  async list(): Promise<ScheduleView[]> {
+    const schedules = await this.repository.list();
+    return schedules.map((schedule) => this.toView(schedule));
+  }
+
+  async get(id: string): Promise<ScheduleView | null> {
+    const schedule = await this.repository.findById(id);
+    return schedule && this.toView(schedule);
+  }
+
+  /**
+   * @throws Error if the cron expression is invalid or the scenario does not exist
+   */
+  async create(input: CreateScheduleInput): Promise<ScheduleView> {
+    CronExpression.parse(input.cron);
+
+    if (input.target.type === 'scenario') {
+      const scenario = await this.scenarioRepository.findById(input.target.scenarioId);
+      if (!scenario) {
+        throw new Error(`Scenario ${input.target.scenarioId} not found`);
+      }
+    }
+
+    const schedule = await this.repository.create(input);
+    if (schedule.enabled) {
+      this.plan(schedule);
+    }
+
+    console.log(`[Scheduler] Created schedule ${schedule.id} (${schedule.cron}): ${schedule.name}`);
+    return this.toView(schedule);
+  }
+
+  async pause(id: string): Promise<ScheduleView | null> {
+    const schedule = await this.repository.update(id, { enabled: false });
+    if (!schedule) return null;
+
+    this.unplan(id);
+    console.log(`[Scheduler] Paused schedule ${id}`);
+    return this.toView(schedule);
+  }
+
+  async resume(id: string): Promise<ScheduleView | null> {
+    const schedule = await this.repository.update(id, { enabled: true });
+    if (!schedule) return null;
+
+    this.plan(schedule);
+    console.log(`[Scheduler] Resumed schedule ${id}`);
+    return this.toView(schedule);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.repository.delete(id);
+    if (deleted) {
+      this.unplan(id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Queue a run now, outside the cron timing (works for paused schedules too)
+   * @returns null if the schedule does not exist
+   */
+  async trigger(id: string): Promise<ScheduleView | null> {
+    const schedule = await this.repository.findById(id);
+    if (!schedule) return null;
+
+    this.enqueue(id);
+    this.drain();
+    return this.toView(schedule);
+  }
+
+  // ============================================
+  // Timing
+  // ============================================
+
+  private plan(schedule: TestSchedule, from: Date = new Date()): void {
+    try {
+      const cron = CronExpression.parse(schedule.cron);
+      this.planned.set(schedule.id, { cron, nextRunAt: cron.next(from) });
+    } catch (error) {
+      this.planned.delete(schedule.id);
+      console.error(`[Scheduler] Cannot plan schedule ${schedule.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private unplan(id: string): void {
+    this.planned.delete(id);
+    this.queue = this.queue.filter((queued) => queued !== id);
+  }
+
+  private tick(now: Date = new Date()): void {
+    for (const [id, run] of this.planned) {
+      if (run.nextRunAt > now) continue;
+
+      this.enqueue(id);
+
+      try {
+        run.nextRunAt = run.cron.next(now);
+      } catch {
+        this.planned.delete(id);
+      }
+    }
+
+    this.drain();
+  }
+
+  // ============================================
+  // Execution
+  // ============================================
+
+  private enqueue(id: string): void {
+    if (this.running.has(id)) {
+      console.warn(`[Scheduler] Skipping schedule ${id} - previous run still in progress`);
+      return;
+    }
+    if (!this.queue.includes(id)) {
+      this.queue.push(id);
+    }
+  }
+
+  /**
+   * Start queued runs while below the concurrency limit
+   */
+  private drain(): void {
+    while (this.running.size < this.options.maxConcurrentRuns && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      this.running.add(id);
+
+      this.runSchedule(id)
+        .catch((error) => {
+          // Storage failures reading or updating the schedule - the run itself reports its own errors
+          console.error(`[Scheduler] Schedule ${id} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+    }
+  }
+
+  private async runSchedule(id: string): Promise<void> {
+    const schedule = await this.repository.findById(id);
+    if (!schedule) return;
+
+    console.log(`[Scheduler] Running schedule ${id}: ${schedule.name}`);
+    const startedAt = new Date();
+    let lastRun: ScheduleRunInfo;
+
+    try {
+      const result = await this.serializeMCP(schedule, () => this.execute(schedule));
+      const execution = result.execution || result.dataDriven;
+
+      await this.runHistory.recordDynamicRun(result, {
+        source: 'schedule',
+        scenarioId: schedule.target.type === 'scenario' ? schedule.target.scenarioId : undefined,
+        scheduleId: id,
+      });
+
+      lastRun = {
+        runId: result.id,
+        status: execution?.status || 'error',
+        startedAt,
+        completedAt: new Date(),
+      };
+    } catch (error) {
+      lastRun = {
+        status: 'error',
+        startedAt,
+        completedAt: new Date(),
+        error: error instanceof Error ? error.message : 'Scheduled run failed',
+      };
+    }
+
+    await this.repository.update(id, { lastRun });
+    console.log(`[Scheduler] Schedule ${id} finished - Status: ${lastRun.status}`);
+  }
+
+  /**
+   * Chain MCP runs - the singleton MCP client restarts its browser when the
+   * emulation or auth profile changes, which would end an overlapping run
+   * A waiting MCP run keeps its concurrency slot
+   */
+  private serializeMCP<T>(schedule: TestSchedule, run: () => Promise<T>): Promise<T> {
+    if (!schedule.mcpClient || schedule.mcpClient === 'direct') {
+      return run();
+    }
+
+    const result = this.mcpTail.then(run);
+    this.mcpTail = result.catch(() => undefined);
+    return result;
+  }
+
+  private async execute(schedule: TestSchedule): Promise<DynamicTestRunResponse> {
+    const orchestrator = this.createOrchestrator();
+    const { target } = schedule;
+
+    if (target.type === 'scenario') {
+      const scenarios = new ScenarioService(this.scenarioRepository, orchestrator);
+      const result = await scenarios.run(target.scenarioId, {
+        llmProvider: schedule.llmProvider,
+        mcpClient: schedule.mcpClient,
+        executeImmediately: true,
+        regenerate: target.regenerate,
+        executionOptions: schedule.executionOptions,
+        dataset: schedule.dataset,
+      });
+
+      if (!result) {
+        throw new Error(`Scenario ${target.scenarioId} not found`);
+      }
+      return result;
+    }
+
+    return orchestrator.runDynamicTest({
+      prompt: schedule.name,
+      steps: target.steps,
+      mcpClient: schedule.mcpClient,
+      executeImmediately: true,
+      executionOptions: schedule.executionOptions,
+      dataset: schedule.dataset,
+    });
+  }
+
+  private toView(schedule: TestSchedule): ScheduleView {
+    return {
+      ...schedule,
+      nextRunAt: schedule.enabled ? this.planned.get(schedule.id)?.nextRunAt : undefined,
+      running: this.running.has(schedule.id),
+    };
+  }
+}
+
+// Factory
+export function createSchedulerService(
+  repository: IScheduleRepository,
+  scenarioRepository: IScenarioRepository,
+  runHistory: RunHistoryService,
+  createOrchestrator: () => TestOrchestratorService,
+  options: SchedulerOptions
+): SchedulerService {
+  return new SchedulerService(repository, scenarioRepository, runHistory, createOrchestrator, options);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const scheduler = createSchedulerService(
+  scheduleRepository,
+  scenarioRepository,
+  createRunHistoryService(runHistoryRepository),
+  () => createTestOrchestratorService(llmManager, mcpManager),
+  { maxConcurrentRuns: config.scheduler.maxConcurrentRuns }
+);
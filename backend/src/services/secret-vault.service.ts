@@ -0,0 +1,193 @@
+/**
+ * Secret Vault Service
+ *
+ * Single Responsibility: Encrypt, store and resolve named secrets
+ * - AES-256-GCM with a key derived from SECRETS_MASTER_KEY (scrypt)
+ * - {{secret:name}} placeholders are resolved only at execution time
+ * - Values revealed during execution are masked in errors and logs
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import {
+  ISecretRepository,
+  ISecretResolver,
+  EncryptedSecret,
+  SecretMetadata,
+} from '../types/index.js';
+import { secretRepository } from '../storage/index.js';
+import { config } from '../config/index.js';
+
+const SECRET_PATTERN = /\{\{\s*secret:([\w-]+)\s*\}\}/g;
+const SECRET_NAME_PATTERN = /^[\w-]+$/;
+const KEY_SALT = 'ai-test-assistant:secrets:v1';
+const MASK = '******';
+
+export class SecretVaultService implements ISecretResolver {
+  private readonly key: Buffer | null;
+  private readonly revealed = new Set<string>();
+
+  constructor(
+    private readonly repository: ISecretRepository,
+    masterKey?: string
+  ) {
+    this.key = masterKey ? scryptSync(masterKey, KEY_SALT, 32) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.key !== null;
+  }
+
+  static isValidName(name: string): boolean {
+    return SECRET_NAME_PATTERN.test(name);
+  }
+
+  // ============================================
+  // Management
+  // ============================================
+
+  async list(): Promise<SecretMetadata[]> {
+    const secrets = await this.repository.list();
+    return secrets.map((s) => this.toMetadata(s));
+  }
+
+  /**
+   * Create or replace a secret
+   */
+  async set(name: string, value: string): Promise<SecretMetadata> {
+    if (!SecretVaultService.isValidName(name)) {
+      throw new Error(`Invalid secret name: ${name}`);
+    }
+
+    const existing = await this.repository.findByName(name);
+    const now = new Date();
+
+    const saved = await this.repository.save({
+      id: name,
+      ...this.encrypt(name, value),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+
+    console.log(`[SecretVault] Stored secret ${name}`);
+    return this.toMetadata(saved);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.repository.delete(name);
+  }
+
+  // ============================================
+  // Resolution (ISecretResolver)
+  // ============================================
+
+  containsSecrets(text?: string): boolean {
+    return !!text && new RegExp(SECRET_PATTERN.source).test(text);
+  }
+
+  async resolve(text: string): Promise<string> {
+    const names = Array.from(text.matchAll(SECRET_PATTERN), (m) => m[1]);
+    if (names.length === 0) return text;
+
+    const values = new Map<string, string>();
+    for (const name of new Set(names)) {
+      values.set(name, await this.reveal(name));
+    }
+
+    return text.replace(SECRET_PATTERN, (_placeholder, name: string) => values.get(name)!);
+  }
+
+  mask(text: string): string {
+    let masked = text;
+
+    // Longest first so a value containing another value is fully masked
+    const values = Array.from(this.revealed).sort((a, b) => b.length - a.length);
+    for (const value of values) {
+      masked = masked.split(value).join(MASK);
+    }
+
+    return masked;
+  }
+
+  // ============================================
+  // Encryption
+  // ============================================
+
+  private async reveal(name: string): Promise<string> {
+    if (!this.key) {
+      throw new Error('Secrets vault is not configured (set SECRETS_MASTER_KEY)');
+    }
+
+    const secret = await this.repository.findByName(name);
+    if (!secret) {
+      throw new Error(`Secret not found: ${name}`);
+    }
+
+    const value = this.decrypt(secret);
+    if (value) {
+      this.revealed.add(value);
+    }
+    return value;
+  }
+
+  private encrypt(
+    name: string,
+    value: string
+  ): Pick<EncryptedSecret, 'iv' | 'authTag' | 'ciphertext'> {
+    if (!this.key) {
+      throw new Error('Secrets vault is not configured (set SECRETS_MASTER_KEY)');
+    }
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(name)); // Bind ciphertext to its name
+
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  private decrypt(secret: EncryptedSecret): string {
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.key!,
+        Buffer.from(secret.iv, 'base64')
+      );
+      decipher.setAAD(Buffer.from(secret.id));
+      decipher.setAuthTag(Buffer.from(secret.authTag, 'base64'));
+
+      return Buffer.concat([
+        decipher.update(Buffer.from(secret.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new Error(`Cannot decrypt secret ${secret.id} (wrong SECRETS_MASTER_KEY?)`);
+    }
+  }
+
+  private toMetadata(secret: EncryptedSecret): SecretMetadata {
+    return {
+      name: secret.id,
+      createdAt: secret.createdAt,
+      updatedAt: secret.updatedAt,
+    };
+  }
+}
+
+// Factory
+export function createSecretVaultService(
+  repository: ISecretRepository,
+  masterKey?: string
+): SecretVaultService {
+  return new SecretVaultService(repository, masterKey);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const secretVault = createSecretVaultService(secretRepository, config.secrets.masterKey);
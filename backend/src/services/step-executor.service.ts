@@ -9,7 +9,11 @@ import {
   firefox,
   webkit,
   Browser,
+  BrowserContext,
   Page,
+  Frame,
+  FrameLocator,
+  Request,
   expect,
 } from "@playwright/test";
 import {
@@ -18,14 +22,86 @@ import {
   TestExecutionResult,
   TestExecutionRequest,
   BrowserType,
+  BrowserEmulation,
+  EmulatedDevice,
   PageSnapshot,
   DOMElement,
+  ISelectorHealer,
+  ISecretResolver,
+  IAuthStateProvider,
+  StorageState,
+  SelectorHealing,
+  RunArtifacts,
+  IVisualComparator,
+  VisualComparison,
 } from "../types/index.js";
+import { secretVault } from "./secret-vault.service.js";
+import { authProfiles } from "./auth-profile.service.js";
+import { ArtifactRecorder, ArtifactStoreService, artifactStore } from "./artifact-store.service.js";
+import { VisualMismatchError, visualBaselines } from "./visual-regression.service.js";
+import {
+  AccessibilityAuditService,
+  AccessibilityViolationError,
+  accessibilityAuditor,
+} from "./accessibility-audit.service.js";
+import {
+  NETWORK_ACTIONS,
+  urlPatternToRegExp,
+  matchesNetworkStep,
+  buildMockResponse,
+  describeNetworkStep,
+} from "./network-route.js";
+import { buildContextOptions, describeEmulatedDevice, pickEmulation } from "./browser-emulation.js";
+
+/**
+ * Actions whose target is a URL, URL pattern or file path, not an element selector
+ */
+const NON_ELEMENT_ACTIONS = [
+  "goto",
+  "wait",
+  "screenshot",
+  "expectUrl",
+  "switchTab",
+  "waitForPopup",
+  "closeTab",
+  "withinFrame",
+  "expectScreenshot", // Target (an element to capture) is optional
+  "expectAccessible", // Target (an element to audit) is optional
+  ...NETWORK_ACTIONS,
+];
+
+/**
+ * Scope for element steps - the page itself or an iframe inside it
+ */
+type ElementScope = Page | FrameLocator;
 
 export class StepExecutorService {
   private browser: Browser | null = null;
-  private page: Page | null = null;
+  private context: BrowserContext | null = null;
+  private page: Page | null = null; // Active tab
   private persistBrowser: boolean = false;
+  private requests: Request[] = []; // Requests sent by any tab (for expectRequest)
+  private unclaimedPages: Page[] = []; // Tabs/popups opened but not yet taken by waitForPopup
+  private activeFrame: string | null = null; // iframe selector set by withinFrame
+  private emulation: BrowserEmulation = {}; // Device/viewport the browser was launched with
+  private recorder: ArtifactRecorder | null = null; // Trace/video/HAR/console capture of the open browser
+
+  /**
+   * @param selectorHealer - Optional healer used when options.selfHeal is set
+   * @param secretResolver - Fills {{secret:name}} placeholders right before each action
+   * @param authStateProvider - Loads the storage state of request.authProfile at launch
+   * @param artifacts - Run directories for options.artifacts
+   * @param visualComparator - Baselines for expectScreenshot steps
+   * @param accessibility - Rule engine for expectAccessible steps
+   */
+  constructor(
+    private readonly selectorHealer?: ISelectorHealer,
+    private readonly secretResolver: ISecretResolver = secretVault,
+    private readonly authStateProvider: IAuthStateProvider = authProfiles,
+    private readonly artifacts: ArtifactStoreService = artifactStore,
+    private readonly visualComparator: IVisualComparator = visualBaselines,
+    private readonly accessibility: AccessibilityAuditService = accessibilityAuditor
+  ) {}
 
   /**
    * Enable persistent browser mode - browser stays open between execute() calls
@@ -50,13 +126,30 @@ export class StepExecutorService {
   }
 
   /**
-   * Get the current page instance (for snapshot capture, etc.)
+   * Get the active tab (for snapshot capture, etc.)
    * Only available when browser is open
    */
   getCurrentPage(): Page | null {
     return this.page;
   }
 
+  /**
+   * Cookies and localStorage of the open browser (e.g. after a login flow)
+   */
+  async getStorageState(): Promise<StorageState> {
+    if (!this.context) {
+      throw new Error('Cannot read storage state: browser not initialized');
+    }
+    return (await this.context.storageState()) as StorageState;
+  }
+
+  /**
+   * Device the browser emulates (undefined without device/viewport emulation)
+   */
+  getEmulatedDevice(): EmulatedDevice | undefined {
+    return describeEmulatedDevice(this.emulation);
+  }
+
   /**
    * Capture a page snapshot for iterative test generation
    * Uses Playwright's DOM APIs to extract page structure
@@ -73,14 +166,20 @@ export class StepExecutorService {
       const url = this.page.url();
       const title = await this.page.title();
 
-      // Extract DOM elements from the page
+      // Extract DOM elements from the page, then from its iframes
       const elements = await this.extractDOMElements(this.page);
 
+      for (const { frame, selector } of await this.listFrames()) {
+        const frameElements = await this.extractDOMElements(frame);
+        elements.push(...frameElements.map((el) => ({ ...el, frame: selector })));
+      }
+
       return {
         url,
         title,
         elements,
         timestamp: new Date(),
+        device: this.getEmulatedDevice(),
       };
     } catch (error) {
       console.error('[StepExecutor] Failed to capture page snapshot:', error);
@@ -89,10 +188,48 @@ export class StepExecutorService {
   }
 
   /**
-   * Extract DOM elements from the page
+   * Direct child iframes of the active tab, each with a selector usable as a step `frame`
+   */
+  async listFrames(): Promise<{ frame: Frame; selector: string }[]> {
+    if (!this.page) return [];
+
+    const mainFrame = this.page.mainFrame();
+    const frames = this.page.frames().filter((f) => f.parentFrame() === mainFrame);
+    const result: { frame: Frame; selector: string }[] = [];
+
+    for (const [index, frame] of frames.entries()) {
+      const element = await frame.frameElement().catch(() => null);
+      if (!element) continue;
+
+      const attributes: Record<string, string> = {};
+      for (const name of ["id", "name", "title", "data-testid"]) {
+        const value = await element.getAttribute(name).catch(() => null);
+        if (value) attributes[name] = value;
+      }
+
+      await element.dispose();
+      result.push({ frame, selector: this.generateFrameSelector(attributes, index) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Selector for an iframe element (falls back to its position among iframes)
+   */
+  private generateFrameSelector(attributes: Record<string, string>, index: number): string {
+    if (attributes["data-testid"]) return `iframe[data-testid="${attributes["data-testid"]}"]`;
+    if (attributes["id"]) return `iframe#${attributes["id"]}`;
+    if (attributes["name"]) return `iframe[name="${attributes["name"]}"]`;
+    if (attributes["title"]) return `iframe[title="${attributes["title"]}"]`;
+    return `iframe >> nth=${index}`;
+  }
+
+  /**
+   * Extract DOM elements from a page or frame
    * Focuses on interactive elements relevant for test generation
    */
-  private async extractDOMElements(page: Page): Promise<DOMElement[]> {
+  private async extractDOMElements(page: Page | Frame): Promise<DOMElement[]> {
     const elements: DOMElement[] = [];
 
     try {
@@ -280,10 +417,19 @@ export class StepExecutorService {
     return tag;
   }
 
-  async execute(request: TestExecutionRequest): Promise<TestExecutionResult> {
+  /**
+   * Execute steps in order, stopping at the first failure
+   * @param onStepResult - Called after each step (e.g. to stream progress)
+   */
+  async execute(
+    request: TestExecutionRequest,
+    onStepResult?: (result: TestStepResult, stepIndex: number) => void | Promise<void>
+  ): Promise<TestExecutionResult> {
     const startTime = Date.now();
+    const id = this.generateId();
     const results: TestStepResult[] = [];
     let overallStatus: TestExecutionResult["status"] = "passed";
+    let artifacts: RunArtifacts | undefined;
 
     try {
       // Extract browser type from request options (default to chromium)
@@ -292,13 +438,20 @@ export class StepExecutorService {
 
       // Launch browser only if not already open
       if (!this.isBrowserOpen()) {
-        await this.launchBrowser(browserType, headless);
+        await this.launchBrowser(
+          browserType,
+          headless,
+          pickEmulation(request.options),
+          request.authProfile,
+          await this.createRecorder(id, request)
+        );
       }
 
       // Execute each step
       for (const step of request.steps) {
         const result = await this.executeStep(step, request.options);
         results.push(result);
+        await onStepResult?.(result, results.length - 1);
 
         if (result.status === "failed") {
           overallStatus = "failed";
@@ -307,29 +460,75 @@ export class StepExecutorService {
       }
     } catch (error) {
       overallStatus = "error";
-      console.error("[StepExecutor] Fatal error:", error);
+      console.error("[StepExecutor] Fatal error:", this.secretResolver.mask(String(error)));
     } finally {
       // Only cleanup if not in persistent mode
       if (!this.persistBrowser) {
-        await this.cleanup();
+        artifacts = await this.cleanup();
       }
     }
 
+    if (artifacts && request.options?.keepArtifacts === "on-failure" && overallStatus === "passed") {
+      await this.artifacts.delete(artifacts.runId);
+      artifacts = undefined;
+    }
+
     return {
-      id: this.generateId(),
+      id,
       scenario: request.scenario,
       steps: results,
       status: overallStatus,
+      artifacts,
       totalDuration: Date.now() - startTime,
       startedAt: new Date(startTime),
       completedAt: new Date(),
     };
   }
 
+  /**
+   * Recorder for options.artifacts - skipped in persistent mode, where steps
+   * arrive one execute() call at a time and no single result could own the files
+   * Trace and HAR are dropped when steps use {{secret:name}}: they store filled
+   * values and request bodies verbatim, and cannot be masked like the console log
+   */
+  private async createRecorder(
+    runId: string,
+    request: TestExecutionRequest
+  ): Promise<ArtifactRecorder | undefined> {
+    let types = request.options?.artifacts || [];
+    if (!types.length) return undefined;
+
+    if (this.persistBrowser) {
+      console.warn("[StepExecutor] Artifact capture is not supported in persistent browser mode");
+      return undefined;
+    }
+
+    const usesSecrets = request.steps.some(
+      (step) => this.secretResolver.containsSecrets(step.target) || this.secretResolver.containsSecrets(step.value)
+    );
+    if (usesSecrets && types.some((type) => type === "trace" || type === "har")) {
+      console.warn("[StepExecutor] Steps use secrets - trace and HAR are not recorded for this run");
+      types = types.filter((type) => type !== "trace" && type !== "har");
+      if (!types.length) return undefined;
+    }
+
+    return this.artifacts.createRecorder(runId, types, (text) => this.secretResolver.mask(text));
+  }
+
   private async launchBrowser(
     browserType: BrowserType,
-    headless: boolean
+    headless: boolean,
+    emulation: BrowserEmulation,
+    authProfile?: string,
+    recorder?: ArtifactRecorder
   ): Promise<void> {
+    this.recorder = recorder || null;
+
+    // Start already logged in when a profile is given
+    const storageState = authProfile
+      ? await this.authStateProvider.loadStorageState(authProfile)
+      : undefined;
+
     // Select and launch the appropriate browser
     switch (browserType) {
       case "chromium":
@@ -345,7 +544,21 @@ export class StepExecutorService {
         throw new Error(`Unsupported browser type: ${browserType}`);
     }
 
-    this.page = await this.browser.newPage();
+    this.context = await this.browser.newContext({
+      ...buildContextOptions(emulation, browserType),
+      ...recorder?.contextOptions(),
+      storageState,
+    });
+    this.emulation = emulation;
+    await recorder?.attach(this.context);
+    this.page = await this.context.newPage();
+    this.requests = [];
+    this.unclaimedPages = [];
+    this.activeFrame = null;
+
+    // Track every tab: requests for expectRequest, new pages for waitForPopup
+    this.context.on("request", (request) => this.requests.push(request));
+    this.context.on("page", (page) => this.unclaimedPages.push(page));
   }
 
   private async executeStep(
@@ -365,17 +578,45 @@ export class StepExecutorService {
       return result;
     }
 
+    // Secrets are resolved into a copy; the result keeps the placeholders
+    let resolvedStep: TestStep;
+    let page: Page;
     try {
-      await this.performAction(step, this.page, options);
-      result.status = "passed";
+      resolvedStep = await this.resolveSecrets(step);
+      page = this.resolveTab(step);
     } catch (error) {
       result.status = "failed";
       result.error = error instanceof Error ? error.message : "Unknown error";
+      result.duration = Date.now() - startTime;
+      return result;
+    }
+
+    try {
+      Object.assign(result, await this.performAction(resolvedStep, page, options));
+      result.status = "passed";
+    } catch (error) {
+      result.status = "failed";
+      result.error = this.secretResolver.mask(
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      if (error instanceof VisualMismatchError) {
+        result.visual = error.comparison;
+      } else if (error instanceof AccessibilityViolationError) {
+        result.accessibility = error.report;
+      }
+
+      if (options?.selfHeal && (await this.isMissingElement(resolvedStep, page))) {
+        result.healing = await this.tryHealStep(step, resolvedStep, page, result.error, options);
+        if (result.healing.healed) {
+          result.status = "passed";
+          result.error = undefined;
+        }
+      }
 
       // Take screenshot on failure
-      if (options?.screenshot) {
+      if (result.status === "failed" && options?.screenshot) {
         try {
-          const screenshotBuffer = await this.page.screenshot({
+          const screenshotBuffer = await page.screenshot({
             fullPage: true,
           });
           result.screenshot = screenshotBuffer.toString("base64");
@@ -388,12 +629,106 @@ export class StepExecutorService {
     return result;
   }
 
+  /**
+   * Fill {{secret:name}} placeholders in target and value
+   */
+  private async resolveSecrets(step: TestStep): Promise<TestStep> {
+    if (
+      !this.secretResolver.containsSecrets(step.target) &&
+      !this.secretResolver.containsSecrets(step.value)
+    ) {
+      return step;
+    }
+
+    return {
+      ...step,
+      target: step.target && (await this.secretResolver.resolve(step.target)),
+      value: step.value && (await this.secretResolver.resolve(step.value)),
+    };
+  }
+
+  /**
+   * Check whether a step failed because its target matches no element
+   */
+  private async isMissingElement(step: TestStep, page: Page): Promise<boolean> {
+    if (!step.target || NON_ELEMENT_ACTIONS.includes(step.action)) {
+      return false;
+    }
+
+    try {
+      return (await this.scopeFor(step, page).locator(step.target).count()) === 0;
+    } catch {
+      // Invalid selector syntax - treat as missing so it can be replaced
+      return true;
+    }
+  }
+
+  /**
+   * Ask the healer for a replacement target and retry the step once
+   * The healer (an LLM) only ever sees the step with secret placeholders intact
+   */
+  private async tryHealStep(
+    step: TestStep,
+    resolvedStep: TestStep,
+    page: Page,
+    error: string,
+    options?: TestExecutionRequest["options"]
+  ): Promise<SelectorHealing> {
+    const healing: SelectorHealing = {
+      originalTarget: step.target || "",
+      healed: false,
+    };
+
+    if (!this.selectorHealer || !this.page) {
+      return healing;
+    }
+
+    try {
+      const snapshot = await this.capturePageSnapshot();
+      const healedTarget = await this.selectorHealer.healSelector({
+        step,
+        error,
+        snapshot,
+      });
+
+      if (!healedTarget || healedTarget === step.target) {
+        console.log(`[StepExecutor] No replacement found for ${step.target}`);
+        return healing;
+      }
+
+      healing.healedTarget = healedTarget;
+      console.log(`[StepExecutor] Healing ${step.target} -> ${healedTarget}`);
+
+      // The replacement may live in an iframe ("" = top-level page)
+      healing.healedFrame = snapshot.elements.find((el) => el.selector === healedTarget)?.frame ?? "";
+
+      await this.performAction(
+        { ...resolvedStep, target: healedTarget, frame: healing.healedFrame },
+        page,
+        options
+      );
+      healing.healed = true;
+    } catch (healError) {
+      console.warn(
+        "[StepExecutor] Self-healing failed:",
+        this.secretResolver.mask(String(healError))
+      );
+    }
+
+    return healing;
+  }
+
+  /**
+   * @returns Result details of assertion steps (expectScreenshot, expectAccessible)
+   * @throws VisualMismatchError / AccessibilityViolationError carrying those details on failure
+   */
   private async performAction(
     step: TestStep,
     page: Page,
     options?: TestExecutionRequest["options"]
-  ): Promise<void> {
+  ): Promise<Pick<TestStepResult, "visual" | "accessibility"> | void> {
     const timeout = step.timeout || options?.timeout || 30000;
+    const scope = this.scopeFor(step, page);
 
     switch (step.action) {
       case "goto":
@@ -407,52 +742,52 @@ export class StepExecutorService {
       case "fill":
         if (!step.target) throw new Error("fill: target selector required");
         if (!step.value) throw new Error("fill: value required");
-        await page.fill(step.target, step.value, { timeout });
+        await scope.locator(step.target).first().fill(step.value, { timeout });
         break;
 
       case "click":
         if (!step.target) throw new Error("click: target selector required");
-        await page.click(step.target, { timeout });
+        await scope.locator(step.target).first().click({ timeout });
         break;
 
       case "hover":
         if (!step.target) throw new Error("hover: target selector required");
-        await page.hover(step.target, { timeout });
+        await scope.locator(step.target).first().hover({ timeout });
         break;
 
       case "select":
         if (!step.target) throw new Error("select: target selector required");
         if (!step.value) throw new Error("select: value required");
-        await page.selectOption(step.target, step.value, { timeout });
+        await scope.locator(step.target).first().selectOption(step.value, { timeout });
         break;
 
       case "check":
         if (!step.target) throw new Error("check: target selector required");
-        await page.check(step.target, { timeout });
+        await scope.locator(step.target).first().check({ timeout });
         break;
 
       case "uncheck":
         if (!step.target) throw new Error("uncheck: target selector required");
-        await page.uncheck(step.target, { timeout });
+        await scope.locator(step.target).first().uncheck({ timeout });
         break;
 
       case "expectVisible":
         if (!step.target)
           throw new Error("expectVisible: target selector required");
-        await expect(page.locator(step.target)).toBeVisible({ timeout });
+        await expect(scope.locator(step.target)).toBeVisible({ timeout });
         break;
 
       case "expectHidden":
         if (!step.target)
           throw new Error("expectHidden: target selector required");
-        await expect(page.locator(step.target)).toBeHidden({ timeout });
+        await expect(scope.locator(step.target)).toBeHidden({ timeout });
         break;
 
       case "expectText":
         if (!step.target)
           throw new Error("expectText: target selector required");
         if (!step.value) throw new Error("expectText: expected text required");
-        await expect(page.locator(step.target)).toContainText(step.value, {
+        await expect(scope.locator(step.target)).toContainText(step.value, {
           timeout,
         });
         break;
@@ -472,20 +807,198 @@ export class StepExecutorService {
         await page.screenshot({ path: screenshotPath, fullPage: true });
         break;
 
+      case "expectScreenshot":
+        return { visual: await this.expectScreenshot(step, page, scope, timeout) };
+
+      case "expectAccessible": {
+        // Audits the tab's top document; target narrows it to one element
+        const report = await this.accessibility.audit(page, step.accessibility, step.target);
+        if (report.failingCount > 0) {
+          throw new AccessibilityViolationError(report);
+        }
+        return { accessibility: report };
+      }
+
       case "scroll":
         if (step.target) {
-          await page.locator(step.target).scrollIntoViewIfNeeded({ timeout });
+          await scope.locator(step.target).scrollIntoViewIfNeeded({ timeout });
         } else {
           // Scroll to bottom of page
           await page.evaluate("window.scrollTo(0, document.body.scrollHeight)");
         }
         break;
 
+      case "mockRoute": {
+        if (!step.target) throw new Error("mockRoute: target URL pattern required");
+        const response = buildMockResponse(step);
+        await page.context().route(urlPatternToRegExp(step.target), (route) =>
+          matchesNetworkStep(step, route.request().url(), route.request().method())
+            ? route.fulfill(response)
+            : route.fallback()
+        );
+        break;
+      }
+
+      case "blockRoute":
+        if (!step.target) throw new Error("blockRoute: target URL pattern required");
+        await page.context().route(urlPatternToRegExp(step.target), (route) =>
+          matchesNetworkStep(step, route.request().url(), route.request().method())
+            ? route.abort("blockedbyclient")
+            : route.fallback()
+        );
+        break;
+
+      case "expectRequest": {
+        if (!step.target) throw new Error("expectRequest: target URL pattern required");
+        const matches = (request: Request) =>
+          matchesNetworkStep(step, request.url(), request.method());
+
+        // Already sent since the page opened, otherwise wait for it
+        if (!this.requests.some(matches)) {
+          await page.context().waitForEvent("request", { predicate: matches, timeout }).catch(() => {
+            throw new Error(
+              `expectRequest: no request to ${describeNetworkStep(step)} within ${timeout}ms`
+            );
+          });
+        }
+        break;
+      }
+
+      case "switchTab": {
+        const tab = this.findTab(step.target || step.value || "");
+        if (!tab) throw new Error(`switchTab: no tab matches "${step.target || step.value}"`);
+        await this.activateTab(tab);
+        break;
+      }
+
+      case "waitForPopup": {
+        // The popup may already be open if the triggering click came first
+        if (this.unclaimedPages.length === 0) {
+          await this.context!.waitForEvent("page", { timeout }).catch(() => {
+            throw new Error(`waitForPopup: no new tab or popup opened within ${timeout}ms`);
+          });
+        }
+        const popup = this.unclaimedPages.shift()!;
+        await popup.waitForLoadState("domcontentloaded", { timeout });
+        await this.activateTab(popup);
+        break;
+      }
+
+      case "closeTab": {
+        const tab = step.target || step.value
+          ? this.findTab(step.target || step.value || "")
+          : page;
+        if (!tab) throw new Error(`closeTab: no tab matches "${step.target || step.value}"`);
+
+        const remaining = this.context!.pages().filter((p) => p !== tab);
+        if (remaining.length === 0) throw new Error("closeTab: cannot close the last tab");
+
+        const opener = await tab.opener().catch(() => null);
+        await tab.close();
+        this.unclaimedPages = this.unclaimedPages.filter((p) => p !== tab);
+
+        if (tab === this.page) {
+          await this.activateTab(opener && !opener.isClosed() ? opener : remaining[remaining.length - 1]);
+        }
+        break;
+      }
+
+      case "withinFrame":
+        // No target (or "main") returns to the top-level page
+        if (!step.target || step.target === "main") {
+          this.activeFrame = null;
+          break;
+        }
+        await page.locator(step.target).first().waitFor({ state: "attached", timeout });
+        this.activeFrame = step.target;
+        break;
+
       default:
         throw new Error(`Unsupported action: ${step.action}`);
     }
   }
 
+  // ============================================
+  // Tabs & Frames
+  // ============================================
+
+  /**
+   * Element steps run inside step.frame, else the withinFrame scope, else the page
+   * An empty step.frame forces the top-level page
+   */
+  private scopeFor(step: TestStep, page: Page): ElementScope {
+    const frame = step.frame !== undefined ? step.frame : this.activeFrame;
+    return frame ? page.frameLocator(frame) : page;
+  }
+
+  /**
+   * Page a step runs on - step.tab (index in opening order) or the active tab
+   */
+  private resolveTab(step: TestStep): Page {
+    if (step.tab === undefined) return this.page!;
+
+    const tab = this.context?.pages()[step.tab];
+    if (!tab) throw new Error(`Tab ${step.tab} is not open`);
+    return tab;
+  }
+
+  /**
+   * Find a tab by index ("1") or by URL substring
+   */
+  private findTab(query: string): Page | null {
+    const pages = this.context?.pages() || [];
+
+    if (/^\d+$/.test(query)) {
+      return pages[parseInt(query, 10)] || null;
+    }
+
+    const needle = query.toLowerCase();
+    return pages.find((p) => p.url().toLowerCase().includes(needle)) || null;
+  }
+
+  /**
+   * Compare the page (or step.target element) with its baseline
+   * Baselines are kept per browser and viewport, e.g. "chromium-1280x720"
+   */
+  private async expectScreenshot(
+    step: TestStep,
+    page: Page,
+    scope: ElementScope,
+    timeout: number
+  ): Promise<VisualComparison> {
+    if (!step.name) throw new Error("expectScreenshot: name required");
+
+    const screenshotOptions = {
+      animations: "disabled" as const,
+      caret: "hide" as const,
+      mask: (step.mask || []).map((selector) => scope.locator(selector)),
+      timeout,
+    };
+    const png = step.target
+      ? await scope.locator(step.target).first().screenshot(screenshotOptions)
+      : await page.screenshot({ ...screenshotOptions, fullPage: true });
+
+    const size = page.viewportSize();
+    const browserName = page.context().browser()?.browserType().name() || "browser";
+    const variant = `${browserName}-${size ? `${size.width}x${size.height}` : "auto"}`;
+
+    const comparison = await this.visualComparator.compare(step.name, variant, png, step.threshold);
+    if (comparison.status === "mismatched") {
+      throw new VisualMismatchError(comparison);
+    }
+    return comparison;
+  }
+
+  /**
+   * Make a tab the active one (frame scope belongs to the previous tab)
+   */
+  private async activateTab(tab: Page): Promise<void> {
+    this.page = tab;
+    this.activeFrame = null;
+    this.unclaimedPages = this.unclaimedPages.filter((p) => p !== tab);
+    await tab.bringToFront();
+  }
+
   /**
    * Manually close the browser (for persistent mode)
    */
@@ -493,15 +1006,29 @@ export class StepExecutorService {
     await this.cleanup();
   }
 
-  private async cleanup(): Promise<void> {
-    if (this.page) {
-      await this.page.close().catch(() => {});
-      this.page = null;
+  /**
+   * Close the browser; returns the recorded artifacts, if capture was on
+   */
+  private async cleanup(): Promise<RunArtifacts | undefined> {
+    const recorder = this.recorder;
+    this.recorder = null;
+
+    if (this.context) {
+      await recorder?.beforeClose(this.context).catch(() => {});
+      await this.context.close().catch(() => {}); // Flushes HAR and videos
+      this.context = null;
     }
+    this.page = null;
     if (this.browser) {
       await this.browser.close().catch(() => {});
       this.browser = null;
     }
+    this.requests = [];
+    this.unclaimedPages = [];
+    this.activeFrame = null;
+    this.emulation = {};
+
+    return recorder?.finish();
   }
 
   private generateId(): string {
@@ -510,6 +1037,8 @@ export class StepExecutorService {
 }
 
 // Factory
-export function createStepExecutorService(): StepExecutorService {
-  return new StepExecutorService();
+export function createStepExecutorService(
+  selectorHealer?: ISelectorHealer
+): StepExecutorService {
+  return new StepExecutorService(selectorHealer);
 }
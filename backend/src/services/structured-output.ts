@@ -0,0 +1,304 @@
+/**
+ * Structured Output Helpers
+ *
+ * Single Responsibility: Turn LLM text into validated test steps and scenario intentions
+ * - JSON Schemas handed to providers with native JSON mode / tool calling
+ * - Zod schemas the parsed output is validated against
+ * - Bracket-balanced JSON extraction for chatty answers (prose, markdown fences)
+ *
+ * Validation errors are written for the model: they are sent back to it
+ * verbatim when the generator asks for a corrected answer.
+ */
+
+import { z } from 'zod';
+import { LLMResponseFormat, TEST_STEP_ACTIONS } from '../types/index.js';
+
+/**
+ * Raised when a response is not JSON or does not match the schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// ============================================
+// Zod Schemas (validation)
+// ============================================
+
+// "error" is the iterative prompt's way of saying no element fits
+const GENERATED_STEP_ACTIONS = [...TEST_STEP_ACTIONS, 'error'] as const;
+
+// Models often write null for fields that do not apply
+const optionalString = z.string().nullish();
+const optionalStrings = z.array(z.string()).nullish();
+
+export const generatedStepSchema = z
+  .object({
+    action: z.preprocess(
+      (value) => (typeof value === 'string' ? value.trim() : value),
+      z.enum(GENERATED_STEP_ACTIONS, {
+        errorMap: (issue, ctx) => ({
+          message: issue.code === 'invalid_type' && ctx.data === undefined
+            ? 'action is required'
+            : `action must be one of: ${GENERATED_STEP_ACTIONS.join(', ')}`,
+        }),
+      })
+    ),
+    target: z.union([z.string(), z.number()]).nullish(),
+    value: z.unknown().optional(), // Mock bodies may come back as objects
+    description: optionalString,
+    timeout: z.number().positive().nullish(),
+    method: optionalString,
+    status: z.union([z.number().int(), z.string().regex(/^\d+$/, 'status must be a number')]).nullish(),
+    frame: optionalString,
+    tab: z.number().int().min(0).nullish(),
+    name: optionalString,
+    threshold: z.number().min(0).max(1).nullish(),
+    mask: optionalStrings,
+    accessibility: z
+      .object({
+        minImpact: z.enum(['minor', 'moderate', 'serious', 'critical']).nullish(),
+        tags: optionalStrings,
+        includeRules: optionalStrings,
+        excludeRules: optionalStrings,
+      })
+      .nullish(),
+  })
+  .passthrough();
+
+export type GeneratedStep = z.infer<typeof generatedStepSchema>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A step list: {"steps": [...]} as requested, or a bare array
+ */
+export const generatedStepListSchema = z.preprocess(
+  (value) => (isRecord(value) && 'steps' in value ? value.steps : value),
+  z.array(generatedStepSchema, { invalid_type_error: 'expected {"steps": [...]} or an array of steps' })
+    .min(1, 'at least one step is required')
+);
+
+/**
+ * A single step: a step object, or the first step of a list
+ */
+export const generatedSingleStepSchema = z.preprocess((value) => {
+  const list = isRecord(value) && Array.isArray(value.steps) ? value.steps : value;
+  return Array.isArray(list) ? list[0] : list;
+}, generatedStepSchema);
+
+/**
+ * Scenario intentions: {"intentions": [...]} as requested, or a bare array of strings
+ */
+export const intentionListSchema = z.preprocess(
+  (value) => (isRecord(value) && 'intentions' in value ? value.intentions : value),
+  z.array(z.string().min(1, 'intention must not be empty'), {
+    invalid_type_error: 'expected {"intentions": [...]} or an array of strings',
+  }).min(1, 'at least one intention is required')
+);
+
+/**
+ * A selector-healing answer: {"selector": "..."} or {"selector": null}
+ */
+export const healedSelectorSchema = z.object({
+  selector: z.string().trim().nullish(),
+});
+
+// ============================================
+// JSON Schemas (provider-side enforcement)
+// ============================================
+
+const STEP_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: GENERATED_STEP_ACTIONS },
+    target: { type: 'string' },
+    value: { type: 'string' },
+    description: { type: 'string' },
+    timeout: { type: 'number' },
+    method: { type: 'string' },
+    status: { type: 'integer' },
+    frame: { type: 'string' },
+    tab: { type: 'integer' },
+    name: { type: 'string' },
+    threshold: { type: 'number' },
+    mask: { type: 'array', items: { type: 'string' } },
+    accessibility: {
+      type: 'object',
+      properties: {
+        minImpact: { type: 'string', enum: ['minor', 'moderate', 'serious', 'critical'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        includeRules: { type: 'array', items: { type: 'string' } },
+        excludeRules: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+  required: ['action'],
+};
+
+export const STEP_LIST_FORMAT: LLMResponseFormat = {
+  type: 'json',
+  name: 'test_steps',
+  schema: {
+    type: 'object',
+    properties: { steps: { type: 'array', items: STEP_JSON_SCHEMA } },
+    required: ['steps'],
+  },
+};
+
+export const SINGLE_STEP_FORMAT: LLMResponseFormat = {
+  type: 'json',
+  name: 'test_step',
+  schema: STEP_JSON_SCHEMA,
+};
+
+export const INTENTION_LIST_FORMAT: LLMResponseFormat = {
+  type: 'json',
+  name: 'scenario_intentions',
+  schema: {
+    type: 'object',
+    properties: { intentions: { type: 'array', items: { type: 'string' } } },
+    required: ['intentions'],
+  },
+};
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse the JSON value in an LLM response and validate it
+ * @throws StructuredOutputError with a message suitable for a repair prompt
+ */
+export function parseStructuredOutput<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const result = schema.safeParse(extractJson(content));
+  if (!result.success) {
+    throw new StructuredOutputError(`Schema validation failed: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Find the JSON value in a response
+ * - The whole response when it is valid JSON (native JSON mode)
+ * - Otherwise the longest bracket-balanced object/array that parses
+ */
+export function extractJson(content: string): unknown {
+  const cleaned = content
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+
+  if (!cleaned) {
+    throw new StructuredOutputError('Response is empty');
+  }
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to scanning - the JSON is surrounded by prose
+  }
+
+  let best: { value: unknown; length: number } | null = null;
+  let lastError: string | null = null;
+
+  for (let start = 0; start < cleaned.length; start++) {
+    if (cleaned[start] !== '{' && cleaned[start] !== '[') continue;
+
+    const end = findClosingBracket(cleaned, start);
+    if (end === -1) {
+      lastError ??= `Unterminated JSON starting at "${cleaned.slice(start, start + 40)}..."`;
+      continue;
+    }
+
+    try {
+      const value = JSON.parse(cleaned.slice(start, end + 1));
+      if (!best || end + 1 - start > best.length) {
+        best = { value, length: end + 1 - start };
+      }
+      start = end; // Nested values are part of this one
+    } catch (error) {
+      lastError = `Invalid JSON: ${(error as Error).message}`;
+    }
+  }
+
+  if (!best) {
+    throw new StructuredOutputError(lastError || 'No JSON object or array found in response');
+  }
+
+  return best.value;
+}
+
+/**
+ * Steps already complete in a step list that is still being streamed
+ * Incomplete or invalid objects are skipped
+ */
+export function extractCompleteSteps(partial: string): GeneratedStep[] {
+  const listStart = partial.indexOf('[');
+  if (listStart === -1) return [];
+
+  const steps: GeneratedStep[] = [];
+
+  for (let i = listStart + 1; i < partial.length && partial[i] !== ']'; i++) {
+    if (partial[i] !== '{') continue;
+
+    const end = findClosingBracket(partial, i);
+    if (end === -1) break;
+
+    try {
+      const result = generatedStepSchema.safeParse(JSON.parse(partial.slice(i, end + 1)));
+      if (result.success) steps.push(result.data);
+    } catch {
+      // Malformed step - the final validation reports it
+    }
+    i = end;
+  }
+
+  return steps;
+}
+
+/**
+ * Index of the bracket closing the one at `start`, skipping brackets inside strings
+ */
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * "[2].action: action is required; ..." - paths relative to the step list or step
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => {
+      const path = issue.path
+        .map((part, i) => (typeof part === 'number' ? `[${part}]` : `${i > 0 ? '.' : ''}${part}`))
+        .join('');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
@@ -3,64 +3,133 @@
  * 
  * Single Responsibility: Orchestrate dynamic test flow
  * - Convert prompt → steps (via LLM)
- * - Optionally execute steps (direct or via MCP)
+ * - Optionally execute steps (direct or via MCP), once per dataset row
  * - Manage LLM & MCP client selection
  */
 
 import { LLMManager } from '../llm/llm-manager.js';
 import { MCPManager } from '../mcp/mcp-manager.js';
+import { LLMUsageLedger, llmUsageLedger } from '../llm/usage-ledger.js';
 import { TestGeneratorService } from './test-generator.service.js';
 import { StepExecutorService } from './step-executor.service.js';
+import { DataDrivenService } from './data-driven.service.js';
+import { describeEmulatedDevice } from './browser-emulation.js';
 import {
   DynamicTestRunRequest,
   DynamicTestRunResponse,
+  TestExecutionResult,
   TestStep,
+  TestContext,
+  TestDataset,
 } from '../types/index.js';
 
 export class TestOrchestratorService {
   private generator: TestGeneratorService;
   private directExecutor: StepExecutorService;
+  private dataDriven: DataDrivenService;
 
   constructor(
     private readonly llmManager: LLMManager,
-    private readonly mcpManager: MCPManager
+    private readonly mcpManager: MCPManager,
+    private readonly usageLedger: LLMUsageLedger = llmUsageLedger
   ) {
     this.generator = new TestGeneratorService(llmManager);
-    this.directExecutor = new StepExecutorService();
+    this.directExecutor = new StepExecutorService(this.generator);
+    this.dataDriven = new DataDrivenService();
   }
 
   /**
    * Run dynamic test from user prompt
-   * - Switches LLM provider if specified
-   * - Generates test steps
+   * - Uses the requested LLM provider for this run only (the active provider is unchanged)
+   * - Generates test steps (or reuses pre-generated ones)
    * - Optionally executes steps
    */
   async runDynamicTest(request: DynamicTestRunRequest): Promise<DynamicTestRunResponse> {
     const startTime = Date.now();
     const runId = this.generateRunId();
 
-    // 1. Switch LLM provider if specified
-    if (request.llmProvider) {
-      const switched = this.llmManager.setActiveProvider(request.llmProvider);
-      if (!switched) {
-        throw new Error(`Failed to switch to LLM provider: ${request.llmProvider}`);
+    // 1. Use pre-generated steps if supplied, otherwise generate from prompt
+    const response: DynamicTestRunResponse = request.steps?.length
+      ? this.createResponseFromSteps(runId, request.prompt, request.steps)
+      : await this.generateResponse(runId, request);
+
+    const steps = response.generatedSteps;
+
+    // 2. Execute immediately if requested (once per dataset row if supplied)
+    if (request.executeImmediately) {
+      const useMCP = !!request.mcpClient && request.mcpClient !== 'direct';
+
+      if (request.dataset) {
+        const rows = this.dataDriven.prepareRows(steps, request.dataset);
+        console.log(`[Orchestrator] Executing ${steps.length} steps for ${rows.length} dataset rows`);
+
+        response.dataDriven = await this.dataDriven.run(
+          steps,
+          rows,
+          (rowSteps, _row, rowIndex) =>
+            this.executeSteps(request, rowSteps, `${request.prompt} [row ${rowIndex + 1}]`),
+          { scenario: request.prompt, datasetName: request.dataset.name }
+        );
+      } else {
+        console.log(`[Orchestrator] Executing ${steps.length} steps`);
+        response.execution = await this.executeSteps(request, steps, request.prompt);
+      }
+
+      response.executionMethod = useMCP ? 'mcp' : 'direct';
+      if (useMCP) {
+        response.mcpClient = request.mcpClient;
       }
+      response.status = 'executed';
     }
 
-    const activeProvider = this.llmManager.getActiveProvider();
-    if (!activeProvider) {
-      throw new Error('No active LLM provider available');
+    // 3. Roll up the LLM calls made for this run (generation only - pre-generated runs have none)
+    if (response.llmUsed) {
+      response.llmUsage = await this.usageLedger.summarize({ runId, from: new Date(startTime) });
     }
 
-    console.log(`[Orchestrator] Running test with ${activeProvider.config.name}`);
+    const totalTime = Date.now() - startTime;
+    console.log(`[Orchestrator] Test run ${runId} completed in ${totalTime}ms - Status: ${response.status}`);
+
+    return response;
+  }
+
+  /**
+   * Generate steps from the prompt via the active (or requested) LLM
+   */
+  private async generateResponse(
+    runId: string,
+    request: DynamicTestRunRequest
+  ): Promise<DynamicTestRunResponse> {
+    // A requested provider applies to this run only - other runs keep the active one
+    const provider = request.llmProvider
+      ? this.llmManager.getProvider(request.llmProvider)
+      : this.llmManager.getActiveProvider();
+    if (!provider) {
+      throw new Error(
+        request.llmProvider
+          ? `LLM provider not available: ${request.llmProvider}`
+          : 'No active LLM provider available'
+      );
+    }
+
+    console.log(`[Orchestrator] Running test with ${provider.config.name}`);
+
+    const context = request.dataset
+      ? this.withDatasetInstructions(request.context, request.dataset)
+      : request.context;
+
+    // Mobile layouts need different selectors, so tell the generator what it runs on
+    const device = describeEmulatedDevice(request.executionOptions);
 
-    // 2. Generate test steps from prompt
     const generationResult = await this.generator.generateSteps({
       scenario: request.prompt,
-      context: request.context,
+      context: device ? { ...context, device } : context,
+      usage: { runId },
+      cache: request.cache,
+      llmProvider: request.llmProvider,
     });
 
-    const response: DynamicTestRunResponse = {
+    return {
       id: runId,
       prompt: request.prompt,
       generatedSteps: generationResult.steps,
@@ -68,63 +137,93 @@ export class TestOrchestratorService {
         provider: generationResult.provider,
         model: generationResult.model,
         latencyMs: generationResult.latencyMs,
+        fallbackFrom: generationResult.fallbackFrom,
       },
       status: 'generated',
       timestamp: new Date(),
     };
+  }
 
-    // 3. Execute immediately if requested
-    if (request.executeImmediately) {
-      console.log(`[Orchestrator] Executing ${generationResult.steps.length} steps`);
-      
-      // Determine execution method: MCP or direct
-      const useMCP = request.mcpClient && request.mcpClient !== 'direct';
-      
-      if (useMCP) {
-        // Execute via MCP
-        console.log(`[Orchestrator] Using MCP client: ${request.mcpClient}`);
-        
-        if (request.mcpClient !== 'direct') {
-          this.mcpManager.setActiveClient(request.mcpClient as any);
-        }
-        
-        const mcpResult = await this.mcpManager.executeSteps({
-          steps: generationResult.steps,
-          options: request.executionOptions,
-        });
-        
-        response.execution = {
-          id: mcpResult.id,
-          scenario: request.prompt,
-          steps: mcpResult.steps,
-          status: mcpResult.status,
-          totalDuration: mcpResult.totalDuration,
-          startedAt: mcpResult.startedAt,
-          completedAt: mcpResult.completedAt,
-        };
-        response.executionMethod = 'mcp';
-        response.mcpClient = request.mcpClient;
-      } else {
-        // Direct execution
-        console.log('[Orchestrator] Using direct Playwright execution');
-        
-        const executionResult = await this.directExecutor.execute({
-          steps: generationResult.steps,
-          scenario: request.prompt,
-          options: request.executionOptions,
-        });
-
-        response.execution = executionResult;
-        response.executionMethod = 'direct';
-      }
-      
-      response.status = 'executed';
+  /**
+   * Ask the LLM to use {{column}} placeholders so one step list fits every row
+   */
+  private withDatasetInstructions(
+    context: TestContext | undefined,
+    dataset: TestDataset
+  ): TestContext {
+    const columns = Object.keys(this.dataDriven.parseDataset(dataset)[0] || {});
+    const instruction =
+      `Use {{column}} placeholders instead of literal test data. ` +
+      `Available columns: ${columns.map((c) => `{{${c}}}`).join(', ')}`;
+
+    return {
+      ...context,
+      customInstructions: [context?.customInstructions, instruction]
+        .filter(Boolean)
+        .join('\n'),
+    };
+  }
+
+  /**
+   * Execute steps via the requested MCP client or direct Playwright
+   */
+  private async executeSteps(
+    request: DynamicTestRunRequest,
+    steps: TestStep[],
+    scenario: string
+  ): Promise<TestExecutionResult> {
+    const useMCP = request.mcpClient && request.mcpClient !== 'direct';
+
+    if (useMCP) {
+      // Execute via MCP
+      console.log(`[Orchestrator] Using MCP client: ${request.mcpClient}`);
+      this.mcpManager.setActiveClient(request.mcpClient as any);
+
+      const mcpResult = await this.mcpManager.executeSteps({
+        steps,
+        authProfile: request.authProfile,
+        options: request.executionOptions,
+      });
+
+      return {
+        id: mcpResult.id,
+        scenario,
+        steps: mcpResult.steps,
+        status: mcpResult.status,
+        totalDuration: mcpResult.totalDuration,
+        startedAt: mcpResult.startedAt,
+        completedAt: mcpResult.completedAt,
+      };
     }
 
-    const totalTime = Date.now() - startTime;
-    console.log(`[Orchestrator] Test run ${runId} completed in ${totalTime}ms - Status: ${response.status}`);
+    // Direct execution
+    console.log('[Orchestrator] Using direct Playwright execution');
 
-    return response;
+    return this.directExecutor.execute({
+      steps,
+      scenario,
+      authProfile: request.authProfile,
+      options: request.executionOptions,
+    });
+  }
+
+  /**
+   * Build a response around pre-generated steps (no LLM call)
+   */
+  private createResponseFromSteps(
+    runId: string,
+    prompt: string,
+    steps: TestStep[]
+  ): DynamicTestRunResponse {
+    console.log(`[Orchestrator] Using ${steps.length} pre-generated steps`);
+
+    return {
+      id: runId,
+      prompt,
+      generatedSteps: steps,
+      status: 'generated',
+      timestamp: new Date(),
+    };
   }
 
   /**
@@ -163,7 +262,8 @@ export class TestOrchestratorService {
 // Factory
 export function createTestOrchestratorService(
   llmManager: LLMManager,
-  mcpManager: MCPManager
+  mcpManager: MCPManager,
+  usageLedger?: LLMUsageLedger
 ): TestOrchestratorService {
-  return new TestOrchestratorService(llmManager, mcpManager);
+  return new TestOrchestratorService(llmManager, mcpManager, usageLedger);
 }
@@ -0,0 +1,272 @@
+/**
+ * Visual Regression Service
+ *
+ * Single Responsibility: Store screenshot baselines and compare new screenshots against them
+ * - One directory per baseline and variant: DATA_DIR/visual/<name>/<variant>/
+ *   holding baseline.png, meta.json and - after a mismatch - actual.png and diff.png
+ * - The first screenshot of a name/variant becomes its baseline
+ * - accept() promotes the last mismatching screenshot to the new baseline
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { config } from '../config/index.js';
+import {
+  IVisualComparator,
+  VisualBaseline,
+  VisualComparison,
+  VisualImageKind,
+} from '../types/index.js';
+
+const NAME_PATTERN = /^[\w-]+$/;
+
+// Ratio of pixels allowed to differ when a step sets no threshold
+export const DEFAULT_VISUAL_THRESHOLD = 0.001;
+
+// pixelmatch's per-pixel color tolerance (anti-aliasing is ignored separately)
+const PIXEL_TOLERANCE = 0.1;
+
+type BaselineMeta = Omit<VisualBaseline, 'name' | 'variant' | 'pending'>;
+
+/**
+ * Thrown by an expectScreenshot step whose screenshot differs from the baseline
+ */
+export class VisualMismatchError extends Error {
+  constructor(readonly comparison: VisualComparison) {
+    super(`expectScreenshot "${comparison.name}": ${comparison.message}`);
+    this.name = 'VisualMismatchError';
+  }
+}
+
+export class VisualRegressionService implements IVisualComparator {
+  constructor(private readonly baseDir: string) {}
+
+  static isValidName(name: string): boolean {
+    return NAME_PATTERN.test(name);
+  }
+
+  // ============================================
+  // Comparison (IVisualComparator)
+  // ============================================
+
+  async compare(
+    name: string,
+    variant: string,
+    png: Buffer,
+    threshold: number = DEFAULT_VISUAL_THRESHOLD
+  ): Promise<VisualComparison> {
+    const dir = this.dir(name, variant);
+    const meta = await this.readMeta(name, variant);
+    const actual = PNG.sync.read(png);
+    const now = new Date();
+
+    if (!meta) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(this.file(name, variant, 'baseline'), png);
+      await this.writeMeta(name, variant, {
+        width: actual.width,
+        height: actual.height,
+        lastComparison: { status: 'baseline-created', comparedAt: now },
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      console.log(`[VisualRegression] Stored new baseline ${name} (${variant})`);
+      return { name, variant, status: 'baseline-created', threshold };
+    }
+
+    const baseline = PNG.sync.read(await fs.readFile(this.file(name, variant, 'baseline')));
+    let comparison: VisualComparison;
+
+    if (baseline.width !== actual.width || baseline.height !== actual.height) {
+      await this.removeImage(name, variant, 'diff');
+      await fs.writeFile(this.file(name, variant, 'actual'), png);
+
+      comparison = {
+        name,
+        variant,
+        status: 'mismatched',
+        threshold,
+        message: `Screenshot size changed from ${baseline.width}x${baseline.height} to ${actual.width}x${actual.height}`,
+      };
+    } else {
+      const diff = new PNG({ width: actual.width, height: actual.height });
+      const diffPixels = pixelmatch(baseline.data, actual.data, diff.data, actual.width, actual.height, {
+        threshold: PIXEL_TOLERANCE,
+      });
+      const diffRatio = diffPixels / (actual.width * actual.height);
+
+      if (diffRatio <= threshold) {
+        await this.removeImage(name, variant, 'actual');
+        await this.removeImage(name, variant, 'diff');
+        comparison = { name, variant, status: 'matched', threshold, diffPixels, diffRatio };
+      } else {
+        await fs.writeFile(this.file(name, variant, 'actual'), png);
+        await fs.writeFile(this.file(name, variant, 'diff'), PNG.sync.write(diff));
+
+        comparison = {
+          name,
+          variant,
+          status: 'mismatched',
+          threshold,
+          diffPixels,
+          diffRatio,
+          message: `${diffPixels} pixels (${(diffRatio * 100).toFixed(2)}%) differ from the baseline, allowed ${(threshold * 100).toFixed(2)}%`,
+        };
+      }
+    }
+
+    await this.writeMeta(name, variant, {
+      ...meta,
+      lastComparison: { status: comparison.status, diffRatio: comparison.diffRatio, comparedAt: now },
+    });
+
+    return comparison;
+  }
+
+  // ============================================
+  // Baseline Management
+  // ============================================
+
+  async list(): Promise<VisualBaseline[]> {
+    const baselines: VisualBaseline[] = [];
+
+    for (const name of await this.readDir(this.baseDir)) {
+      for (const variant of await this.readDir(path.join(this.baseDir, name))) {
+        const baseline = await this.get(name, variant);
+        if (baseline) baselines.push(baseline);
+      }
+    }
+
+    return baselines;
+  }
+
+  async get(name: string, variant: string): Promise<VisualBaseline | null> {
+    const meta = await this.readMeta(name, variant);
+    if (!meta) return null;
+
+    return {
+      name,
+      variant,
+      ...meta,
+      pending: (await this.readImage(name, variant, 'actual')) !== null,
+    };
+  }
+
+  /**
+   * PNG of a baseline, its last mismatching screenshot or their diff
+   */
+  async readImage(name: string, variant: string, kind: VisualImageKind): Promise<Buffer | null> {
+    if (!VisualRegressionService.isValidName(name) || !VisualRegressionService.isValidName(variant)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(this.file(name, variant, kind));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Make the last mismatching screenshot the new baseline
+   * @returns null if there is no such baseline or nothing to accept
+   */
+  async accept(name: string, variant: string): Promise<VisualBaseline | null> {
+    const meta = await this.readMeta(name, variant);
+    const actual = await this.readImage(name, variant, 'actual');
+    if (!meta || !actual) return null;
+
+    const { width, height } = PNG.sync.read(actual);
+    await fs.rename(this.file(name, variant, 'actual'), this.file(name, variant, 'baseline'));
+    await this.removeImage(name, variant, 'diff');
+    await this.writeMeta(name, variant, { ...meta, width, height, updatedAt: new Date() });
+
+    console.log(`[VisualRegression] Accepted new baseline ${name} (${variant})`);
+    return this.get(name, variant);
+  }
+
+  /**
+   * Delete one variant, or every variant of a name
+   */
+  async delete(name: string, variant?: string): Promise<boolean> {
+    const dir = variant ? this.dir(name, variant) : this.dir(name);
+
+    try {
+      await fs.access(dir);
+    } catch {
+      return false;
+    }
+
+    await fs.rm(dir, { recursive: true, force: true });
+    return true;
+  }
+
+  // ============================================
+  // Files
+  // ============================================
+
+  private dir(name: string, variant?: string): string {
+    for (const part of [name, variant]) {
+      if (part !== undefined && !VisualRegressionService.isValidName(part)) {
+        throw new Error(`Invalid baseline name or variant: ${part}`);
+      }
+    }
+    return variant ? path.join(this.baseDir, name, variant) : path.join(this.baseDir, name);
+  }
+
+  private file(name: string, variant: string, kind: VisualImageKind | 'meta'): string {
+    return path.join(this.dir(name, variant), kind === 'meta' ? 'meta.json' : `${kind}.png`);
+  }
+
+  private async readMeta(name: string, variant: string): Promise<BaselineMeta | null> {
+    if (!VisualRegressionService.isValidName(name) || !VisualRegressionService.isValidName(variant)) {
+      return null;
+    }
+
+    try {
+      const meta = JSON.parse(await fs.readFile(this.file(name, variant, 'meta'), 'utf-8'));
+      return {
+        ...meta,
+        lastComparison: meta.lastComparison && {
+          ...meta.lastComparison,
+          comparedAt: new Date(meta.lastComparison.comparedAt),
+        },
+        createdAt: new Date(meta.createdAt),
+        updatedAt: new Date(meta.updatedAt),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMeta(name: string, variant: string, meta: BaselineMeta): Promise<void> {
+    await fs.writeFile(this.file(name, variant, 'meta'), JSON.stringify(meta, null, 2), 'utf-8');
+  }
+
+  private async removeImage(name: string, variant: string, kind: VisualImageKind): Promise<void> {
+    await fs.rm(this.file(name, variant, kind), { force: true });
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Factory
+export function createVisualRegressionService(baseDir: string): VisualRegressionService {
+  return new VisualRegressionService(baseDir);
+}
+
+// ============================================
+// Singleton Instance
+// ============================================
+
+export const visualBaselines = createVisualRegressionService(path.join(config.storage.dataDir, 'visual'));
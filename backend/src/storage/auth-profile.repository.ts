@@ -0,0 +1,47 @@
+/**
+ * Auth Profile Repository
+ *
+ * Single Responsibility: Persist named Playwright storage states (data/auth-profiles)
+ * Files hold live session cookies - keep DATA_DIR private
+ */
+
+import path from 'path';
+import { IAuthProfileRepository, AuthProfile } from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+export class FileAuthProfileRepository implements IAuthProfileRepository {
+  private readonly store: JsonCollectionStore<AuthProfile>;
+
+  constructor(dataDir: string) {
+    this.store = new JsonCollectionStore<AuthProfile>(
+      path.join(dataDir, 'auth-profiles'),
+      (raw) => ({
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      })
+    );
+  }
+
+  async list(): Promise<AuthProfile[]> {
+    const profiles = await this.store.getAll();
+    return profiles.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async findByName(name: string): Promise<AuthProfile | null> {
+    return this.store.get(name);
+  }
+
+  async save(profile: AuthProfile): Promise<AuthProfile> {
+    return this.store.save(profile);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.store.delete(name);
+  }
+}
+
+// Factory
+export function createAuthProfileRepository(dataDir: string): FileAuthProfileRepository {
+  return new FileAuthProfileRepository(dataDir);
+}
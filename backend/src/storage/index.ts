@@ -0,0 +1,30 @@
+/**
+ * Storage Module - Public API
+ */
+
+import { config } from '../config/index.js';
+import { createScenarioRepository } from './scenario.repository.js';
+import { createRunHistoryRepository } from './run-history.repository.js';
+import { createSecretRepository } from './secret.repository.js';
+import { createScheduleRepository } from './schedule.repository.js';
+import { createAuthProfileRepository } from './auth-profile.repository.js';
+import { createRecordedTestRepository } from './recorded-test.repository.js';
+
+export { JsonCollectionStore } from './json-collection.store.js';
+export { FileScenarioRepository, createScenarioRepository } from './scenario.repository.js';
+export { FileRunHistoryRepository, createRunHistoryRepository } from './run-history.repository.js';
+export { FileSecretRepository, createSecretRepository } from './secret.repository.js';
+export { FileScheduleRepository, createScheduleRepository } from './schedule.repository.js';
+export { FileAuthProfileRepository, createAuthProfileRepository } from './auth-profile.repository.js';
+export { FileRecordedTestRepository, createRecordedTestRepository } from './recorded-test.repository.js';
+
+// ============================================
+// Singleton Instances
+// ============================================
+
+export const scenarioRepository = createScenarioRepository(config.storage.dataDir);
+export const runHistoryRepository = createRunHistoryRepository(config.storage.dataDir, config.storage.maxRuns);
+export const secretRepository = createSecretRepository(config.storage.dataDir);
+export const scheduleRepository = createScheduleRepository(config.storage.dataDir);
+export const authProfileRepository = createAuthProfileRepository(config.storage.dataDir);
+export const recordedTestRepository = createRecordedTestRepository(config.storage.dataDir);
@@ -0,0 +1,125 @@
+/**
+ * JSON Collection Store
+ *
+ * Single Responsibility: Persist a collection of records as JSON files
+ * - One file per record (`<dir>/<id>.json`)
+ * - Lazily loaded into memory on first access - whole records, or only a summary
+ *   of each when `summarize` is given (full records are then read from disk on get)
+ * - Atomic writes (temp file + rename)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const SAFE_ID_PATTERN = /^[\w-]+$/;
+
+export class JsonCollectionStore<T extends { id: string }, S extends { id: string } = T> {
+  private records: Map<string, S> | null = null;
+  private loading: Promise<Map<string, S>> | null = null;
+
+  /**
+   * @param directory - Directory holding one JSON file per record
+   * @param deserialize - Restores non-JSON types (e.g. Date) after reading
+   * @param summarize - Keep only this per record in memory (large or unbounded collections)
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly deserialize: (raw: any) => T = (raw) => raw as T,
+    private readonly summarize?: (record: T) => S
+  ) {}
+
+  /**
+   * Every record - its summary when the store summarizes
+   */
+  async getAll(): Promise<S[]> {
+    const records = await this.load();
+    return Array.from(records.values());
+  }
+
+  async get(id: string): Promise<T | null> {
+    if (!SAFE_ID_PATTERN.test(id)) return null;
+    const records = await this.load();
+    const entry = records.get(id);
+    if (!entry) return null;
+    if (!this.summarize) return entry as unknown as T;
+
+    try {
+      return await this.readFile(`${id}.json`);
+    } catch (error) {
+      console.warn(`[JsonCollectionStore] Cannot read record ${id}:`, error);
+      return null;
+    }
+  }
+
+  async save(record: T): Promise<T> {
+    if (!SAFE_ID_PATTERN.test(record.id)) {
+      throw new Error(`Invalid record id: ${record.id}`);
+    }
+
+    const records = await this.load();
+    const filePath = this.filePath(record.id);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+
+    records.set(record.id, this.toEntry(record));
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SAFE_ID_PATTERN.test(id)) return false;
+
+    const records = await this.load();
+    if (!records.has(id)) return false;
+
+    await fs.rm(this.filePath(id), { force: true });
+    records.delete(id);
+    return true;
+  }
+
+  private async load(): Promise<Map<string, S>> {
+    if (this.records) return this.records;
+
+    // Share a single load between concurrent callers
+    if (!this.loading) {
+      this.loading = this.readAll().then((records) => {
+        this.records = records;
+        return records;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async readAll(): Promise<Map<string, S>> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const records = new Map<string, S>();
+    const files = (await fs.readdir(this.directory)).filter((f) => f.endsWith('.json'));
+
+    for (const file of files) {
+      try {
+        const record = await this.readFile(file);
+        records.set(record.id, this.toEntry(record));
+      } catch (error) {
+        console.warn(`[JsonCollectionStore] Skipping unreadable file ${file}:`, error);
+      }
+    }
+
+    return records;
+  }
+
+  private async readFile(file: string): Promise<T> {
+    const content = await fs.readFile(path.join(this.directory, file), 'utf-8');
+    return this.deserialize(JSON.parse(content));
+  }
+
+  private toEntry(record: T): S {
+    return this.summarize ? this.summarize(record) : (record as unknown as S);
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
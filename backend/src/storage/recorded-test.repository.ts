@@ -0,0 +1,82 @@
+/**
+ * Recorded Test Repository
+ *
+ * Single Responsibility: Persist recorded tests (data/recorded-tests)
+ * Each file holds the approved step list of one human-in-loop session
+ */
+
+import path from 'path';
+import {
+  IRecordedTestRepository,
+  RecordedTest,
+  CreateRecordedTestInput,
+  UpdateRecordedTestInput,
+} from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+export class FileRecordedTestRepository implements IRecordedTestRepository {
+  private readonly store: JsonCollectionStore<RecordedTest>;
+
+  constructor(dataDir: string) {
+    this.store = new JsonCollectionStore<RecordedTest>(
+      path.join(dataDir, 'recorded-tests'),
+      (raw) => ({
+        ...raw,
+        lastReplay: raw.lastReplay && {
+          ...raw.lastReplay,
+          startedAt: new Date(raw.lastReplay.startedAt),
+          completedAt: new Date(raw.lastReplay.completedAt),
+        },
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      })
+    );
+  }
+
+  async list(): Promise<RecordedTest[]> {
+    const recordings = await this.store.getAll();
+    return recordings.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findById(id: string): Promise<RecordedTest | null> {
+    return this.store.get(id);
+  }
+
+  async create(input: CreateRecordedTestInput): Promise<RecordedTest> {
+    const now = new Date();
+    const recording: RecordedTest = {
+      ...input,
+      id: this.generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.save(recording);
+  }
+
+  async update(id: string, input: UpdateRecordedTestInput): Promise<RecordedTest | null> {
+    const existing = await this.store.get(id);
+    if (!existing) return null;
+
+    return this.store.save({
+      ...existing,
+      ...input,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  private generateId(): string {
+    return `rec_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// Factory
+export function createRecordedTestRepository(dataDir: string): FileRecordedTestRepository {
+  return new FileRecordedTestRepository(dataDir);
+}
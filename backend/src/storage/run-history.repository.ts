@@ -0,0 +1,111 @@
+/**
+ * Run History Repository
+ *
+ * Single Responsibility: Persist test run records and query them
+ * - Only run summaries stay in memory; a run's steps and screenshots are read on demand
+ * - At most `maxRuns` runs are kept - saving one more deletes the oldest
+ */
+
+import path from 'path';
+import {
+  IRunHistoryRepository,
+  TestRunRecord,
+  TestRunSummary,
+  RunHistoryQuery,
+  PaginatedResult,
+} from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export class FileRunHistoryRepository implements IRunHistoryRepository {
+  private readonly store: JsonCollectionStore<TestRunRecord, TestRunSummary>;
+
+  /**
+   * @param maxRuns - Retention cap (0 = keep every run)
+   */
+  constructor(dataDir: string, private readonly maxRuns: number = 0) {
+    this.store = new JsonCollectionStore<TestRunRecord, TestRunSummary>(
+      path.join(dataDir, 'runs'),
+      (raw) => ({
+        ...raw,
+        startedAt: new Date(raw.startedAt),
+        completedAt: new Date(raw.completedAt),
+      }),
+      (record) => this.toSummary(record)
+    );
+  }
+
+  async save(record: TestRunRecord): Promise<TestRunRecord> {
+    const saved = await this.store.save(record);
+    await this.prune();
+    return saved;
+  }
+
+  async findById(id: string): Promise<TestRunRecord | null> {
+    return this.store.get(id);
+  }
+
+  async query(query: RunHistoryQuery = {}): Promise<PaginatedResult<TestRunSummary>> {
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit || DEFAULT_PAGE_SIZE));
+
+    const records = (await this.store.getAll())
+      .filter((record) => this.matchesQuery(record, query))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+    const items = records.slice((page - 1) * limit, page * limit);
+
+    return {
+      items,
+      total: records.length,
+      page,
+      limit,
+      totalPages: Math.ceil(records.length / limit),
+    };
+  }
+
+  /**
+   * Delete the oldest runs beyond maxRuns
+   */
+  private async prune(): Promise<void> {
+    if (this.maxRuns <= 0) return;
+
+    const runs = await this.store.getAll();
+    if (runs.length <= this.maxRuns) return;
+
+    const expired = runs
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(this.maxRuns);
+    for (const run of expired) {
+      await this.store.delete(run.id);
+    }
+    console.log(`[RunHistory] Deleted ${expired.length} run(s) beyond the retention cap of ${this.maxRuns}`);
+  }
+
+  private matchesQuery(record: TestRunSummary, query: RunHistoryQuery): boolean {
+    if (query.status && record.status !== query.status) return false;
+    if (query.provider && record.llmUsed?.provider !== query.provider) return false;
+    if (query.scenarioId && record.scenarioId !== query.scenarioId) return false;
+    if (query.from && record.startedAt < query.from) return false;
+    if (query.to && record.startedAt > query.to) return false;
+    return true;
+  }
+
+  private toSummary(record: TestRunRecord): TestRunSummary {
+    const { generatedSteps, steps, ...summary } = record;
+
+    return {
+      ...summary,
+      stepCount: generatedSteps.length || steps.length,
+      passedSteps: steps.filter((s) => s.status === 'passed').length,
+      failedSteps: steps.filter((s) => s.status === 'failed').length,
+    };
+  }
+}
+
+// Factory
+export function createRunHistoryRepository(dataDir: string, maxRuns?: number): FileRunHistoryRepository {
+  return new FileRunHistoryRepository(dataDir, maxRuns);
+}
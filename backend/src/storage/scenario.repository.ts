@@ -0,0 +1,115 @@
+/**
+ * Scenario Repository
+ *
+ * Single Responsibility: Persist saved test scenarios
+ */
+
+import path from 'path';
+import {
+  IScenarioRepository,
+  SavedTestScenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  ScenarioQuery,
+} from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+export class FileScenarioRepository implements IScenarioRepository {
+  private readonly store: JsonCollectionStore<SavedTestScenario>;
+
+  constructor(dataDir: string) {
+    this.store = new JsonCollectionStore<SavedTestScenario>(
+      path.join(dataDir, 'scenarios'),
+      (raw) => ({
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      })
+    );
+  }
+
+  async list(query?: ScenarioQuery): Promise<SavedTestScenario[]> {
+    const scenarios = await this.store.getAll();
+
+    return scenarios
+      .filter((scenario) => this.matchesQuery(scenario, query))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async findById(id: string): Promise<SavedTestScenario | null> {
+    return this.store.get(id);
+  }
+
+  async create(input: CreateScenarioInput): Promise<SavedTestScenario> {
+    const now = new Date();
+    const scenario: SavedTestScenario = {
+      ...input,
+      id: this.generateId(),
+      tags: this.normalizeTags(input.tags),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.save(scenario);
+  }
+
+  async update(id: string, input: UpdateScenarioInput): Promise<SavedTestScenario | null> {
+    const existing = await this.store.get(id);
+    if (!existing) return null;
+
+    const updated: SavedTestScenario = {
+      ...existing,
+      ...input,
+      tags: input.tags ? this.normalizeTags(input.tags) : existing.tags,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    };
+
+    return this.store.save(updated);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  async listTags(): Promise<string[]> {
+    const scenarios = await this.store.getAll();
+    const tags = new Set(scenarios.flatMap((s) => s.tags || []));
+    return Array.from(tags).sort();
+  }
+
+  private matchesQuery(scenario: SavedTestScenario, query?: ScenarioQuery): boolean {
+    if (query?.tags?.length) {
+      const scenarioTags = scenario.tags || [];
+      const hasAllTags = query.tags.every((tag) => scenarioTags.includes(tag.toLowerCase()));
+      if (!hasAllTags) return false;
+    }
+
+    if (query?.search) {
+      const needle = query.search.toLowerCase();
+      const haystack = [scenario.name, scenario.description, scenario.scenario]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(needle)) return false;
+    }
+
+    return true;
+  }
+
+  private normalizeTags(tags?: string[]): string[] | undefined {
+    if (!tags) return undefined;
+    const normalized = tags.map((t) => t.trim().toLowerCase()).filter((t) => t.length > 0);
+    return Array.from(new Set(normalized));
+  }
+
+  private generateId(): string {
+    return `scn_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// Factory
+export function createScenarioRepository(dataDir: string): FileScenarioRepository {
+  return new FileScenarioRepository(dataDir);
+}
@@ -0,0 +1,83 @@
+/**
+ * Schedule Repository
+ *
+ * Single Responsibility: Persist recurring test run schedules
+ * Stored next to the scenario library (data/schedules)
+ */
+
+import path from 'path';
+import {
+  IScheduleRepository,
+  TestSchedule,
+  CreateScheduleInput,
+  UpdateScheduleInput,
+} from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+export class FileScheduleRepository implements IScheduleRepository {
+  private readonly store: JsonCollectionStore<TestSchedule>;
+
+  constructor(dataDir: string) {
+    this.store = new JsonCollectionStore<TestSchedule>(
+      path.join(dataDir, 'schedules'),
+      (raw) => ({
+        ...raw,
+        lastRun: raw.lastRun && {
+          ...raw.lastRun,
+          startedAt: new Date(raw.lastRun.startedAt),
+          completedAt: new Date(raw.lastRun.completedAt),
+        },
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      })
+    );
+  }
+
+  async list(): Promise<TestSchedule[]> {
+    const schedules = await this.store.getAll();
+    return schedules.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findById(id: string): Promise<TestSchedule | null> {
+    return this.store.get(id);
+  }
+
+  async create(input: CreateScheduleInput): Promise<TestSchedule> {
+    const now = new Date();
+    const schedule: TestSchedule = {
+      ...input,
+      id: this.generateId(),
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.save(schedule);
+  }
+
+  async update(id: string, input: UpdateScheduleInput): Promise<TestSchedule | null> {
+    const existing = await this.store.get(id);
+    if (!existing) return null;
+
+    return this.store.save({
+      ...existing,
+      ...input,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  private generateId(): string {
+    return `sch_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// Factory
+export function createScheduleRepository(dataDir: string): FileScheduleRepository {
+  return new FileScheduleRepository(dataDir);
+}
@@ -0,0 +1,47 @@
+/**
+ * Secret Repository
+ *
+ * Single Responsibility: Persist encrypted secrets
+ * Encryption happens in SecretVaultService - this layer only sees ciphertext
+ */
+
+import path from 'path';
+import { ISecretRepository, EncryptedSecret } from '../types/index.js';
+import { JsonCollectionStore } from './json-collection.store.js';
+
+export class FileSecretRepository implements ISecretRepository {
+  private readonly store: JsonCollectionStore<EncryptedSecret>;
+
+  constructor(dataDir: string) {
+    this.store = new JsonCollectionStore<EncryptedSecret>(
+      path.join(dataDir, 'secrets'),
+      (raw) => ({
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      })
+    );
+  }
+
+  async list(): Promise<EncryptedSecret[]> {
+    const secrets = await this.store.getAll();
+    return secrets.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async findByName(name: string): Promise<EncryptedSecret | null> {
+    return this.store.get(name);
+  }
+
+  async save(secret: EncryptedSecret): Promise<EncryptedSecret> {
+    return this.store.save(secret);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.store.delete(name);
+  }
+}
+
+// Factory
+export function createSecretRepository(dataDir: string): FileSecretRepository {
+  return new FileSecretRepository(dataDir);
+}
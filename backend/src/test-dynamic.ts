@@ -21,9 +21,9 @@ async function testDynamicFlow() {
 
   console.log(`   ✅ Generated ${generateOnly.generatedSteps.length} steps`);
   console.log(
-    `   Provider: ${generateOnly.llmUsed.provider}/${generateOnly.llmUsed.model}`
+    `   Provider: ${generateOnly.llmUsed?.provider}/${generateOnly.llmUsed?.model}`
   );
-  console.log(`   Latency: ${generateOnly.llmUsed.latencyMs}ms`);
+  console.log(`   Latency: ${generateOnly.llmUsed?.latencyMs}ms`);
   console.log(`   Status: ${generateOnly.status}\n`);
 
   // Test 2: Generate + Execute
@@ -43,7 +43,7 @@ async function testDynamicFlow() {
   }).then((r) => r.json())) as any;
 
   console.log(
-    `   ✅ Generated ${executeTest.generatedSteps.length} steps in ${executeTest.llmUsed.latencyMs}ms`
+    `   ✅ Generated ${executeTest.generatedSteps.length} steps in ${executeTest.llmUsed?.latencyMs}ms`
   );
 
   if (executeTest.execution) {
@@ -77,7 +77,7 @@ async function testDynamicFlow() {
     }),
   }).then((r) => r.json())) as any;
 
-  console.log(`   ✅ Generated with ${withProvider.llmUsed.provider}`);
+  console.log(`   ✅ Generated with ${withProvider.llmUsed?.provider}`);
   console.log(`   Steps: ${withProvider.generatedSteps.length}`);
 
   console.log("\n✅ Dynamic flow tests completed!");
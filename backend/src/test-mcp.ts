@@ -39,7 +39,7 @@ async function testMCP() {
   }).then(r => r.json()) as any;
 
   console.log(`   ✅ Generated ${result.generatedSteps.length} steps`);
-  console.log(`   LLM: ${result.llmUsed.provider}/${result.llmUsed.model}`);
+  console.log(`   LLM: ${result.llmUsed?.provider}/${result.llmUsed?.model}`);
   console.log(`   Execution Method: ${result.executionMethod}`);
   console.log(`   MCP Client: ${result.mcpClient || 'N/A'}`);
   
@@ -0,0 +1,56 @@
+/**
+ * Accessibility Types
+ * WCAG audits run by expectAccessible steps (axe-core rule engine)
+ */
+
+// ============================================
+// Audit Options
+// ============================================
+
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * TestStep.accessibility - what an expectAccessible step checks
+ */
+export interface AccessibilityCheckOptions {
+  minImpact?: AccessibilityImpact; // Violations at or above this fail the step (default: serious)
+  tags?: string[]; // Rule tags to run (default: WCAG 2.1 A and AA)
+  includeRules?: string[]; // Run only these rule ids (e.g. "color-contrast")
+  excludeRules?: string[]; // Skip these rule ids
+}
+
+// ============================================
+// Audit Results
+// ============================================
+
+export interface AccessibilityViolationNode {
+  target: string; // CSS selector of the offending element
+  html: string; // Outer HTML (truncated)
+  failureSummary?: string;
+}
+
+export interface AccessibilityViolation {
+  ruleId: string;
+  impact?: AccessibilityImpact;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[]; // e.g. ["wcag2aa", "wcag143"]
+  failing: boolean; // At or above the step's minImpact
+  nodes: AccessibilityViolationNode[];
+}
+
+/**
+ * Outcome of one expectAccessible step (TestStepResult.accessibility)
+ */
+export interface AccessibilityReport {
+  url: string;
+  engine: string; // e.g. "axe-core 4.13.0"
+  tags: string[];
+  minImpact: AccessibilityImpact;
+  violations: AccessibilityViolation[]; // Sorted by impact, most severe first
+  failingCount: number;
+  passedRules: number;
+  incompleteRules: number; // Rules that need manual review
+  checkedAt: Date;
+}
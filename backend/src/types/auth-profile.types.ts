@@ -0,0 +1,85 @@
+/**
+ * Auth Profile Types
+ * Named Playwright storage states so runs can start already logged in
+ */
+
+import { BrowserType, TestStep, TestExecutionRequest } from './test.types.js';
+
+// ============================================
+// Storage State (Playwright format)
+// ============================================
+
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number; // Unix seconds, -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface StorageStateOrigin {
+  origin: string;
+  localStorage: { name: string; value: string }[];
+}
+
+export interface StorageState {
+  cookies: StorageStateCookie[];
+  origins: StorageStateOrigin[];
+}
+
+// ============================================
+// Stored Profiles
+// ============================================
+
+export type AuthProfileSource = 'upload' | 'capture';
+
+export interface AuthProfile {
+  id: string; // Profile name
+  description?: string;
+  source: AuthProfileSource;
+  capturedFrom?: { scenarioId?: string; url?: string }; // Login flow that produced the state
+  storageState: StorageState;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Public view of a profile - cookie and localStorage values are never returned
+ */
+export interface AuthProfileMetadata {
+  name: string;
+  description?: string;
+  source: AuthProfileSource;
+  capturedFrom?: AuthProfile['capturedFrom'];
+  domains: string[]; // Cookie domains and localStorage origins covered
+  cookieCount: number;
+  expiresAt?: Date; // Earliest persistent cookie expiry - recapture after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Log in with steps (or a saved scenario's stored steps) and keep the resulting state
+ */
+export interface CaptureAuthProfileRequest {
+  steps?: TestStep[];
+  scenarioId?: string;
+  description?: string;
+  browser?: BrowserType;
+  options?: TestExecutionRequest['options'];
+}
+
+// ============================================
+// Storage State Resolution
+// ============================================
+
+export interface IAuthStateProvider {
+  /**
+   * Storage state of a profile
+   * @throws Error if the profile does not exist
+   */
+  loadStorageState(name: string): Promise<StorageState>;
+}
@@ -0,0 +1,66 @@
+/**
+ * LLM Cache Types
+ * Reuse of LLM answers for repeated calls (same provider, model, messages and options)
+ */
+
+import type { LLMResponse } from './llm.types.js';
+
+/**
+ * How a call uses the response cache
+ * - default: answer from the cache when possible, store fresh answers
+ * - refresh: skip the lookup, store the fresh answer (replaces the cached one)
+ * - bypass: neither read nor write
+ */
+export type LLMCacheMode = 'default' | 'refresh' | 'bypass';
+
+/**
+ * LLMRequestOptions.cache
+ */
+export interface LLMCacheOptions {
+  mode?: LLMCacheMode;
+  scope?: string; // Scenario the call belongs to - its entries are invalidated together
+  accept?: (content: string) => boolean; // Only answers it accepts are stored or reused (e.g. ones that pass validation)
+}
+
+export interface LLMCacheEntry {
+  key: string;
+  scope?: string;
+  response: LLMResponse;
+  createdAt: Date;
+}
+
+export interface LLMCacheStats {
+  enabled: boolean;
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  writes: number;
+  evictions: number; // Dropped from memory (still on disk)
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+  memoryEntries: number;
+  maxMemoryEntries: number;
+}
+
+export interface ILLMResponseCache {
+  /**
+   * Cached answer for a key, or null (missing or expired)
+   */
+  get(key: string, scope?: string): Promise<LLMResponse | null>;
+
+  set(key: string, response: LLMResponse, scope?: string): Promise<void>;
+
+  /**
+   * Drop every entry of a scope (scenario)
+   * @returns Number of entries removed
+   */
+  invalidateScope(scope: string): Promise<number>;
+
+  /**
+   * Drop every entry
+   * @returns Number of entries removed
+   */
+  clear(): Promise<number>;
+
+  getStats(): LLMCacheStats;
+}
@@ -5,4 +5,13 @@
 export * from './llm.types.js';
 export * from './test.types.js';
 export * from './mcp.types.js';
-export * from './websocket.types.js';
\ No newline at end of file
+export * from './websocket.types.js';
+export * from './storage.types.js';
+export * from './secret.types.js';
+export * from './schedule.types.js';
+export * from './auth-profile.types.js';
+export * from './visual.types.js';
+export * from './accessibility.types.js';
+export * from './usage.types.js';
+export * from './cache.types.js';
+export * from './recording.types.js';
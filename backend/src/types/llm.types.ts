@@ -3,6 +3,9 @@
  * Pure type definitions - no implementation logic
  */
 
+import type { LLMUsageTags } from './usage.types.js';
+import type { LLMCacheOptions } from './cache.types.js';
+
 // ============================================
 // Provider Types
 // ============================================
@@ -28,6 +31,20 @@ export interface LLMRequestOptions {
   topP?: number;
   stream?: boolean;
   timeout?: number;
+  responseFormat?: LLMResponseFormat;
+  signal?: AbortSignal; // Cancels the request (no failover to other providers)
+  usage?: LLMUsageTags; // Feature, run and session the call is recorded under
+  cache?: LLMCacheOptions; // Response cache mode and scenario scope
+  provider?: LLMProviderType; // Ask this provider first instead of the active one (the active provider is unchanged)
+}
+
+/**
+ * Ask for JSON output - providers use their native JSON mode, structured output or tool calling
+ */
+export interface LLMResponseFormat {
+  type: 'json';
+  name?: string; // Schema/tool name where the provider needs one
+  schema?: Record<string, unknown>; // JSON Schema of the output (root must be an object)
 }
 
 export interface LLMResponse {
@@ -41,6 +58,24 @@ export interface LLMResponse {
   };
   finishReason?: string;
   latencyMs: number;
+  cached?: boolean; // Answered from the response cache (no provider call, not in the usage ledger)
+  fallback?: { // Present when the active provider failed and another one answered
+    requestedProvider: LLMProviderType;
+    attempts: LLMFallbackAttempt[];
+  };
+}
+
+/**
+ * One piece of a streamed response
+ */
+export interface LLMStreamChunk {
+  delta: string; // Text added since the previous chunk
+  response?: LLMResponse; // Last chunk only: full content, usage and latency
+}
+
+export interface LLMFallbackAttempt {
+  provider: LLMProviderType;
+  error: string;
 }
 
 // ============================================
@@ -75,6 +110,20 @@ export interface ProviderStatus {
   error?: string;
 }
 
+// ============================================
+// Circuit Breaker Status
+// ============================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  provider: LLMProviderType;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  lastError?: string;
+}
+
 // ============================================
 // Provider Interface (Contract)
 // ============================================
@@ -88,6 +137,15 @@ export interface ILLMProvider {
     messages: ChatMessage[],
     options?: LLMRequestOptions
   ): Promise<LLMResponse>;
+
+  /**
+   * Chat completion yielding text as it is produced
+   * The last chunk carries the complete response
+   */
+  chatStream(
+    messages: ChatMessage[],
+    options?: LLMRequestOptions
+  ): AsyncGenerator<LLMStreamChunk>;
   
   generate(
     prompt: string,
@@ -3,7 +3,7 @@
  * For test execution via MCP clients
  */
 
-import { TestStep, TestStepResult } from './test.types.js';
+import { TestStep, TestStepResult, BrowserEmulation } from './test.types.js';
 
 // ============================================
 // MCP Client Types
@@ -42,7 +42,8 @@ export interface MCPClientStatus {
 
 export interface MCPExecutionRequest {
   steps: TestStep[];
-  options?: {
+  authProfile?: string; // Start the MCP browser with this profile's storage state
+  options?: BrowserEmulation & {
     headless?: boolean;
     timeout?: number;
     screenshot?: boolean;
@@ -60,6 +61,35 @@ export interface MCPExecutionResponse {
   completedAt: Date;
 }
 
+// ============================================
+// MCP Tool Call Types
+// ============================================
+
+export interface MCPToolCall {
+  tool: string;
+  arguments: Record<string, any>;
+}
+
+export interface MCPToolResult {
+  success: boolean;         // false when the tool responded with isError
+  text: string;             // Concatenated text content
+  images: { data: string; mimeType: string }[]; // Base64 image content
+  error?: string;
+}
+
+/**
+ * Element entry parsed from a browser_snapshot accessibility tree
+ * e.g. `- button "Sign in" [ref=e12]`, or `[ref=f1e3]` inside an iframe
+ */
+export interface MCPSnapshotNode {
+  ref: string;
+  role: string;
+  name: string;
+  frame: string;         // Ref prefix of the containing iframe ("f1"), "" on the top-level page
+  contentFrame?: string; // iframe nodes only: ref prefix of the iframe's content
+  checked: boolean;      // `[checked]` (or `[checked=mixed]`) in the snapshot line
+}
+
 // ============================================
 // MCP Client Interface
 // ============================================
@@ -0,0 +1,67 @@
+/**
+ * Recorded Test Types
+ * Steps approved in a human-in-loop session, frozen for replay without the LLM
+ */
+
+import {
+  TestStep,
+  BrowserType,
+  TestExecutionRequest,
+  TestExecutionResult,
+  TestRunStatus,
+} from './test.types.js';
+
+// ============================================
+// Stored Recordings
+// ============================================
+
+export interface RecordedTestReplayInfo {
+  runId: string; // Run history record
+  status: Exclude<TestRunStatus, 'generated'>;
+  healedSteps: number; // Steps that only passed after the LLM healed their selector
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface RecordedTest {
+  id: string;
+  name: string;
+  scenario: string; // Scenario the session explored
+  steps: TestStep[]; // Executed and passed steps, in order (user edits applied)
+  browser?: BrowserType;
+  sessionId?: string; // Session it was recorded from (absent when created from a step list)
+  lastReplay?: RecordedTestReplayInfo;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateRecordedTestInput = Pick<RecordedTest, 'name' | 'scenario' | 'steps' | 'browser' | 'sessionId'>;
+
+export type UpdateRecordedTestInput = Partial<Pick<RecordedTest, 'name' | 'steps' | 'lastReplay'>>;
+
+// ============================================
+// Replay
+// ============================================
+
+export interface RecordedTestReplayOptions {
+  browser?: BrowserType; // Default: the browser the session was recorded in
+  authProfile?: string;
+  options?: Omit<NonNullable<TestExecutionRequest['options']>, 'selfHeal'>;
+  selfHeal?: boolean; // Ask the LLM for a new selector when a step's element is missing (default true)
+  saveHealedSelectors?: boolean; // Write healed selectors back to the recording (default true)
+}
+
+export interface RecordedTestHealing {
+  stepIndex: number;
+  originalTarget: string;
+  healedTarget: string;
+  healedFrame: string; // "" = top-level page
+}
+
+export interface RecordedTestReplayResult {
+  recordingId: string;
+  runId: string;
+  execution: TestExecutionResult;
+  healed: RecordedTestHealing[];
+  recordingUpdated: boolean; // Healed selectors were saved to the recording
+}
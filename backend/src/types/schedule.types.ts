@@ -0,0 +1,72 @@
+/**
+ * Schedule Types
+ * Recurring test runs driven by cron expressions
+ */
+
+import {
+  TestStep,
+  TestRunStatus,
+  DynamicTestRunRequest,
+  TestDataset,
+} from './test.types.js';
+
+// ============================================
+// Schedule Targets
+// ============================================
+
+/**
+ * What a schedule runs - a saved scenario or a fixed step list
+ */
+export type ScheduleTarget =
+  | {
+      type: 'scenario';
+      scenarioId: string;
+      regenerate?: boolean; // Generate fresh steps on every run
+    }
+  | {
+      type: 'steps';
+      steps: TestStep[];
+    };
+
+// ============================================
+// Stored Schedules
+// ============================================
+
+export type ScheduleRunStatus = Exclude<TestRunStatus, 'generated'> | 'skipped';
+
+export interface ScheduleRunInfo {
+  runId?: string; // Run history record (absent when skipped or failed before running)
+  status: ScheduleRunStatus;
+  startedAt: Date;
+  completedAt: Date;
+  error?: string;
+}
+
+export interface TestSchedule {
+  id: string;
+  name: string;
+  cron: string; // 5-field cron expression (minute hour day-of-month month day-of-week), server time
+  target: ScheduleTarget;
+  llmProvider?: DynamicTestRunRequest['llmProvider'];
+  mcpClient?: DynamicTestRunRequest['mcpClient'];
+  executionOptions?: DynamicTestRunRequest['executionOptions'];
+  dataset?: TestDataset;
+  enabled: boolean;
+  lastRun?: ScheduleRunInfo;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateScheduleInput = Omit<TestSchedule, 'id' | 'enabled' | 'lastRun' | 'createdAt' | 'updatedAt'> & {
+  enabled?: boolean;
+};
+
+export type UpdateScheduleInput = Partial<Pick<TestSchedule, 'enabled' | 'lastRun'>>;
+
+/**
+ * Schedule as returned by the API
+ */
+export interface ScheduleView extends TestSchedule {
+  nextRunAt?: Date; // Absent while paused
+  running: boolean;
+}
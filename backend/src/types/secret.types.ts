@@ -0,0 +1,51 @@
+/**
+ * Secret Types
+ * Named credentials referenced from steps as {{secret:name}}
+ */
+
+// ============================================
+// Stored Secrets
+// ============================================
+
+/**
+ * Secret as stored on disk (AES-256-GCM, base64 fields)
+ */
+export interface EncryptedSecret {
+  id: string; // Secret name
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Public view of a secret - never includes the value
+ */
+export interface SecretMetadata {
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Secret Resolution
+// ============================================
+
+export interface ISecretResolver {
+  /**
+   * Whether the text contains {{secret:name}} placeholders
+   */
+  containsSecrets(text?: string): boolean;
+
+  /**
+   * Replace {{secret:name}} placeholders with decrypted values
+   * @throws Error if the vault is disabled or a secret does not exist
+   */
+  resolve(text: string): Promise<string>;
+
+  /**
+   * Replace any secret value revealed so far with a mask
+   */
+  mask(text: string): string;
+}
@@ -0,0 +1,88 @@
+/**
+ * Storage Types
+ * Repository contracts for persisted data
+ */
+
+import {
+  SavedTestScenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  ScenarioQuery,
+  TestRunRecord,
+  TestRunSummary,
+  RunHistoryQuery,
+  PaginatedResult,
+} from './test.types.js';
+import { EncryptedSecret } from './secret.types.js';
+import { TestSchedule, CreateScheduleInput, UpdateScheduleInput } from './schedule.types.js';
+import { AuthProfile } from './auth-profile.types.js';
+import { RecordedTest, CreateRecordedTestInput, UpdateRecordedTestInput } from './recording.types.js';
+
+// ============================================
+// Scenario Repository
+// ============================================
+
+export interface IScenarioRepository {
+  list(query?: ScenarioQuery): Promise<SavedTestScenario[]>;
+  findById(id: string): Promise<SavedTestScenario | null>;
+  create(input: CreateScenarioInput): Promise<SavedTestScenario>;
+  update(id: string, input: UpdateScenarioInput): Promise<SavedTestScenario | null>;
+  delete(id: string): Promise<boolean>;
+  listTags(): Promise<string[]>;
+}
+
+// ============================================
+// Run History Repository
+// ============================================
+
+export interface IRunHistoryRepository {
+  save(record: TestRunRecord): Promise<TestRunRecord>;
+  findById(id: string): Promise<TestRunRecord | null>;
+  query(query?: RunHistoryQuery): Promise<PaginatedResult<TestRunSummary>>;
+}
+
+// ============================================
+// Secret Repository
+// ============================================
+
+export interface ISecretRepository {
+  list(): Promise<EncryptedSecret[]>;
+  findByName(name: string): Promise<EncryptedSecret | null>;
+  save(secret: EncryptedSecret): Promise<EncryptedSecret>;
+  delete(name: string): Promise<boolean>;
+}
+
+// ============================================
+// Schedule Repository
+// ============================================
+
+export interface IScheduleRepository {
+  list(): Promise<TestSchedule[]>;
+  findById(id: string): Promise<TestSchedule | null>;
+  create(input: CreateScheduleInput): Promise<TestSchedule>;
+  update(id: string, input: UpdateScheduleInput): Promise<TestSchedule | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// ============================================
+// Auth Profile Repository
+// ============================================
+
+export interface IAuthProfileRepository {
+  list(): Promise<AuthProfile[]>;
+  findByName(name: string): Promise<AuthProfile | null>;
+  save(profile: AuthProfile): Promise<AuthProfile>;
+  delete(name: string): Promise<boolean>;
+}
+
+// ============================================
+// Recorded Test Repository
+// ============================================
+
+export interface IRecordedTestRepository {
+  list(): Promise<RecordedTest[]>;
+  findById(id: string): Promise<RecordedTest | null>;
+  create(input: CreateRecordedTestInput): Promise<RecordedTest>;
+  update(id: string, input: UpdateRecordedTestInput): Promise<RecordedTest | null>;
+  delete(id: string): Promise<boolean>;
+}
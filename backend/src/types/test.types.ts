@@ -4,6 +4,10 @@
  */
 
 import { LLMProviderType } from "./llm.types.js";
+import { VisualComparison } from "./visual.types.js";
+import { AccessibilityCheckOptions, AccessibilityReport } from "./accessibility.types.js";
+import { LLMUsageTags, LLMUsageTotals } from "./usage.types.js";
+import { LLMCacheMode } from "./cache.types.js";
 
 // ============================================
 // Browser Types
@@ -11,25 +15,60 @@ import { LLMProviderType } from "./llm.types.js";
 
 export type BrowserType = 'chromium' | 'firefox' | 'webkit';
 
+export interface Viewport {
+  name?: string; // Label for matrix results, e.g. "mobile"
+  width: number;
+  height: number;
+}
+
+/**
+ * Browser context emulation - a device preset plus individual overrides
+ * Explicit fields win over the device descriptor's values
+ */
+export interface BrowserEmulation {
+  device?: string; // Playwright device descriptor name, e.g. "iPhone 13", "Pixel 7"
+  viewport?: Viewport;
+  locale?: string; // e.g. "de-DE"
+  timezone?: string; // IANA id, e.g. "Europe/Berlin"
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  permissions?: string[]; // e.g. ["geolocation", "notifications"]
+}
+
 // ============================================
 // Test Step Types
 // ============================================
 
-export type TestStepAction =
-  | "goto"
-  | "fill"
-  | "click"
-  | "hover"
-  | "select"
-  | "check"
-  | "uncheck"
-  | "expectVisible"
-  | "expectHidden"
-  | "expectText"
-  | "expectUrl"
-  | "wait"
-  | "screenshot"
-  | "scroll";
+/**
+ * Actions the executors support (runtime list for validation)
+ */
+export const TEST_STEP_ACTIONS = [
+  "goto",
+  "fill",
+  "click",
+  "hover",
+  "select",
+  "check",
+  "uncheck",
+  "expectVisible",
+  "expectHidden",
+  "expectText",
+  "expectUrl",
+  "wait",
+  "screenshot",
+  "scroll",
+  "mockRoute",
+  "blockRoute",
+  "expectRequest",
+  "switchTab",
+  "waitForPopup",
+  "closeTab",
+  "withinFrame",
+  "expectScreenshot",
+  "expectAccessible",
+] as const;
+
+export type TestStepAction = (typeof TEST_STEP_ACTIONS)[number];
 
 export interface TestStep {
   id?: string; // Optional ID for tracking
@@ -38,6 +77,14 @@ export interface TestStep {
   value?: string;
   description?: string;
   timeout?: number;
+  method?: string; // Network steps: HTTP method to match (any method if omitted)
+  status?: number; // mockRoute: response status code (default 200)
+  frame?: string; // iframe selector for this step only ("" = top-level page)
+  tab?: number; // Run on this tab (index in opening order) instead of the active one
+  name?: string; // expectScreenshot: baseline name
+  threshold?: number; // expectScreenshot: allowed ratio of differing pixels (0-1)
+  mask?: string[]; // expectScreenshot: selectors painted over before comparing (dates, ads, ...)
+  accessibility?: AccessibilityCheckOptions; // expectAccessible: severity threshold and rules
 }
 
 // ============================================
@@ -50,11 +97,15 @@ export interface TestContext {
   allowedElements?: string[];
   baseUrl?: string;
   customInstructions?: string;
+  device?: EmulatedDevice; // Device the steps will run on (mobile pages need different selectors)
 }
 
 export interface TestGenerationRequest {
   scenario: string;
   context?: TestContext;
+  usage?: Omit<LLMUsageTags, 'feature'>; // Run/session the LLM calls are accounted to
+  cache?: LLMCacheMode; // Response cache use (default: reuse answers for the same prompt)
+  llmProvider?: LLMProviderType; // Provider for this request only (default: the active provider)
 }
 
 export interface TestGenerationResponse {
@@ -63,6 +114,22 @@ export interface TestGenerationResponse {
   model: string;
   provider: LLMProviderType;
   latencyMs: number;
+  fallbackFrom?: LLMProviderType; // Set when the active provider failed over
+  repairs: number; // Correction rounds needed before the output passed schema validation
+}
+
+/**
+ * Partial output while steps are streamed from the LLM
+ */
+export interface StepGenerationChunk {
+  delta: string; // Text added since the previous chunk
+  steps: TestStep[]; // Steps already complete in this round's output
+  repair: number; // 0 for the first answer, n for the n-th repair round (output starts over)
+}
+
+export interface StepGenerationStream {
+  onChunk: (chunk: StepGenerationChunk) => void;
+  signal?: AbortSignal; // Abort to cancel generation early
 }
 
 // ============================================
@@ -74,6 +141,14 @@ export interface PageSnapshot {
   title: string;
   elements: DOMElement[];
   timestamp: Date;
+  device?: EmulatedDevice; // Set when the page is rendered with emulation
+}
+
+export interface EmulatedDevice {
+  name?: string; // Device descriptor name
+  width: number;
+  height: number;
+  isMobile: boolean;
 }
 
 export interface DOMElement {
@@ -83,6 +158,7 @@ export interface DOMElement {
   role?: string;
   ariaLabel?: string;
   attributes: Record<string, string>;
+  frame?: string; // Selector of the iframe containing the element
 }
 
 export interface IterativeStepRequest {
@@ -90,6 +166,8 @@ export interface IterativeStepRequest {
   previousSteps: TestStep[];
   currentPageSnapshot?: PageSnapshot;
   requiresPageContext: boolean;
+  usage?: Omit<LLMUsageTags, 'feature'>;
+  cacheScope?: string; // Scenario the step belongs to (cache invalidation) - `scenario` holds the intention
 }
 
 export interface SnapshotSummary {
@@ -116,12 +194,22 @@ export type TestStepStatus =
   | "failed"
   | "skipped";
 
+export interface SelectorHealing {
+  originalTarget: string;
+  healedTarget?: string; // Absent if no replacement was found
+  healedFrame?: string; // iframe of the replacement ("" = top-level page)
+  healed: boolean; // True if the retried step passed with the healed target
+}
+
 export interface TestStepResult {
   step: TestStep;
   status: TestStepStatus;
   duration: number;
   error?: string;
   screenshot?: string;
+  healing?: SelectorHealing;
+  visual?: VisualComparison; // expectScreenshot result
+  accessibility?: AccessibilityReport; // expectAccessible result
 }
 
 export interface TestExecutionResult {
@@ -129,6 +217,7 @@ export interface TestExecutionResult {
   scenario?: string;
   steps: TestStepResult[];
   status: "passed" | "failed" | "error";
+  artifacts?: RunArtifacts; // Trace/video/HAR/console files recorded for this execution
   totalDuration: number;
   startedAt: Date;
   completedAt: Date;
@@ -138,12 +227,143 @@ export interface TestExecutionRequest {
   steps: TestStep[];
   scenario?: string;
   browser?: BrowserType;
-  options?: {
+  authProfile?: string; // Start logged in with this profile's storage state
+  dataset?: TestDataset; // Run the steps once per row, filling {{variable}} placeholders
+  report?: ReportFormat; // Respond with a rendered report instead of JSON
+  options?: BrowserEmulation & ArtifactCaptureOptions & {
     headless?: boolean;
     baseUrl?: string;
     timeout?: number;
     screenshot?: boolean;
+    selfHeal?: boolean; // Ask the LLM for a replacement selector when an element is missing
+  };
+}
+
+// ============================================
+// Artifact Types
+// ============================================
+
+export type ArtifactType = "trace" | "video" | "har" | "console";
+
+/**
+ * What a direct execution records (stored under DATA_DIR/artifacts/<execution id>)
+ */
+export interface ArtifactCaptureOptions {
+  artifacts?: ArtifactType[];
+  keepArtifacts?: "always" | "on-failure"; // Default: always
+}
+
+export interface RunArtifact {
+  type: ArtifactType;
+  fileName: string;
+  contentType: string;
+  size: number; // Bytes
+}
+
+export interface RunArtifacts {
+  runId: string; // Artifact directory, see GET /api/artifacts/:runId
+  files: RunArtifact[];
+}
+
+// ============================================
+// Data-Driven Types
+// ============================================
+
+export type DatasetRow = Record<string, string>;
+
+/**
+ * Parameter table for data-driven runs - provide exactly one source
+ * Column names are referenced from step target/value/description as {{column}}
+ */
+export interface TestDataset {
+  name?: string;
+  rows?: DatasetRow[]; // Inline rows
+  csv?: string; // CSV file content, first line is the header
+  json?: string; // JSON file content: array of flat objects
+}
+
+export interface DataDrivenRowResult {
+  rowIndex: number;
+  row: DatasetRow;
+  result: TestExecutionResult;
+}
+
+export interface DataDrivenExecutionResult {
+  id: string;
+  scenario?: string;
+  datasetName?: string;
+  rows: DataDrivenRowResult[];
+  status: "passed" | "failed" | "error"; // failed if any row failed, error if any row errored
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+  };
+  totalDuration: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+// ============================================
+// Batch Execution Types
+// ============================================
+
+/**
+ * Run one step list on every browser x viewport combination
+ * Provide either steps or a saved scenario (its stored steps are used)
+ */
+export interface BatchExecutionRequest {
+  steps?: TestStep[];
+  scenarioId?: string;
+  scenario?: string;
+  browsers: BrowserType[];
+  viewports?: Viewport[]; // Default: one run per browser at the default size
+  workers?: number; // Concurrent browsers, capped by BATCH_MAX_WORKERS
+  llmProvider?: LLMProviderType; // Generates steps for a scenario that has none stored
+  authProfile?: string;
+  options?: Omit<NonNullable<TestExecutionRequest["options"]>, "viewport">;
+}
+
+export interface BatchCellResult {
+  browser: BrowserType;
+  viewport?: Viewport;
+  result: TestExecutionResult;
+}
+
+export interface BatchExecutionResult {
+  id: string;
+  scenario?: string;
+  steps: TestStep[];
+  cells: BatchCellResult[]; // Browser-major order, regardless of completion order
+  status: "passed" | "failed" | "error"; // failed if any cell failed, error if any cell errored
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
   };
+  workers: number;
+  totalDuration: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+// ============================================
+// Self-Healing Types
+// ============================================
+
+export interface SelectorHealingRequest {
+  step: TestStep;
+  error: string;
+  snapshot: PageSnapshot;
+}
+
+export interface ISelectorHealer {
+  /**
+   * Suggest a replacement target from the snapshot, or null if none fits
+   */
+  healSelector(request: SelectorHealingRequest): Promise<string | null>;
 }
 
 // ============================================
@@ -155,12 +375,17 @@ export interface DynamicTestRunRequest {
   llmProvider?: LLMProviderType; // Optional: specific LLM to use
   mcpClient?: 'playwright' | 'direct' | 'appium'; // Optional: MCP client or direct
   context?: TestContext; // Optional: test context
+  steps?: TestStep[]; // Optional: pre-generated steps (skips LLM generation)
+  dataset?: TestDataset; // Optional: execute once per row
+  authProfile?: string; // Optional: start execution logged in (see /api/auth-profiles)
   executeImmediately?: boolean; // Run test after generation?
-  executionOptions?: {
+  cache?: LLMCacheMode; // Optional: "refresh" or "bypass" the LLM response cache
+  executionOptions?: BrowserEmulation & ArtifactCaptureOptions & {
     headless?: boolean;
     timeout?: number;
     screenshot?: boolean;
     browser?: BrowserType;
+    selfHeal?: boolean;
   };
 }
 
@@ -168,20 +393,23 @@ export interface DynamicTestRunResponse {
   id: string;
   prompt: string;
   generatedSteps: TestStep[];
-  llmUsed: {
-    provider: LLMProviderType;
+  llmUsed?: { // Absent when pre-generated steps were supplied
+    provider: LLMProviderType; // Provider that actually answered
     model: string;
     latencyMs: number;
+    fallbackFrom?: LLMProviderType;
   };
+  llmUsage?: LLMUsageTotals; // Tokens and estimated cost of every LLM call of the run
   executionMethod?: 'direct' | 'mcp'; // How was it executed
   mcpClient?: string; // Which MCP client was used
   execution?: TestExecutionResult; // Only if executeImmediately=true
+  dataDriven?: DataDrivenExecutionResult; // Replaces execution when a dataset was supplied
   status: "generated" | "executed";
   timestamp: Date;
 }
 
 // ============================================
-// Test Scenario Storage Types (for future use)
+// Test Scenario Storage Types
 // ============================================
 
 export interface SavedTestScenario {
@@ -195,3 +423,108 @@ export interface SavedTestScenario {
   updatedAt: Date;
   tags?: string[];
 }
+
+export type CreateScenarioInput = Omit<SavedTestScenario, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateScenarioInput = Partial<CreateScenarioInput>;
+
+export interface ScenarioQuery {
+  tags?: string[]; // Scenario must carry every listed tag
+  search?: string; // Case-insensitive match on name, description and scenario
+}
+
+export interface ScenarioRunOptions {
+  llmProvider?: DynamicTestRunRequest['llmProvider'];
+  mcpClient?: DynamicTestRunRequest['mcpClient'];
+  executeImmediately?: boolean;
+  regenerate?: boolean; // Ignore stored steps and generate fresh ones
+  cache?: LLMCacheMode;
+  executionOptions?: DynamicTestRunRequest['executionOptions'];
+  dataset?: TestDataset;
+  authProfile?: string;
+}
+
+// ============================================
+// Playwright Export Types
+// ============================================
+
+export interface PlaywrightExportRequest {
+  steps: TestStep[];
+  testName?: string;
+  describe?: string; // Optional test.describe() block title
+  baseUrl?: string; // Emitted as test.use({ baseURL })
+}
+
+export interface PlaywrightExportResult {
+  fileName: string;
+  content: string;
+  stepCount: number;
+  unsupportedActions: string[]; // Emitted as TODO comments
+}
+
+// ============================================
+// Report Types
+// ============================================
+
+export type ReportFormat = 'junit' | 'html' | 'markdown';
+
+export interface TestReport {
+  format: ReportFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+// ============================================
+// Run History Types
+// ============================================
+
+export type TestRunSource = 'dynamic' | 'execute' | 'scenario' | 'schedule' | 'replay';
+
+export type TestRunStatus = 'generated' | 'passed' | 'failed' | 'error';
+
+export interface TestRunRecord {
+  id: string;
+  source: TestRunSource;
+  status: TestRunStatus;
+  prompt?: string;
+  scenarioId?: string;
+  scheduleId?: string;
+  recordingId?: string; // Recorded test a replay ran
+  llmUsed?: DynamicTestRunResponse['llmUsed'];
+  llmUsage?: DynamicTestRunResponse['llmUsage'];
+  executionMethod?: DynamicTestRunResponse['executionMethod'];
+  mcpClient?: string;
+  generatedSteps: TestStep[];
+  steps: TestStepResult[]; // Per-step results, including failure screenshots
+  dataDriven?: DataDrivenExecutionResult['summary']; // Row counts; steps hold every row's results
+  batch?: BatchExecutionResult['summary']; // Cell counts; steps hold every cell's results
+  artifacts?: RunArtifacts; // Recorded files of a single direct execution
+  totalDuration: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface TestRunSummary extends Omit<TestRunRecord, 'generatedSteps' | 'steps'> {
+  stepCount: number;
+  passedSteps: number;
+  failedSteps: number;
+}
+
+export interface RunHistoryQuery {
+  status?: TestRunStatus;
+  provider?: LLMProviderType;
+  scenarioId?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,116 @@
+/**
+ * LLM Usage Types
+ * Token and cost accounting for every LLM call, with monthly budgets
+ */
+
+import type { LLMProviderType } from './llm.types.js';
+
+// ============================================
+// Tagging
+// ============================================
+
+/**
+ * What an LLM call was made for ("api" = raw /api/llm/generate and /chat calls)
+ */
+export type LLMFeature =
+  | 'generateSteps'
+  | 'parseScenarioIntent'
+  | 'generateNextStep'
+  | 'healSelector'
+  | 'api';
+
+/**
+ * LLMRequestOptions.usage - attributes a call in the usage ledger
+ */
+export interface LLMUsageTags {
+  feature?: LLMFeature;
+  runId?: string; // Dynamic test run the call belongs to
+  sessionId?: string; // WebSocket session the call belongs to
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+export interface LLMUsageEntry {
+  timestamp: Date;
+  provider: LLMProviderType; // Provider that answered (after failover)
+  model: string;
+  feature?: LLMFeature;
+  runId?: string;
+  sessionId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  priced: boolean; // false when the model has no known price (cost counted as 0)
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  unpricedCalls: number; // Calls to models without a price - set LLM_PRICING to include them
+}
+
+export interface LLMUsageQuery {
+  from?: Date;
+  to?: Date;
+  provider?: LLMProviderType;
+  feature?: LLMFeature;
+  runId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface LLMModelPrice {
+  input: number;
+  output: number;
+}
+
+// ============================================
+// Budgets
+// ============================================
+
+export type LLMBudgetScope = LLMProviderType | 'total';
+
+export interface LLMBudgetStatus {
+  scope: LLMBudgetScope;
+  month: string; // e.g. "2026-10" (UTC)
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+}
+
+// ============================================
+// Reports (GET /api/llm/usage)
+// ============================================
+
+export interface LLMUsageReport {
+  from: Date;
+  to: Date;
+  totals: LLMUsageTotals;
+  byDay: (LLMUsageTotals & { date: string })[]; // UTC days, oldest first
+  byProvider: (LLMUsageTotals & { provider: LLMProviderType; models: string[] })[];
+  byFeature: (LLMUsageTotals & { feature: LLMFeature | 'untagged' })[];
+  budgets: LLMBudgetStatus[]; // Current month
+}
+
+export interface ILLMUsageLedger {
+  /**
+   * Record one successful LLM call (cost is estimated from the model's price)
+   */
+  record(entry: Omit<LLMUsageEntry, 'costUsd' | 'priced'>): Promise<LLMUsageEntry>;
+
+  /**
+   * First exceeded monthly budget that applies to the provider ("total" first), or null
+   */
+  exceededBudget(provider: LLMProviderType): Promise<LLMBudgetStatus | null>;
+}
@@ -0,0 +1,52 @@
+/**
+ * Visual Regression Types
+ * Screenshot baselines compared by expectScreenshot steps
+ */
+
+// ============================================
+// Comparison
+// ============================================
+
+export type VisualComparisonStatus = 'baseline-created' | 'matched' | 'mismatched';
+
+/**
+ * Outcome of one expectScreenshot step (TestStepResult.visual)
+ */
+export interface VisualComparison {
+  name: string;
+  variant: string; // Browser and viewport, e.g. "chromium-1280x720"
+  status: VisualComparisonStatus;
+  threshold: number; // Allowed ratio of differing pixels
+  diffPixels?: number;
+  diffRatio?: number;
+  message?: string; // Why a comparison mismatched
+}
+
+export type VisualImageKind = 'baseline' | 'actual' | 'diff';
+
+// ============================================
+// Baselines
+// ============================================
+
+export interface VisualBaseline {
+  name: string;
+  variant: string;
+  width: number;
+  height: number;
+  pending: boolean; // A mismatching actual image is waiting to be accepted
+  lastComparison?: {
+    status: VisualComparisonStatus;
+    diffRatio?: number;
+    comparedAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IVisualComparator {
+  /**
+   * Compare a PNG against the stored baseline (stored as the baseline if there is none yet)
+   * @param threshold - Allowed ratio of differing pixels (0-1)
+   */
+  compare(name: string, variant: string, png: Buffer, threshold?: number): Promise<VisualComparison>;
+}
@@ -1,7 +1,15 @@
 /**
  * WebSocket Types - Human-in-Loop approval types
  */
-import { TestStep, TestStepResult, BrowserType, PageSnapshot, SnapshotSummary } from './test.types.js';
+import {
+  TestStep,
+  TestStepResult,
+  BrowserType,
+  PageSnapshot,
+  SnapshotSummary,
+  StepGenerationChunk,
+} from './test.types.js';
+import { RecordedTest } from './recording.types.js';
 
 /**
  * Approval status for a test step
@@ -11,7 +19,7 @@ export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'timeout';
 /**
  * Test session state
  */
-export type SessionState = 'idle' | 'generating' | 'awaiting_approval' | 'executing' | 'completed' | 'cancelled';
+export type SessionState = 'idle' | 'generating' | 'awaiting_approval' | 'executing' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Test session information
@@ -22,15 +30,28 @@ export interface TestSession {
   scenario: string;
   llmProvider: string;
   mcpClient?: string;
+  browser?: BrowserType;
   state: SessionState;
   currentStepIndex: number;
   totalSteps: number;
   steps: TestStep[];
+  executedSteps: TestStep[]; // Steps that ran and passed, edits applied - what a recording replays
   results: TestStepResult[];
+  resultStepIndexes: number[]; // Step index of each result - retry replaces a step's result, rewind drops later ones
+  recordingId?: string; // Set for replays of a recorded test
+  iterative?: boolean; // Page-aware generation - steps arrive one at a time, so the plan cannot be edited
   startedAt: Date;
   completedAt?: Date;
 }
 
+/**
+ * Partial LLM output sent to client while steps are being generated
+ * Cancel the session to stop generation early
+ */
+export interface StepsGeneratingChunk extends StepGenerationChunk {
+  sessionId: string;
+}
+
 /**
  * Step approval request sent to client
  */
@@ -52,6 +73,49 @@ export interface StepApprovalResponse {
   approved: boolean;
   modifiedStep?: TestStep; // Allow client to modify step before execution
   reason?: string;
+  edit?: StepEdit; // Set by step edit events - the pending step is neither approved nor rejected
+}
+
+/**
+ * Changes a reviewer can make to the step plan while a step awaits approval
+ * - insert_before / insert_after: add steps around the pending or an upcoming step
+ * - skip: skip the pending step, or remove an upcoming one from the plan
+ * - retry: run an already executed step again, then return to the pending step
+ * - rewind: continue from an already executed step (it and the steps after it are approved again)
+ */
+export type StepEditAction = 'insert_before' | 'insert_after' | 'skip' | 'retry' | 'rewind';
+
+export interface StepEdit {
+  action: StepEditAction;
+  stepIndex: number; // Step the edit applies to (insert position anchor for inserts)
+  steps?: TestStep[]; // insert_before / insert_after
+}
+
+/**
+ * Insert steps before or after a step (step:insert_before / step:insert_after)
+ */
+export interface InsertStepsRequest {
+  sessionId: string;
+  stepIndex: number;
+  steps: TestStep[];
+}
+
+/**
+ * Skip, retry or rewind to a step (step:skip / step:retry / step:rewind)
+ */
+export interface StepTargetRequest {
+  sessionId: string;
+  stepIndex: number;
+}
+
+/**
+ * Step plan changed by an edit
+ */
+export interface StepsUpdatedNotification {
+  sessionId: string;
+  action: StepEditAction;
+  steps: TestStep[];
+  nextStepIndex: number; // Step whose approval is requested next
 }
 
 /**
@@ -113,10 +177,13 @@ export interface SessionStatusUpdate {
 export enum ServerEvents {
   SESSION_CREATED = 'session:created',
   SESSION_STATUS = 'session:status',
+  STEPS_GENERATING_CHUNK = 'steps:generating_chunk',
   STEPS_GENERATED = 'steps:generated',
+  STEPS_UPDATED = 'steps:updated',
   STEP_APPROVAL_REQUEST = 'step:approval_request',
   STEP_EXECUTION_UPDATE = 'step:execution_update',
   SESSION_COMPLETED = 'session:completed',
+  SESSION_RECORDED = 'session:recorded',
   SNAPSHOT_CAPTURED = 'snapshot:captured',
   SNAPSHOT_APPROVAL_REQUEST = 'snapshot:approval_request',
   ERROR = 'error',
@@ -128,8 +195,15 @@ export enum ServerEvents {
 export enum ClientEvents {
   START_TEST = 'test:start',
   STEP_APPROVAL = 'step:approval',
+  STEP_INSERT_BEFORE = 'step:insert_before',
+  STEP_INSERT_AFTER = 'step:insert_after',
+  STEP_SKIP = 'step:skip',
+  STEP_RETRY = 'step:retry',
+  STEP_REWIND = 'step:rewind',
   SNAPSHOT_APPROVAL = 'snapshot:approval',
   CANCEL_SESSION = 'session:cancel',
+  RECORD_SESSION = 'session:record',
+  REPLAY_TEST = 'test:replay',
 }
 
 /**
@@ -146,6 +220,29 @@ export interface StartTestRequest {
   showSnapshotsForApproval?: boolean; // Show snapshots for approval (matches frontend)
 }
 
+/**
+ * Freeze a completed session into a recorded test
+ */
+export interface RecordSessionRequest {
+  sessionId: string;
+  name?: string; // Default: the scenario text
+}
+
+export interface SessionRecordedNotification {
+  sessionId: string;
+  recording: RecordedTest;
+}
+
+/**
+ * Replay a recorded test - no LLM calls unless a step needs healing
+ */
+export interface ReplayTestRequest {
+  recordingId: string;
+  browser?: BrowserType;
+  headless?: boolean;
+  selfHeal?: boolean; // Default true
+}
+
 /**
  * Approval manager state
  */
@@ -13,13 +13,28 @@ import {
   SnapshotCapturedNotification,
   SnapshotApprovalRequest,
   SnapshotApprovalResponse,
+  StepGenerationStream,
+  StepsGeneratingChunk,
+  RecordSessionRequest,
+  SessionRecordedNotification,
+  ReplayTestRequest,
+  TestStep,
+  TestStepResult,
+  StepEdit,
+  StepEditAction,
+  InsertStepsRequest,
+  StepTargetRequest,
+  StepsUpdatedNotification,
 } from '../types/index.js';
 import { approvalManager } from '../services/approval-manager.service.js';
+import { recordedTests } from '../services/recorded-test.service.js';
+import { schemas } from '../api/middleware/index.js';
 import { testOrchestrator } from './websocket-test-orchestrator.js';
 
 export class WebSocketServer {
   private io: SocketIOServer;
   private activeSessions: Map<string, TestSession> = new Map();
+  private generationControllers: Map<string, AbortController> = new Map(); // Aborted on cancel
 
   constructor(httpServer: HTTPServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -62,6 +77,32 @@ export class WebSocketServer {
         }
       });
 
+      // Handle step edits (only while a step awaits approval)
+      const stepEditEvents: [ClientEvents, StepEditAction][] = [
+        [ClientEvents.STEP_INSERT_BEFORE, 'insert_before'],
+        [ClientEvents.STEP_INSERT_AFTER, 'insert_after'],
+        [ClientEvents.STEP_SKIP, 'skip'],
+        [ClientEvents.STEP_RETRY, 'retry'],
+        [ClientEvents.STEP_REWIND, 'rewind'],
+      ];
+      for (const [event, action] of stepEditEvents) {
+        socket.on(event, (request: InsertStepsRequest | StepTargetRequest) => {
+          try {
+            this.handleStepEdit(
+              { action, stepIndex: request.stepIndex, steps: 'steps' in request ? request.steps : undefined },
+              request.sessionId
+            );
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            socket.emit(ServerEvents.ERROR, {
+              sessionId: request?.sessionId,
+              message: 'Failed to edit steps',
+              error: errorMessage,
+            });
+          }
+        });
+      }
+
       // Handle snapshot approval
       socket.on(ClientEvents.SNAPSHOT_APPROVAL, (response: SnapshotApprovalResponse) => {
         try {
@@ -88,6 +129,33 @@ export class WebSocketServer {
         }
       });
 
+      // Handle freezing a completed session into a recorded test
+      socket.on(ClientEvents.RECORD_SESSION, async (request: RecordSessionRequest) => {
+        try {
+          await this.handleRecordSession(socket.id, request);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          socket.emit(ServerEvents.ERROR, {
+            sessionId: request?.sessionId,
+            message: 'Failed to record session',
+            error: errorMessage,
+          });
+        }
+      });
+
+      // Handle replay of a recorded test
+      socket.on(ClientEvents.REPLAY_TEST, async (request: ReplayTestRequest) => {
+        try {
+          await this.handleReplayTest(socket.id, request);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          socket.emit(ServerEvents.ERROR, {
+            message: 'Failed to replay recorded test',
+            error: errorMessage,
+          });
+        }
+      });
+
       // Handle disconnect
       socket.on('disconnect', () => {
         console.log(`[WebSocket] Client disconnected: ${socket.id}`);
@@ -108,11 +176,15 @@ export class WebSocketServer {
       scenario: request.scenario,
       llmProvider: request.llmProvider || 'groq',
       mcpClient: request.mcpClient,
+      browser: request.browser,
       state: 'generating',
       currentStepIndex: 0,
       totalSteps: 0,
       steps: [],
+      executedSteps: [],
       results: [],
+      resultStepIndexes: [],
+      iterative: request.humanInLoop && !!request.enablePageAwareGeneration,
       startedAt: new Date(),
     };
 
@@ -172,9 +244,8 @@ export class WebSocketServer {
       session.state = 'generating';
       this.updateSessionStatus(socketId, session);
 
-      const steps = await testOrchestrator.generateSteps(
-        session.scenario,
-        session.llmProvider
+      const steps = await this.withGenerationStream(socketId, session, (stream) =>
+        testOrchestrator.generateSteps(session.scenario, session.llmProvider, stream, session.sessionId)
       );
 
       session.steps = steps;
@@ -186,8 +257,10 @@ export class WebSocketServer {
         steps,
       });
 
-      // Execute steps one by one with approval
-      for (let i = 0; i < steps.length; i++) {
+      // Execute steps one by one with approval - step edits change session.steps and where the loop resumes
+      let i = 0;
+      while (i < session.steps.length) {
+        const step = session.steps[i];
         session.currentStepIndex = i;
         session.state = 'awaiting_approval';
         this.updateSessionStatus(socketId, session);
@@ -196,8 +269,8 @@ export class WebSocketServer {
         const approvalRequest: StepApprovalRequest = {
           sessionId: session.sessionId,
           stepIndex: i,
-          totalSteps: steps.length,
-          step: steps[i],
+          totalSteps: session.steps.length,
+          step,
           previousResults: session.results,
           timeoutSeconds: approvalTimeoutSeconds,
         };
@@ -212,62 +285,32 @@ export class WebSocketServer {
             approvalTimeoutSeconds * 1000
           );
 
+          if (approval.edit) {
+            i = await this.applyStepEdit(socketId, session, i, approval.edit, browser);
+            continue;
+          }
+
           if (!approval.approved) {
             // Step rejected, mark as skipped
-            this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
-              sessionId: session.sessionId,
-              stepIndex: i,
-              status: 'skipped',
-              result: {
-                stepId: steps[i].id || `step_${i}`,
-                action: steps[i].action,
-                status: 'skipped',
-                message: approval.reason || 'Rejected by user',
-                duration: 0,
-                timestamp: new Date().toISOString(),
-              },
-            });
+            this.emitStepSkipped(socketId, session, i, approval.reason || 'Rejected by user');
+            i++;
             continue;
           }
 
-          // Execute the step (use modified step if provided)
-          const stepToExecute = approval.modifiedStep || steps[i];
-          session.state = 'executing';
-          this.updateSessionStatus(socketId, session);
-
-          this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
-            sessionId: session.sessionId,
-            stepIndex: i,
-            status: 'started',
-          });
-
-          const result = await testOrchestrator.executeStep(
-            stepToExecute,
-            undefined, // Don't use MCP for human-in-loop
-            {
-              browser,
-              headless: false, // Always visible for human-in-loop
-              sessionId: session.sessionId, // Pass sessionId for persistent browser
-            }
-          );
-
-          session.results.push(result);
-
-          this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
-            sessionId: session.sessionId,
-            stepIndex: i,
-            status: result.status === 'passed' ? 'completed' : 'failed',
-            result,
-          });
+          // Execute the step (use modified step if provided) - the plan keeps what ran for retry/rewind
+          const stepToExecute = approval.modifiedStep || step;
+          session.steps[i] = stepToExecute;
+          await this.executeApprovedStep(socketId, session, i, stepToExecute, browser);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.trackResult(session, { step, status: 'failed', duration: 0, error: errorMessage }, i);
           this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
             sessionId: session.sessionId,
             stepIndex: i,
             status: 'failed',
             result: {
-              stepId: steps[i].id || `step_${i}`,
-              action: steps[i].action,
+              stepId: step.id || `step_${i}`,
+              action: step.action,
               status: 'failed',
               error: errorMessage,
               duration: 0,
@@ -275,6 +318,7 @@ export class WebSocketServer {
             },
           });
         }
+        i++;
       }
 
       // Mark session as completed
@@ -287,6 +331,12 @@ export class WebSocketServer {
         results: session.results,
       });
     } catch (error) {
+      if (session.state === 'cancelled') {
+        // Cancelled by the user (e.g. during generation) - not an error
+        this.updateSessionStatus(socketId, session);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       session.state = 'cancelled';
       this.io.to(socketId).emit(ServerEvents.ERROR, {
@@ -300,6 +350,137 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Run one approved step in the session's browser and report it
+   */
+  private async executeApprovedStep(
+    socketId: string,
+    session: TestSession,
+    stepIndex: number,
+    step: TestStep,
+    browser: string
+  ): Promise<void> {
+    session.state = 'executing';
+    this.updateSessionStatus(socketId, session);
+
+    this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
+      sessionId: session.sessionId,
+      stepIndex,
+      status: 'started',
+    });
+
+    const result = await testOrchestrator.executeStep(
+      step,
+      undefined, // Don't use MCP for human-in-loop
+      {
+        browser,
+        headless: false, // Always visible for human-in-loop
+        sessionId: session.sessionId, // Pass sessionId for persistent browser
+      }
+    );
+
+    this.trackResult(session, result, stepIndex);
+
+    this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
+      sessionId: session.sessionId,
+      stepIndex,
+      status: result.status === 'passed' ? 'completed' : 'failed',
+      result,
+    });
+  }
+
+  private emitStepSkipped(socketId: string, session: TestSession, stepIndex: number, message: string): void {
+    const step = session.steps[stepIndex];
+    this.trackResult(session, { step, status: 'skipped', duration: 0 }, stepIndex);
+    this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
+      sessionId: session.sessionId,
+      stepIndex,
+      status: 'skipped',
+      result: {
+        stepId: step.id || `step_${stepIndex}`,
+        action: step.action,
+        status: 'skipped',
+        message,
+        duration: 0,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Apply a reviewer's edit while step `pendingIndex` awaits approval
+   * The edit was validated by handleStepEdit
+   * @returns Index of the step to request approval for next
+   */
+  private async applyStepEdit(
+    socketId: string,
+    session: TestSession,
+    pendingIndex: number,
+    edit: StepEdit,
+    browser: string
+  ): Promise<number> {
+    const { steps } = session;
+    let nextStepIndex = pendingIndex;
+
+    switch (edit.action) {
+      case 'insert_before':
+        steps.splice(edit.stepIndex, 0, ...(edit.steps || []));
+        break;
+      case 'insert_after':
+        steps.splice(edit.stepIndex + 1, 0, ...(edit.steps || []));
+        break;
+      case 'skip':
+        if (edit.stepIndex === pendingIndex) {
+          this.emitStepSkipped(socketId, session, pendingIndex, 'Skipped by user');
+          return pendingIndex + 1;
+        }
+        steps.splice(edit.stepIndex, 1);
+        break;
+      case 'retry': {
+        const step = steps[edit.stepIndex];
+        try {
+          await this.executeApprovedStep(socketId, session, edit.stepIndex, step, browser);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          // The earlier result of the step no longer holds
+          this.trackResult(session, { step, status: 'failed', duration: 0, error: errorMessage }, edit.stepIndex);
+          this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
+            sessionId: session.sessionId,
+            stepIndex: edit.stepIndex,
+            status: 'failed',
+            result: {
+              stepId: step.id || `step_${edit.stepIndex}`,
+              action: step.action,
+              status: 'failed',
+              error: errorMessage,
+              duration: 0,
+              timestamp: new Date().toISOString(),
+            },
+          });
+        }
+        return pendingIndex;
+      }
+      case 'rewind':
+        // The rewound steps run again - their results and recorded steps are dropped
+        this.discardResultsFrom(session, edit.stepIndex);
+        nextStepIndex = edit.stepIndex;
+        break;
+    }
+
+    session.totalSteps = steps.length;
+    console.log(`[WebSocket] Session ${session.sessionId}: ${edit.action} at step ${edit.stepIndex}`);
+
+    const notification: StepsUpdatedNotification = {
+      sessionId: session.sessionId,
+      action: edit.action,
+      steps: [...steps],
+      nextStepIndex,
+    };
+    this.io.to(socketId).emit(ServerEvents.STEPS_UPDATED, notification);
+
+    return nextStepIndex;
+  }
+
   private async runIterativeTestWithApproval(
     socketId: string,
     session: TestSession,
@@ -354,7 +535,7 @@ export class WebSocketServer {
           // Callback when a step is executed
           onStepExecuted: async (stepResult) => {
             const stepIndex = session.results.length;
-            session.results.push(stepResult);
+            this.trackResult(session, stepResult, stepIndex);
 
             this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
               sessionId: session.sessionId,
@@ -435,16 +616,22 @@ export class WebSocketServer {
   ): Promise<void> {
     try {
       // This follows the same flow as the API endpoint
-      const result = await testOrchestrator.runTest(
-        session.scenario,
-        session.llmProvider,
-        true,
-        session.mcpClient
+      const result = await this.withGenerationStream(socketId, session, (stream) =>
+        testOrchestrator.runTest(
+          session.scenario,
+          session.llmProvider,
+          true,
+          session.mcpClient,
+          stream,
+          session.sessionId
+        )
       );
 
       session.steps = result.generatedSteps;
       session.totalSteps = result.generatedSteps.length;
-      session.results = result.executionResult?.results || [];
+      (result.executionResult?.results || []).forEach((stepResult: TestStepResult, stepIndex: number) => {
+        this.trackResult(session, stepResult, stepIndex);
+      });
       session.state = 'completed';
       session.completedAt = new Date();
 
@@ -453,6 +640,12 @@ export class WebSocketServer {
         results: session.results,
       });
     } catch (error) {
+      if (session.state === 'cancelled') {
+        // Cancelled by the user (e.g. during generation) - not an error
+        this.updateSessionStatus(socketId, session);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       session.state = 'cancelled';
       this.io.to(socketId).emit(ServerEvents.ERROR, {
@@ -463,6 +656,136 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Freeze a completed session's passed steps into a recorded test
+   */
+  private async handleRecordSession(socketId: string, request: RecordSessionRequest): Promise<void> {
+    const session = this.activeSessions.get(request.sessionId);
+    if (!session) {
+      throw new Error(`Session ${request.sessionId} not found`);
+    }
+
+    const recording = await recordedTests.recordSession(session, request.name);
+    const notification: SessionRecordedNotification = { sessionId: session.sessionId, recording };
+    this.io.to(socketId).emit(ServerEvents.SESSION_RECORDED, notification);
+  }
+
+  /**
+   * Replay a recorded test in a new session - steps run without approval or generation,
+   * the LLM is only asked to heal a missing selector
+   */
+  private async handleReplayTest(socketId: string, request: ReplayTestRequest): Promise<void> {
+    const recording = await recordedTests.get(request.recordingId);
+    if (!recording) {
+      throw new Error(`Recorded test ${request.recordingId} not found`);
+    }
+
+    const sessionId = this.generateSessionId();
+    const session: TestSession = {
+      sessionId,
+      scenario: recording.scenario,
+      llmProvider: '', // Replays generate nothing
+      browser: request.browser || recording.browser,
+      state: 'executing',
+      currentStepIndex: 0,
+      totalSteps: recording.steps.length,
+      steps: recording.steps,
+      executedSteps: [],
+      results: [],
+      resultStepIndexes: [],
+      recordingId: recording.id,
+      startedAt: new Date(),
+    };
+    this.activeSessions.set(sessionId, session);
+
+    console.log(`[WebSocket] Replaying recorded test ${recording.id} in session ${sessionId}`);
+
+    this.io.to(socketId).emit(ServerEvents.SESSION_CREATED, { sessionId, scenario: recording.scenario });
+    this.io.to(socketId).emit(ServerEvents.STEPS_GENERATED, { sessionId, steps: recording.steps });
+    this.updateSessionStatus(socketId, session);
+
+    // Registered on the session so cancel_session closes its browser
+    let replay: Awaited<ReturnType<typeof recordedTests.replay>>;
+    try {
+      replay = await recordedTests.replay(
+        recording.id,
+        { browser: session.browser, selfHeal: request.selfHeal, options: { headless: request.headless ?? false } },
+        (result, stepIndex) => {
+          session.currentStepIndex = stepIndex;
+          this.trackResult(session, result, stepIndex);
+          this.io.to(socketId).emit(ServerEvents.STEP_EXECUTION_UPDATE, {
+            sessionId,
+            stepIndex,
+            status: result.status === 'passed' ? 'completed' : 'failed',
+            result,
+          });
+        },
+        testOrchestrator.createReplayExecutor(sessionId)
+      );
+      if (session.state === 'executing') {
+        session.state = replay?.execution.status === 'passed' ? 'completed' : 'failed';
+      }
+    } finally {
+      await testOrchestrator.closeSessionExecutor(sessionId);
+
+      // A replay that threw is still executing
+      if (session.state === 'executing') {
+        session.state = 'failed';
+      }
+      if (session.state !== 'cancelled') {
+        session.completedAt = new Date();
+        this.updateSessionStatus(socketId, session);
+      }
+    }
+
+    if (session.state === 'cancelled') {
+      return;
+    }
+
+    this.io.to(socketId).emit(ServerEvents.SESSION_COMPLETED, {
+      sessionId,
+      state: session.state,
+      results: session.results,
+      status: replay?.execution.status,
+      replay: replay && {
+        recordingId: replay.recordingId,
+        runId: replay.runId,
+        healed: replay.healed,
+        recordingUpdated: replay.recordingUpdated,
+      },
+    });
+  }
+
+  /**
+   * Keep a step's result (replacing an earlier one of the same step) and the passed steps for recording
+   */
+  private trackResult(session: TestSession, result: TestStepResult, stepIndex: number): void {
+    const position = session.resultStepIndexes.indexOf(stepIndex);
+    if (position >= 0) {
+      session.results[position] = result;
+    } else {
+      session.results.push(result);
+      session.resultStepIndexes.push(stepIndex);
+    }
+    this.syncExecutedSteps(session);
+  }
+
+  /**
+   * Forget the results of a step and every step after it
+   */
+  private discardResultsFrom(session: TestSession, stepIndex: number): void {
+    const kept = session.resultStepIndexes.map((index) => index < stepIndex);
+    session.results = session.results.filter((_, i) => kept[i]);
+    session.resultStepIndexes = session.resultStepIndexes.filter((_, i) => kept[i]);
+    this.syncExecutedSteps(session);
+  }
+
+  private syncExecutedSteps(session: TestSession): void {
+    session.executedSteps = session.results
+      .filter((result) => result.status === 'passed')
+      .map((result) => result.step);
+  }
+
   private handleStepApproval(response: StepApprovalResponse): void {
     const processed = approvalManager.respondToApproval(response);
     if (!processed) {
@@ -472,6 +795,83 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Check a step edit against the session's plan and hand it to the pending approval
+   * Inserts and skips apply to the pending or upcoming steps, retry and rewind to executed ones
+   */
+  private handleStepEdit(edit: StepEdit, sessionId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.iterative) {
+      throw new Error('Steps cannot be edited with page-aware generation - each step is generated after the previous one');
+    }
+
+    const pendingIndex = approvalManager.getPendingStepIndex(sessionId);
+    if (pendingIndex === null) {
+      throw new Error('No step is awaiting approval');
+    }
+
+    const { action, stepIndex } = edit;
+    const lastIndex = session.steps.length - 1;
+    let first: number; // Lowest and highest step index the edit may target
+    let last: number;
+
+    switch (action) {
+      case 'insert_before':
+        [first, last] = [pendingIndex, lastIndex + 1];
+        break;
+      case 'insert_after':
+        [first, last] = [pendingIndex - 1, lastIndex];
+        break;
+      case 'skip':
+        [first, last] = [pendingIndex, lastIndex];
+        break;
+      case 'retry':
+      case 'rewind':
+        [first, last] = [0, pendingIndex - 1];
+        break;
+    }
+
+    if (!Number.isInteger(stepIndex) || stepIndex < first || stepIndex > last) {
+      throw new Error(`Cannot ${action.replace('_', ' ')} step ${stepIndex} while step ${pendingIndex} awaits approval`);
+    }
+
+    let steps: TestStep[] = [];
+    if (action === 'insert_before' || action === 'insert_after') {
+      const parsed = schemas.insertSteps.safeParse(edit.steps);
+      if (!parsed.success) {
+        const details = parsed.error.errors.map((e) => `${e.path.join('.') || 'steps'}: ${e.message}`);
+        throw new Error(`Invalid steps - ${details.join('; ')}`);
+      }
+      steps = parsed.data;
+    }
+
+    let applied: boolean;
+    switch (action) {
+      case 'insert_before':
+        applied = approvalManager.insertBefore(sessionId, stepIndex, steps);
+        break;
+      case 'insert_after':
+        applied = approvalManager.insertAfter(sessionId, stepIndex, steps);
+        break;
+      case 'skip':
+        applied = approvalManager.skip(sessionId, stepIndex);
+        break;
+      case 'retry':
+        applied = approvalManager.retryStep(sessionId, stepIndex);
+        break;
+      case 'rewind':
+        applied = approvalManager.rewind(sessionId, stepIndex);
+        break;
+    }
+
+    if (!applied) {
+      throw new Error('No step is awaiting approval');
+    }
+  }
+
   private handleSnapshotApproval(response: SnapshotApprovalResponse): void {
     const processed = approvalManager.respondToSnapshotApproval(response);
     if (!processed) {
@@ -485,6 +885,7 @@ export class WebSocketServer {
     const session = this.activeSessions.get(sessionId);
     if (session) {
       session.state = 'cancelled';
+      this.generationControllers.get(sessionId)?.abort();
       approvalManager.cancelSession(sessionId);
       this.activeSessions.delete(sessionId);
       // Close the persistent browser for this session
@@ -493,6 +894,31 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Run step generation with partial output forwarded as steps:generating_chunk
+   * Cancelling the session aborts the LLM request
+   */
+  private async withGenerationStream<T>(
+    socketId: string,
+    session: TestSession,
+    generate: (stream: StepGenerationStream) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    this.generationControllers.set(session.sessionId, controller);
+
+    try {
+      return await generate({
+        signal: controller.signal,
+        onChunk: (chunk) => {
+          const event: StepsGeneratingChunk = { sessionId: session.sessionId, ...chunk };
+          this.io.to(socketId).emit(ServerEvents.STEPS_GENERATING_CHUNK, event);
+        },
+      });
+    } finally {
+      this.generationControllers.delete(session.sessionId);
+    }
+  }
+
   private updateSessionStatus(socketId: string, session: TestSession): void {
     this.io.to(socketId).emit(ServerEvents.SESSION_STATUS, {
       sessionId: session.sessionId,
@@ -6,7 +6,7 @@ import { TestGeneratorService } from '../services/test-generator.service.js';
 import { StepExecutorService } from '../services/step-executor.service.js';
 import { PageInspectionService } from '../services/page-inspection.service.js';
 import { mcpManager } from '../mcp/index.js';
-import { TestStep, TestStepResult, DynamicTestRunRequest, DynamicTestRunResponse, PageSnapshot, IterativeStepRequest } from '../types/index.js';
+import { TestStep, TestStepResult, DynamicTestRunRequest, DynamicTestRunResponse, PageSnapshot, IterativeStepRequest, StepGenerationStream } from '../types/index.js';
 
 class WebSocketTestOrchestrator {
   private testGenerator: TestGeneratorService;
@@ -16,7 +16,7 @@ class WebSocketTestOrchestrator {
 
   constructor() {
     this.testGenerator = new TestGeneratorService(llmManager);
-    this.stepExecutor = new StepExecutorService();
+    this.stepExecutor = new StepExecutorService(this.testGenerator);
     this.pageInspection = new PageInspectionService();
   }
 
@@ -24,12 +24,21 @@ class WebSocketTestOrchestrator {
    * Create a persistent executor for a session (keeps browser open)
    */
   createSessionExecutor(sessionId: string): StepExecutorService {
-    const executor = new StepExecutorService();
+    const executor = new StepExecutorService(this.testGenerator);
     executor.enablePersistentBrowser();
     this.sessionExecutors.set(sessionId, executor);
     return executor;
   }
 
+  /**
+   * Create a one-run executor for a replay session - closing it (cancel) ends the replay
+   */
+  createReplayExecutor(sessionId: string): StepExecutorService {
+    const executor = new StepExecutorService(this.testGenerator);
+    this.sessionExecutors.set(sessionId, executor);
+    return executor;
+  }
+
   /**
    * Get or create session executor
    */
@@ -54,14 +63,20 @@ class WebSocketTestOrchestrator {
 
   /**
    * Generate test steps from a scenario
+   * With `stream`, partial output is forwarded while the LLM is still writing
    */
-  async generateSteps(scenario: string, llmProvider?: string): Promise<TestStep[]> {
+  async generateSteps(
+    scenario: string,
+    llmProvider?: string,
+    stream?: StepGenerationStream,
+    sessionId?: string
+  ): Promise<TestStep[]> {
     // Set active provider if specified
     if (llmProvider) {
       llmManager.setActiveProvider(llmProvider as any);
     }
     
-    const response = await this.testGenerator.generateSteps({ scenario });
+    const response = await this.testGenerator.generateSteps({ scenario, usage: { sessionId } }, stream);
     return response.steps;
   }
 
@@ -122,8 +137,15 @@ class WebSocketTestOrchestrator {
   /**
    * Run full test (generation + execution)
    */
-  async runTest(scenario: string, llmProvider?: string, executeImmediately?: boolean, mcpClient?: string): Promise<any> {
-    const steps = await this.generateSteps(scenario, llmProvider);
+  async runTest(
+    scenario: string,
+    llmProvider?: string,
+    executeImmediately?: boolean,
+    mcpClient?: string,
+    stream?: StepGenerationStream,
+    sessionId?: string
+  ): Promise<any> {
+    const steps = await this.generateSteps(scenario, llmProvider, stream, sessionId);
 
     const activeProvider = llmManager.getActiveProvider();
     const providerName = activeProvider ? (activeProvider as any).name || 'unknown' : 'unknown';
@@ -206,7 +228,7 @@ class WebSocketTestOrchestrator {
     try {
       // Step 1: Parse scenario into abstract intentions
       console.log('[IterativeTest] Parsing scenario into intentions...');
-      const intentions = await this.testGenerator.parseScenarioIntent(scenario);
+      const intentions = await this.testGenerator.parseScenarioIntent(scenario, { sessionId });
       console.log(`[IterativeTest] Found ${intentions.length} intentions:`, intentions);
 
       // Get or create session executor for persistent browser
@@ -232,6 +254,8 @@ class WebSocketTestOrchestrator {
               scenario: `${intention}. Full context: ${scenario}`,
               previousSteps: executedSteps,
               requiresPageContext: false,
+              usage: { sessionId },
+              cacheScope: scenario,
             };
 
             const navStep = await this.testGenerator.generateNextStep(navRequest);
@@ -310,6 +334,8 @@ class WebSocketTestOrchestrator {
             previousSteps: executedSteps,
             currentPageSnapshot,
             requiresPageContext: true,
+            usage: { sessionId },
+            cacheScope: scenario,
           };
 
           const step = await this.testGenerator.generateNextStep(stepRequest);
@@ -444,14 +470,20 @@ class WebSocketTestOrchestrator {
       const url = page.url();
       const title = await page.title();
 
-      // Capture interactive elements using Playwright locators
+      // Capture interactive elements using Playwright locators, then from iframes
       const elements = await this.extractPageElements(page);
 
+      for (const { frame, selector } of await executor.listFrames()) {
+        const frameElements = await this.extractPageElements(frame);
+        elements.push(...frameElements.map((el) => ({ ...el, frame: selector })));
+      }
+
       const snapshot: PageSnapshot = {
         url,
         title,
         elements,
         timestamp: new Date(),
+        device: executor.getEmulatedDevice(),
       };
 
       return snapshot;
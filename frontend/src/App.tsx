@@ -8,10 +8,14 @@ import {
   StepApprovalRequest,
   StepExecutionUpdate,
   SessionStatusUpdate,
+  StepsGeneratingChunk,
+  StepsUpdatedNotification,
+  StepEdit,
   TestStep,
   TestStepResult,
   SessionState,
   BrowserType,
+  RecordedTest,
 } from "./types";
 import "./App.css";
 
@@ -28,6 +32,10 @@ function App() {
   // WebSocket-based state
   const [sessionState, setSessionState] = useState<SessionState>("idle");
   const [generatedSteps, setGeneratedSteps] = useState<TestStep[]>([]);
+  const [generationOutput, setGenerationOutput] = useState({
+    repair: 0,
+    text: "",
+  });
   const [currentApprovalRequest, setCurrentApprovalRequest] =
     useState<StepApprovalRequest | null>(null);
   const [executionResults, setExecutionResults] = useState<TestStepResult[]>(
@@ -36,21 +44,56 @@ function App() {
   const [stepUpdates, setStepUpdates] = useState<
     Map<number, StepExecutionUpdate>
   >(new Map());
+  // Last finished session (the hook forgets the id on completion) and its recording
+  const [completedSessionId, setCompletedSessionId] = useState<string | null>(
+    null
+  );
+  const [recording, setRecording] = useState<RecordedTest | null>(null);
+  // Steps arrive one at a time with page-aware generation, so there is no plan to edit
+  const [planEditable, setPlanEditable] = useState(false);
+  const [approvalRound, setApprovalRound] = useState(0); // Resets StepApproval for each request
 
   const {
     isConnected,
     currentSessionId,
     startTest,
     approveStep,
+    editSteps,
     cancelSession,
+    recordSession,
+    replayTest,
   } = useWebSocket({
+    onStepsGenerating: (chunk: StepsGeneratingChunk) => {
+      // A repair round starts its output over
+      setGenerationOutput((prev) =>
+        prev.repair === chunk.repair
+          ? { repair: chunk.repair, text: prev.text + chunk.delta }
+          : { repair: chunk.repair, text: chunk.delta }
+      );
+      setGeneratedSteps(chunk.steps);
+    },
     onStepsGenerated: (steps: TestStep[]) => {
       console.log("Steps generated:", steps);
       setGeneratedSteps(steps);
+      setGenerationOutput({ repair: 0, text: "" });
+    },
+    onStepsUpdated: (update: StepsUpdatedNotification) => {
+      console.log("Steps updated:", update);
+      setGeneratedSteps(update.steps);
+      if (update.action === "rewind") {
+        // Steps from the rewind point run again
+        setStepUpdates(
+          (prev) =>
+            new Map(
+              [...prev].filter(([idx]) => idx < update.nextStepIndex)
+            )
+        );
+      }
     },
     onApprovalRequest: (request: StepApprovalRequest) => {
       console.log("Approval request:", request);
       setCurrentApprovalRequest(request);
+      setApprovalRound((round) => round + 1);
     },
     onStepUpdate: (update: StepExecutionUpdate) => {
       console.log("Step update:", update);
@@ -65,19 +108,44 @@ function App() {
     },
     onSessionCompleted: (data: any) => {
       console.log("Session completed:", data);
-      setSessionState("completed");
+      setSessionState(data.state || "completed"); // Replays report "failed" when a step failed
       setCurrentApprovalRequest(null);
       setLoading(false); // Ensure loading is false
+      // Replays are already recorded
+      setCompletedSessionId(data.replay ? null : data.sessionId);
       // Keep results visible (no auto-reset to idle, like API mode)
     },
+    onSessionRecorded: ({ recording }) => {
+      console.log("Session recorded:", recording);
+      setRecording(recording);
+      setCompletedSessionId(null);
+    },
     onError: (error: any) => {
       console.error("WebSocket error:", error);
+      if (
+        error.message === "Failed to edit steps" ||
+        error.message === "Failed to record session"
+      ) {
+        // The session is unaffected (the step is still awaiting approval / the results stay)
+        alert(`${error.message}: ${error.error}`);
+        return;
+      }
       alert(`Error: ${error.message || "Unknown error"}`);
       setSessionState("idle"); // Reset on error
       setLoading(false); // Ensure loading is false
     },
   });
 
+  const resetSessionView = () => {
+    setLoading(false); // Ensure loading is false for WebSocket mode
+    setGeneratedSteps([]);
+    setGenerationOutput({ repair: 0, text: "" });
+    setCurrentApprovalRequest(null);
+    setExecutionResults([]);
+    setStepUpdates(new Map());
+    setCompletedSessionId(null);
+  };
+
   const handleTestRun = async (
     prompt: string,
     llmProvider: string,
@@ -91,12 +159,10 @@ function App() {
     if (mode === "websocket") {
       // Use WebSocket with human-in-loop
       // Clear previous results when starting a new test
-      setLoading(false); // Ensure loading is false for WebSocket mode
+      resetSessionView();
+      setRecording(null);
+      setPlanEditable(!enablePageAware);
       setSessionState("generating");
-      setGeneratedSteps([]);
-      setCurrentApprovalRequest(null);
-      setExecutionResults([]);
-      setStepUpdates(new Map());
 
       startTest({
         scenario: prompt,
@@ -179,6 +245,27 @@ function App() {
     setCurrentApprovalRequest(null);
   };
 
+  const handleEditSteps = (edit: StepEdit) => {
+    if (!currentApprovalRequest || !currentSessionId) return;
+
+    // The approval stays open until the server asks again with the edited plan
+    editSteps(currentSessionId, edit);
+  };
+
+  const handleRecord = () => {
+    if (!completedSessionId) return;
+    recordSession({ sessionId: completedSessionId });
+  };
+
+  const handleReplay = () => {
+    if (!recording) return;
+
+    resetSessionView();
+    setPlanEditable(false);
+    setSessionState("executing");
+    replayTest({ recordingId: recording.id, headless: false });
+  };
+
   const handleCancel = () => {
     if (currentSessionId) {
       cancelSession(currentSessionId);
@@ -229,7 +316,9 @@ function App() {
           loading={
             mode === "api"
               ? loading
-              : sessionState !== "idle" && sessionState !== "completed"
+              : sessionState !== "idle" &&
+                sessionState !== "completed" &&
+                sessionState !== "failed"
           }
           mode={mode}
         />
@@ -237,9 +326,12 @@ function App() {
         {/* WebSocket Mode - Approval UI */}
         {mode === "websocket" && currentApprovalRequest && (
           <StepApproval
+            key={approvalRound}
             request={currentApprovalRequest}
             onApprove={handleApprove}
             onReject={handleReject}
+            steps={generatedSteps}
+            onEdit={planEditable ? handleEditSteps : undefined}
           />
         )}
 
@@ -247,6 +339,7 @@ function App() {
         {mode === "websocket" &&
           (currentSessionId ||
             sessionState === "completed" ||
+            sessionState === "failed" ||
             sessionState === "cancelled") && (
             <div className="session-status">
               <div className="session-info">
@@ -260,16 +353,43 @@ function App() {
                 </span>
                 {sessionState !== "idle" &&
                   sessionState !== "completed" &&
+                  sessionState !== "failed" &&
                   sessionState !== "cancelled" && (
                     <button onClick={handleCancel} className="btn-cancel">
                       Cancel Session
                     </button>
                   )}
+                {sessionState === "completed" && completedSessionId && (
+                  <button onClick={handleRecord} className="btn-record">
+                    💾 Save as Recorded Test
+                  </button>
+                )}
+                {(sessionState === "completed" || sessionState === "failed") &&
+                  recording && (
+                    <button onClick={handleReplay} className="btn-record">
+                      ▶ Replay "{recording.name}" (no LLM)
+                    </button>
+                  )}
               </div>
 
+              {sessionState === "generating" && generationOutput.text && (
+                <div className="generation-output">
+                  <h4>
+                    LLM output
+                    {generationOutput.repair > 0 &&
+                      ` (repair round ${generationOutput.repair})`}
+                  </h4>
+                  <pre>{generationOutput.text.slice(-600)}</pre>
+                </div>
+              )}
+
               {generatedSteps.length > 0 && (
                 <div className="generated-steps">
-                  <h3>Generated Steps ({generatedSteps.length}):</h3>
+                  <h3>
+                    {sessionState === "generating"
+                      ? `Generating Steps (${generatedSteps.length} so far)...`
+                      : `Generated Steps (${generatedSteps.length}):`}
+                  </h3>
                   <ol>
                     {generatedSteps.map((step, idx) => {
                       const update = stepUpdates.get(idx);
@@ -299,7 +419,9 @@ function App() {
               )}
 
               {/* WebSocket Mode - Execution Results (After Completion) */}
-              {(sessionState === "completed" || sessionState === "cancelled") &&
+              {(sessionState === "completed" ||
+                sessionState === "failed" ||
+                sessionState === "cancelled") &&
                 executionResults.length > 0 && (
                   <div className="websocket-results">
                     <h3>Execution Results</h3>
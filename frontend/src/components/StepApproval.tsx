@@ -2,20 +2,25 @@
  * StepApproval Component - Human-in-loop approval UI for test steps
  */
 import { useState } from 'react';
-import { StepApprovalRequest, TestStepResult } from '../types';
+import { StepApprovalRequest, StepEdit, TestStep, TestStepResult } from '../types';
 import './StepApproval.css';
 
 interface StepApprovalProps {
   request: StepApprovalRequest;
   onApprove: (modifiedStep?: any) => void;
   onReject: (reason: string) => void;
+  steps?: TestStep[]; // Current plan - shown for editing when onEdit is set
+  onEdit?: (edit: StepEdit) => void; // Omit when the plan cannot be edited (page-aware generation)
   disabled?: boolean;
 }
 
-export function StepApproval({ request, onApprove, onReject, disabled }: StepApprovalProps) {
+const EMPTY_STEP = { action: '', target: '', value: '' };
+
+export function StepApproval({ request, onApprove, onReject, steps = [], onEdit, disabled }: StepApprovalProps) {
   const [reason, setReason] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editedStep, setEditedStep] = useState(request.step);
+  const [newStep, setNewStep] = useState(EMPTY_STEP);
 
   const handleApprove = () => {
     if (isEditing) {
@@ -31,6 +36,19 @@ export function StepApproval({ request, onApprove, onReject, disabled }: StepApp
     setReason('');
   };
 
+  const handleInsert = (action: 'insert_before' | 'insert_after') => {
+    if (!onEdit || !newStep.action.trim()) return;
+
+    const step: TestStep = {
+      id: `step_${Date.now()}`,
+      action: newStep.action.trim(),
+      target: newStep.target.trim() || undefined,
+      value: newStep.value.trim() || undefined,
+    };
+    onEdit({ action, stepIndex: request.stepIndex, steps: [step] });
+    setNewStep(EMPTY_STEP);
+  };
+
   return (
     <div className="step-approval">
       <div className="step-approval-header">
@@ -124,6 +142,103 @@ export function StepApproval({ request, onApprove, onReject, disabled }: StepApp
           </div>
         )}
 
+        {onEdit && (
+          <div className="plan-editor">
+            <h4>Step Plan:</h4>
+            <div className="plan-steps">
+              {steps.map((step: TestStep, idx: number) => (
+                <div
+                  key={idx}
+                  className={`plan-step ${
+                    idx < request.stepIndex
+                      ? 'plan-step-done'
+                      : idx === request.stepIndex
+                      ? 'plan-step-pending'
+                      : ''
+                  }`}
+                >
+                  <span className="result-index">#{idx + 1}</span>
+                  <span className="result-action">
+                    {step.action}
+                    {step.target && <code> {step.target}</code>}
+                  </span>
+                  <span className="plan-step-buttons">
+                    {idx < request.stepIndex && (
+                      <>
+                        <button
+                          onClick={() => onEdit({ action: 'retry', stepIndex: idx })}
+                          disabled={disabled}
+                          className="btn-plan"
+                          title="Run this step again, then come back here"
+                        >
+                          ↻ Retry
+                        </button>
+                        <button
+                          onClick={() => onEdit({ action: 'rewind', stepIndex: idx })}
+                          disabled={disabled}
+                          className="btn-plan"
+                          title="Continue from this step"
+                        >
+                          ⏮ Rewind
+                        </button>
+                      </>
+                    )}
+                    {idx === request.stepIndex && <span className="plan-step-label">awaiting approval</span>}
+                    {idx > request.stepIndex && (
+                      <button
+                        onClick={() => onEdit({ action: 'skip', stepIndex: idx })}
+                        disabled={disabled}
+                        className="btn-plan"
+                        title="Remove this step from the plan"
+                      >
+                        ✕ Remove
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="insert-step">
+              <input
+                type="text"
+                placeholder="Action (e.g. wait, expectVisible)"
+                value={newStep.action}
+                onChange={(e) => setNewStep({ ...newStep, action: e.target.value })}
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                placeholder="Target (optional)"
+                value={newStep.target}
+                onChange={(e) => setNewStep({ ...newStep, target: e.target.value })}
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                placeholder="Value (optional)"
+                value={newStep.value}
+                onChange={(e) => setNewStep({ ...newStep, value: e.target.value })}
+                disabled={disabled}
+              />
+              <button
+                onClick={() => handleInsert('insert_before')}
+                disabled={disabled || !newStep.action.trim()}
+                className="btn-plan"
+              >
+                + Insert before
+              </button>
+              <button
+                onClick={() => handleInsert('insert_after')}
+                disabled={disabled || !newStep.action.trim()}
+                className="btn-plan"
+              >
+                + Insert after
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="approval-actions">
           <div className="edit-toggle">
             <label>
@@ -156,6 +271,15 @@ export function StepApproval({ request, onApprove, onReject, disabled }: StepApp
             >
               ✗ Reject
             </button>
+            {onEdit && (
+              <button
+                onClick={() => onEdit({ action: 'skip', stepIndex: request.stepIndex })}
+                disabled={disabled}
+                className="btn btn-skip"
+              >
+                ⏭ Skip
+              </button>
+            )}
             <button
               onClick={handleApprove}
               disabled={disabled}
@@ -71,6 +71,9 @@ export default function TestPromptInput({ onSubmit, loading, mode }: Props) {
             >
               <option value="groq">Groq (Fast, Cloud)</option>
               <option value="ollama">Ollama (Local)</option>
+              <option value="openai">OpenAI / Compatible</option>
+              <option value="anthropic">Anthropic</option>
+              <option value="google">Google Gemini</option>
             </select>
           </div>
 
@@ -1,10 +1,54 @@
-import { DynamicTestRunResponse } from "../types";
+import { AccessibilityReport, DynamicTestRunResponse } from "../types";
 import "./TestResults.css";
 
 interface Props {
   result: DynamicTestRunResponse;
 }
 
+function AccessibilityResults({ report }: { report: AccessibilityReport }) {
+  const below = report.violations.length - report.failingCount;
+
+  return (
+    <div className="a11y-report">
+      <div className="a11y-summary">
+        {report.failingCount === 0 ? "♿ No" : `♿ ${report.failingCount}`} violation
+        {report.failingCount === 1 ? "" : "s"} at or above {report.minImpact}
+        {below > 0 && `, ${below} below`} · {report.passedRules} rules passed
+        {report.incompleteRules > 0 && ` · ${report.incompleteRules} need review`}
+      </div>
+      <div className="a11y-meta">
+        {report.engine}
+        {report.tags.length > 0 && ` · ${report.tags.join(", ")}`}
+      </div>
+      {report.violations.length > 0 && (
+        <ul className="a11y-violations">
+          {report.violations.map((violation) => (
+            <li
+              key={violation.ruleId}
+              className={`a11y-violation ${violation.failing ? "failing" : ""}`}
+            >
+              <span className={`impact-badge ${violation.impact || "unknown"}`}>
+                {violation.impact || "unknown"}
+              </span>
+              <a href={violation.helpUrl} target="_blank" rel="noreferrer">
+                {violation.ruleId}
+              </a>
+              <span className="a11y-help">{violation.help}</span>
+              <ul className="a11y-nodes">
+                {violation.nodes.map((node, i) => (
+                  <li key={i}>
+                    <code>{node.target}</code>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export default function TestResults({ result }: Props) {
   return (
     <div className="test-results">
@@ -97,6 +141,9 @@ export default function TestResults({ result }: Props) {
                 {stepResult.error && (
                   <div className="step-error">Error: {stepResult.error}</div>
                 )}
+                {stepResult.accessibility && (
+                  <AccessibilityResults report={stepResult.accessibility} />
+                )}
               </div>
             ))}
           </div>
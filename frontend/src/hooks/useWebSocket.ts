@@ -11,15 +11,33 @@ import {
   StepApprovalRequest,
   StepExecutionUpdate,
   SessionStatusUpdate,
+  StepsGeneratingChunk,
   TestStep,
+  RecordSessionRequest,
+  ReplayTestRequest,
+  SessionRecordedNotification,
+  StepEdit,
+  StepEditAction,
+  StepsUpdatedNotification,
 } from '../types';
 
+const STEP_EDIT_EVENTS: Record<StepEditAction, ClientEvents> = {
+  insert_before: ClientEvents.STEP_INSERT_BEFORE,
+  insert_after: ClientEvents.STEP_INSERT_AFTER,
+  skip: ClientEvents.STEP_SKIP,
+  retry: ClientEvents.STEP_RETRY,
+  rewind: ClientEvents.STEP_REWIND,
+};
+
 interface UseWebSocketOptions {
+  onStepsGenerating?: (chunk: StepsGeneratingChunk) => void;
   onStepsGenerated?: (steps: TestStep[]) => void;
+  onStepsUpdated?: (update: StepsUpdatedNotification) => void;
   onApprovalRequest?: (request: StepApprovalRequest) => void;
   onStepUpdate?: (update: StepExecutionUpdate) => void;
   onSessionStatus?: (status: SessionStatusUpdate) => void;
   onSessionCompleted?: (data: any) => void;
+  onSessionRecorded?: (notification: SessionRecordedNotification) => void;
   onError?: (error: any) => void;
 }
 
@@ -52,11 +70,20 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       setCurrentSessionId(data.sessionId);
     });
 
+    socket.on(ServerEvents.STEPS_GENERATING_CHUNK, (chunk: StepsGeneratingChunk) => {
+      options.onStepsGenerating?.(chunk);
+    });
+
     socket.on(ServerEvents.STEPS_GENERATED, (data: { steps: TestStep[] }) => {
       console.log('[WebSocket] Steps generated:', data.steps.length);
       options.onStepsGenerated?.(data.steps);
     });
 
+    socket.on(ServerEvents.STEPS_UPDATED, (update: StepsUpdatedNotification) => {
+      console.log('[WebSocket] Steps updated:', update.action, update.steps.length);
+      options.onStepsUpdated?.(update);
+    });
+
     socket.on(ServerEvents.STEP_APPROVAL_REQUEST, (request: StepApprovalRequest) => {
       console.log('[WebSocket] Approval request for step:', request.stepIndex);
       options.onApprovalRequest?.(request);
@@ -78,6 +105,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       setCurrentSessionId(null);
     });
 
+    socket.on(ServerEvents.SESSION_RECORDED, (notification: SessionRecordedNotification) => {
+      console.log('[WebSocket] Session recorded:', notification.recording.id);
+      options.onSessionRecorded?.(notification);
+    });
+
     socket.on(ServerEvents.ERROR, (error: any) => {
       console.error('[WebSocket] Error:', error);
       options.onError?.(error);
@@ -105,6 +137,18 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     socketRef.current.emit(ClientEvents.STEP_APPROVAL, response);
   }, []);
 
+  const editSteps = useCallback((sessionId: string, edit: StepEdit) => {
+    if (!socketRef.current) {
+      throw new Error('WebSocket not connected');
+    }
+    console.log('[WebSocket] Editing steps:', edit);
+    socketRef.current.emit(STEP_EDIT_EVENTS[edit.action], {
+      sessionId,
+      stepIndex: edit.stepIndex,
+      steps: edit.steps,
+    });
+  }, []);
+
   const cancelSession = useCallback((sessionId: string) => {
     if (!socketRef.current) {
       throw new Error('WebSocket not connected');
@@ -114,11 +158,30 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     setCurrentSessionId(null);
   }, []);
 
+  const recordSession = useCallback((request: RecordSessionRequest) => {
+    if (!socketRef.current) {
+      throw new Error('WebSocket not connected');
+    }
+    console.log('[WebSocket] Recording session:', request.sessionId);
+    socketRef.current.emit(ClientEvents.RECORD_SESSION, request);
+  }, []);
+
+  const replayTest = useCallback((request: ReplayTestRequest) => {
+    if (!socketRef.current) {
+      throw new Error('WebSocket not connected');
+    }
+    console.log('[WebSocket] Replaying recorded test:', request.recordingId);
+    socketRef.current.emit(ClientEvents.REPLAY_TEST, request);
+  }, []);
+
   return {
     isConnected,
     currentSessionId,
     startTest,
     approveStep,
+    editSteps,
     cancelSession,
+    recordSession,
+    replayTest,
   };
 }
@@ -24,9 +24,39 @@ export interface TestStepResult {
   message?: string
   error?: string
   screenshot?: string
+  accessibility?: AccessibilityReport
   timestamp: string
 }
 
+// ============================================
+// Accessibility Types
+// ============================================
+
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical'
+
+export interface AccessibilityViolation {
+  ruleId: string
+  impact?: AccessibilityImpact
+  description: string
+  help: string
+  helpUrl: string
+  tags: string[]
+  failing: boolean
+  nodes: { target: string; html: string; failureSummary?: string }[]
+}
+
+export interface AccessibilityReport {
+  url: string
+  engine: string
+  tags: string[]
+  minImpact: AccessibilityImpact
+  violations: AccessibilityViolation[]
+  failingCount: number
+  passedRules: number
+  incompleteRules: number
+  checkedAt: string
+}
+
 export interface TestExecutionResult {
   id: string
   status: 'passed' | 'failed' | 'error'
@@ -64,7 +94,7 @@ export interface MCPClientSummary {
 }
 
 // WebSocket Types
-export type SessionState = 'idle' | 'generating' | 'awaiting_approval' | 'executing' | 'completed' | 'cancelled'
+export type SessionState = 'idle' | 'generating' | 'awaiting_approval' | 'executing' | 'completed' | 'failed' | 'cancelled'
 
 export interface StepApprovalRequest {
   sessionId: string
@@ -83,6 +113,31 @@ export interface StepApprovalResponse {
   reason?: string
 }
 
+// Plan edits while a step awaits approval (batch generation only)
+// insert_before / insert_after / skip target the pending or upcoming steps,
+// retry / rewind target executed steps
+export type StepEditAction = 'insert_before' | 'insert_after' | 'skip' | 'retry' | 'rewind'
+
+export interface StepEdit {
+  action: StepEditAction
+  stepIndex: number
+  steps?: TestStep[] // insert_before / insert_after
+}
+
+export interface StepsUpdatedNotification {
+  sessionId: string
+  action: StepEditAction
+  steps: TestStep[]
+  nextStepIndex: number
+}
+
+export interface StepsGeneratingChunk {
+  sessionId: string
+  delta: string
+  steps: TestStep[] // Steps already complete in the output so far
+  repair: number // Repair round (output starts over when this changes)
+}
+
 export interface StepExecutionUpdate {
   sessionId: string
   stepIndex: number
@@ -113,23 +168,72 @@ export interface StartTestRequest {
   }
 }
 
+// ============================================
+// Recorded Test Types
+// ============================================
+
+export interface RecordedTest {
+  id: string
+  name: string
+  scenario: string
+  steps: TestStep[]
+  browser?: BrowserType
+  sessionId?: string
+  lastReplay?: {
+    runId: string
+    status: 'passed' | 'failed' | 'error'
+    healedSteps: number
+    startedAt: string
+    completedAt: string
+  }
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RecordSessionRequest {
+  sessionId: string
+  name?: string
+}
+
+export interface SessionRecordedNotification {
+  sessionId: string
+  recording: RecordedTest
+}
+
+export interface ReplayTestRequest {
+  recordingId: string
+  browser?: BrowserType
+  headless?: boolean
+  selfHeal?: boolean
+}
+
 export enum ServerEvents {
   SESSION_CREATED = 'session:created',
   SESSION_STATUS = 'session:status',
+  STEPS_GENERATING_CHUNK = 'steps:generating_chunk',
   STEPS_GENERATED = 'steps:generated',
+  STEPS_UPDATED = 'steps:updated',
   STEP_APPROVAL_REQUEST = 'step:approval_request',
   STEP_EXECUTION_UPDATE = 'step:execution_update',
   SESSION_COMPLETED = 'session:completed',
   ERROR = 'error',
   SNAPSHOT_CAPTURED = 'snapshot:captured',
   SNAPSHOT_APPROVAL_REQUEST = 'snapshot:approval_request',
+  SESSION_RECORDED = 'session:recorded',
 }
 
 export enum ClientEvents {
   START_TEST = 'test:start',
   STEP_APPROVAL = 'step:approval',
+  STEP_INSERT_BEFORE = 'step:insert_before',
+  STEP_INSERT_AFTER = 'step:insert_after',
+  STEP_SKIP = 'step:skip',
+  STEP_RETRY = 'step:retry',
+  STEP_REWIND = 'step:rewind',
   CANCEL_SESSION = 'session:cancel',
   SNAPSHOT_APPROVAL = 'snapshot:approval',
+  RECORD_SESSION = 'session:record',
+  REPLAY_TEST = 'test:replay',
 }
 
 // ============================================